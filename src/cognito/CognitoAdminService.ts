@@ -0,0 +1,499 @@
+import {
+  CognitoIdentityProviderClient,
+  CreateUserPoolClientCommand,
+  CreateUserPoolClientCommandInput,
+  CreateUserPoolCommand,
+  DescribeUserPoolClientCommand,
+  DescribeUserPoolCommand,
+  ListUserPoolClientsCommand,
+  PasswordPolicyType,
+  TimeUnitsType,
+  UpdateUserPoolClientCommand,
+  UpdateUserPoolClientCommandInput,
+  UpdateUserPoolCommand,
+  UserPoolClientType,
+  UserPoolType,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { Logger } from '@nestjs/common';
+
+import { toCognitoError } from './CognitoErrors';
+import { CognitoService } from './CognitoService';
+import { PasswordPolicy } from './PasswordPolicy';
+import {
+  AppClientSettings,
+  AppClientTokenValidity,
+  CognitoAdminServiceConfig,
+  CognitoAppClient,
+  CognitoUserPool,
+  CreateAppClientParams,
+  CreateUserPoolParams,
+  TenantCognitoServiceConfig,
+  UpdateAppClientParams,
+  UpdateUserPoolParams,
+  UserPoolPasswordPolicy,
+} from './types';
+
+// seconds of each token validity unit
+const UNIT_SECONDS: Record<TimeUnitsType, number> = {
+  seconds: 1,
+  minutes: 60,
+  hours: 3600,
+  days: 86400,
+};
+
+/**
+ * service class to administer cognito user pools and app clients
+ * @class CognitoAdminService
+ * @description provisions user pools and app clients (e.g. one per tenant) and creates
+ * `CognitoService` instances bound to them
+ */
+export class CognitoAdminService {
+  private readonly client: CognitoIdentityProviderClient;
+  private readonly region: string;
+  private readonly logger: Logger;
+  private readonly throwOnError: boolean;
+
+  /**
+   * initialize the cognito admin service
+   * @param {Object} config - configuration settings for the cognito admin service
+   * @param {string} config.region - the aws region of the user pools
+   * @param {Logger} [config.logger] - optional nestjs logger instance
+   * @param {boolean} [config.throwOnError] - throw typed cognito errors instead of returning false/null results
+   * @param {Object|Function} [config.credentials] - optional credentials or credential provider
+   * @param {string} [config.endpoint] - optional endpoint of the cognito api (e.g. a local emulator)
+   * @param {number} [config.maxAttempts] - optional maximum number of attempts of each request
+   * @param {CognitoIdentityProviderClient} [config.client] - optional pre-built client
+   */
+  constructor(config: CognitoAdminServiceConfig) {
+    this.client =
+      config.client ||
+      new CognitoIdentityProviderClient({
+        region: config.region,
+        ...(config.credentials && { credentials: config.credentials }),
+        ...(config.endpoint && { endpoint: config.endpoint }),
+        ...(config.maxAttempts && { maxAttempts: config.maxAttempts }),
+      });
+    this.region = config.region;
+    this.logger = config.logger || new Logger(CognitoAdminService.name);
+    this.throwOnError = config.throwOnError || false;
+  }
+
+  /**
+   * create a cognito service bound to a user pool and app client, sharing the sdk client
+   * @param {Object} config - configuration of the service without the region and client settings
+   * @returns {CognitoService} - the service of the user pool
+   */
+  createCognitoService(config: TenantCognitoServiceConfig): CognitoService {
+    return new CognitoService({
+      throwOnError: this.throwOnError,
+      ...config,
+      region: this.region,
+      client: this.client,
+    });
+  }
+
+  /**
+   * describe a user pool
+   * @param {string} userPoolId - the id of the user pool
+   * @returns {Promise<CognitoUserPool|null>} - the user pool or null on error
+   */
+  async describeUserPool(userPoolId: string): Promise<CognitoUserPool | null> {
+    try {
+      return this.toCognitoUserPool(await this.getUserPool(userPoolId));
+    } catch (error) {
+      return this.handleError('error describing user pool', error, null);
+    }
+  }
+
+  /**
+   * create a user pool
+   * @param {Object} params - parameters for creating a user pool
+   * @param {string} params.poolName - the name of the user pool
+   * @param {Object} [params.passwordPolicy] - optional password policy, merged with the default policy
+   * @param {string} [params.mfaConfiguration] - optional mfa configuration (OFF, ON or OPTIONAL)
+   * @param {string[]} [params.usernameAttributes] - optional attributes users sign in with
+   * @param {string[]} [params.autoVerifiedAttributes] - optional attributes verified on sign up
+   * @param {Object[]} [params.customAttributes] - optional custom attributes of the users
+   * @param {boolean} [params.deletionProtection] - whether the user pool is protected against deletion
+   * @param {Object<string, string>} [params.tags] - optional tags of the user pool
+   * @returns {Promise<CognitoUserPool|null>} - the created user pool or null on error
+   */
+  async createUserPool(params: CreateUserPoolParams): Promise<CognitoUserPool | null> {
+    try {
+      const command = new CreateUserPoolCommand({
+        PoolName: params.poolName,
+        Policies: { PasswordPolicy: this.toPasswordPolicyType(params.passwordPolicy) },
+        ...(params.mfaConfiguration && { MfaConfiguration: params.mfaConfiguration }),
+        ...(params.usernameAttributes && { UsernameAttributes: params.usernameAttributes }),
+        ...(params.autoVerifiedAttributes && {
+          AutoVerifiedAttributes: params.autoVerifiedAttributes,
+        }),
+        ...(params.customAttributes && {
+          Schema: params.customAttributes.map((attribute) => ({
+            Name: attribute.name,
+            AttributeDataType: attribute.type || 'String',
+            Mutable: attribute.mutable ?? true,
+          })),
+        }),
+        ...(params.deletionProtection !== undefined && {
+          DeletionProtection: params.deletionProtection ? 'ACTIVE' : 'INACTIVE',
+        }),
+        ...(params.tags && { UserPoolTags: params.tags }),
+      });
+
+      const response = await this.client.send(command);
+
+      return this.toCognitoUserPool(response.UserPool || {});
+    } catch (error) {
+      return this.handleError('error creating user pool', error, null);
+    }
+  }
+
+  /**
+   * update a user pool, keeping the settings that are not given
+   * (cognito resets the settings omitted from an update to their defaults)
+   * @param {Object} params - parameters for updating a user pool
+   * @param {string} params.userPoolId - the id of the user pool
+   * @param {Object} [params.passwordPolicy] - optional password policy, merged with the current policy
+   * @param {string} [params.mfaConfiguration] - optional mfa configuration (OFF, ON or OPTIONAL)
+   * @param {string[]} [params.autoVerifiedAttributes] - optional attributes verified on sign up
+   * @param {boolean} [params.deletionProtection] - whether the user pool is protected against deletion
+   * @param {Object<string, string>} [params.tags] - optional tags replacing the current tags
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async updateUserPool(params: UpdateUserPoolParams): Promise<boolean> {
+    try {
+      const userPool = await this.getUserPool(params.userPoolId);
+      const passwordPolicy = {
+        ...PasswordPolicy.fromCognito(userPool.Policies?.PasswordPolicy).rules,
+        ...params.passwordPolicy,
+      };
+
+      const command = new UpdateUserPoolCommand({
+        UserPoolId: params.userPoolId,
+        Policies: {
+          ...userPool.Policies,
+          PasswordPolicy: {
+            ...userPool.Policies?.PasswordPolicy,
+            ...this.toPasswordPolicyType(passwordPolicy),
+          },
+        },
+        DeletionProtection:
+          params.deletionProtection === undefined
+            ? userPool.DeletionProtection
+            : params.deletionProtection
+              ? 'ACTIVE'
+              : 'INACTIVE',
+        LambdaConfig: userPool.LambdaConfig,
+        AutoVerifiedAttributes: params.autoVerifiedAttributes || userPool.AutoVerifiedAttributes,
+        SmsVerificationMessage: userPool.SmsVerificationMessage,
+        EmailVerificationMessage: userPool.EmailVerificationMessage,
+        EmailVerificationSubject: userPool.EmailVerificationSubject,
+        VerificationMessageTemplate: userPool.VerificationMessageTemplate,
+        SmsAuthenticationMessage: userPool.SmsAuthenticationMessage,
+        UserAttributeUpdateSettings: userPool.UserAttributeUpdateSettings,
+        MfaConfiguration: params.mfaConfiguration || userPool.MfaConfiguration,
+        DeviceConfiguration: userPool.DeviceConfiguration,
+        EmailConfiguration: userPool.EmailConfiguration,
+        SmsConfiguration: userPool.SmsConfiguration,
+        UserPoolTags: params.tags || userPool.UserPoolTags,
+        AdminCreateUserConfig: userPool.AdminCreateUserConfig,
+        UserPoolAddOns: userPool.UserPoolAddOns,
+        AccountRecoverySetting: userPool.AccountRecoverySetting,
+      });
+
+      await this.client.send(command);
+
+      return true;
+    } catch (error) {
+      return this.handleError('error updating user pool', error, false);
+    }
+  }
+
+  /**
+   * describe an app client, including its secret
+   * @param {string} userPoolId - the id of the user pool
+   * @param {string} clientId - the id of the app client
+   * @returns {Promise<CognitoAppClient|null>} - the app client or null on error
+   */
+  async describeAppClient(userPoolId: string, clientId: string): Promise<CognitoAppClient | null> {
+    try {
+      return this.toCognitoAppClient(await this.getAppClient(userPoolId, clientId));
+    } catch (error) {
+      return this.handleError('error describing app client', error, null);
+    }
+  }
+
+  /**
+   * list the app clients of a user pool, following the pagination tokens
+   * @param {string} userPoolId - the id of the user pool
+   * @returns {Promise<Object[]|null>} - the ids and names of the app clients or null on error
+   */
+  async listAppClients(
+    userPoolId: string,
+  ): Promise<Array<{ clientId: string; clientName: string }> | null> {
+    try {
+      const clients: Array<{ clientId: string; clientName: string }> = [];
+      let nextToken: string | undefined;
+
+      do {
+        const command = new ListUserPoolClientsCommand({
+          UserPoolId: userPoolId,
+          ...(nextToken && { NextToken: nextToken }),
+        });
+
+        const response = await this.client.send(command);
+
+        (response.UserPoolClients || []).forEach((client) => {
+          clients.push({ clientId: client.ClientId || '', clientName: client.ClientName || '' });
+        });
+        nextToken = response.NextToken;
+      } while (nextToken);
+
+      return clients;
+    } catch (error) {
+      return this.handleError('error listing app clients', error, null);
+    }
+  }
+
+  /**
+   * create an app client
+   * @param {Object} params - parameters for creating an app client
+   * @param {string} params.userPoolId - the id of the user pool
+   * @param {string} params.clientName - the name of the app client
+   * @param {boolean} [params.generateSecret] - whether the app client has a secret
+   * @param {Object} [params.tokenValidity] - optional validity of the issued tokens in seconds
+   * @param {string[]} [params.explicitAuthFlows] - optional authentication flows
+   * @param {string[]} [params.allowedOAuthFlows] - optional oauth flows of the hosted ui
+   * @param {string[]} [params.allowedOAuthScopes] - optional oauth scopes
+   * @param {string[]} [params.callbackUrls] - optional allowed redirect urls after sign in
+   * @param {string[]} [params.logoutUrls] - optional allowed redirect urls after sign out
+   * @param {string[]} [params.supportedIdentityProviders] - optional identity providers of the hosted ui
+   * @param {string[]} [params.readAttributes] - optional attributes the app client can read
+   * @param {string[]} [params.writeAttributes] - optional attributes the app client can write
+   * @returns {Promise<CognitoAppClient|null>} - the created app client (with its secret) or null on error
+   */
+  async createAppClient(params: CreateAppClientParams): Promise<CognitoAppClient | null> {
+    try {
+      const command = new CreateUserPoolClientCommand({
+        UserPoolId: params.userPoolId,
+        ClientName: params.clientName,
+        GenerateSecret: params.generateSecret || false,
+        PreventUserExistenceErrors: 'ENABLED',
+        EnableTokenRevocation: true,
+        ...this.toAppClientInput(params),
+      });
+
+      const response = await this.client.send(command);
+
+      return this.toCognitoAppClient(response.UserPoolClient || {});
+    } catch (error) {
+      return this.handleError('error creating app client', error, null);
+    }
+  }
+
+  /**
+   * update an app client, keeping the settings that are not given
+   * (cognito resets the settings omitted from an update to their defaults)
+   * @param {Object} params - parameters for updating an app client
+   * @param {string} params.userPoolId - the id of the user pool
+   * @param {string} params.clientId - the id of the app client
+   * @param {string} [params.clientName] - optional new name of the app client
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async updateAppClient(params: UpdateAppClientParams): Promise<boolean> {
+    try {
+      const client = await this.getAppClient(params.userPoolId, params.clientId);
+
+      const command = new UpdateUserPoolClientCommand({
+        UserPoolId: params.userPoolId,
+        ClientId: params.clientId,
+        ClientName: params.clientName || client.ClientName,
+        RefreshTokenValidity: client.RefreshTokenValidity,
+        AccessTokenValidity: client.AccessTokenValidity,
+        IdTokenValidity: client.IdTokenValidity,
+        TokenValidityUnits: client.TokenValidityUnits,
+        ReadAttributes: client.ReadAttributes,
+        WriteAttributes: client.WriteAttributes,
+        ExplicitAuthFlows: client.ExplicitAuthFlows,
+        SupportedIdentityProviders: client.SupportedIdentityProviders,
+        CallbackURLs: client.CallbackURLs,
+        LogoutURLs: client.LogoutURLs,
+        DefaultRedirectURI: client.DefaultRedirectURI,
+        AllowedOAuthFlows: client.AllowedOAuthFlows,
+        AllowedOAuthScopes: client.AllowedOAuthScopes,
+        AllowedOAuthFlowsUserPoolClient: client.AllowedOAuthFlowsUserPoolClient,
+        AnalyticsConfiguration: client.AnalyticsConfiguration,
+        PreventUserExistenceErrors: client.PreventUserExistenceErrors,
+        EnableTokenRevocation: client.EnableTokenRevocation,
+        EnablePropagateAdditionalUserContextData: client.EnablePropagateAdditionalUserContextData,
+        AuthSessionValidity: client.AuthSessionValidity,
+        ...this.toAppClientInput(params, client),
+      });
+
+      await this.client.send(command);
+
+      return true;
+    } catch (error) {
+      return this.handleError('error updating app client', error, false);
+    }
+  }
+
+  /**
+   * send the DescribeUserPool command, errors are thrown
+   */
+  private async getUserPool(userPoolId: string): Promise<UserPoolType> {
+    const command = new DescribeUserPoolCommand({ UserPoolId: userPoolId });
+
+    const response = await this.client.send(command);
+
+    return response.UserPool || {};
+  }
+
+  /**
+   * send the DescribeUserPoolClient command, errors are thrown
+   */
+  private async getAppClient(userPoolId: string, clientId: string): Promise<UserPoolClientType> {
+    const command = new DescribeUserPoolClientCommand({
+      UserPoolId: userPoolId,
+      ClientId: clientId,
+    });
+
+    const response = await this.client.send(command);
+
+    return response.UserPoolClient || {};
+  }
+
+  /**
+   * build the create/update input of the given app client settings
+   */
+  private toAppClientInput(
+    settings: AppClientSettings,
+    current: UserPoolClientType = {},
+  ): Partial<CreateUserPoolClientCommandInput & UpdateUserPoolClientCommandInput> {
+    const validity = settings.tokenValidity && {
+      ...this.toTokenValidity(current),
+      ...settings.tokenValidity,
+    };
+
+    return {
+      ...(validity && {
+        AccessTokenValidity: validity.accessTokenSeconds,
+        IdTokenValidity: validity.idTokenSeconds,
+        RefreshTokenValidity: validity.refreshTokenSeconds,
+        TokenValidityUnits: { AccessToken: 'seconds', IdToken: 'seconds', RefreshToken: 'seconds' },
+      }),
+      ...(settings.explicitAuthFlows && {
+        ExplicitAuthFlows:
+          settings.explicitAuthFlows as CreateUserPoolClientCommandInput['ExplicitAuthFlows'],
+      }),
+      ...(settings.allowedOAuthFlows && {
+        AllowedOAuthFlows: settings.allowedOAuthFlows,
+        AllowedOAuthFlowsUserPoolClient: settings.allowedOAuthFlows.length > 0,
+      }),
+      ...(settings.allowedOAuthScopes && { AllowedOAuthScopes: settings.allowedOAuthScopes }),
+      ...(settings.callbackUrls && { CallbackURLs: settings.callbackUrls }),
+      ...(settings.logoutUrls && { LogoutURLs: settings.logoutUrls }),
+      ...(settings.supportedIdentityProviders && {
+        SupportedIdentityProviders: settings.supportedIdentityProviders,
+      }),
+      ...(settings.readAttributes && { ReadAttributes: settings.readAttributes }),
+      ...(settings.writeAttributes && { WriteAttributes: settings.writeAttributes }),
+      ...(settings.preventUserExistenceErrors !== undefined && {
+        PreventUserExistenceErrors: settings.preventUserExistenceErrors ? 'ENABLED' : 'LEGACY',
+      }),
+      ...(settings.enableTokenRevocation !== undefined && {
+        EnableTokenRevocation: settings.enableTokenRevocation,
+      }),
+    };
+  }
+
+  /**
+   * get the token validity of an app client in seconds
+   * (cognito defaults to 1 hour access and id tokens and 30 day refresh tokens)
+   */
+  private toTokenValidity(client: UserPoolClientType): Required<AppClientTokenValidity> {
+    const units = client.TokenValidityUnits;
+    return {
+      accessTokenSeconds:
+        (client.AccessTokenValidity ?? 1) * UNIT_SECONDS[units?.AccessToken || 'hours'],
+      idTokenSeconds: (client.IdTokenValidity ?? 1) * UNIT_SECONDS[units?.IdToken || 'hours'],
+      refreshTokenSeconds:
+        (client.RefreshTokenValidity ?? 30) * UNIT_SECONDS[units?.RefreshToken || 'days'],
+    };
+  }
+
+  /**
+   * build the cognito password policy of the given rules
+   */
+  private toPasswordPolicyType(rules?: Partial<UserPoolPasswordPolicy>): PasswordPolicyType {
+    const policy = new PasswordPolicy(rules).rules;
+    return {
+      MinimumLength: policy.minimumLength,
+      RequireUppercase: policy.requireUppercase,
+      RequireLowercase: policy.requireLowercase,
+      RequireNumbers: policy.requireNumbers,
+      RequireSymbols: policy.requireSymbols,
+      ...(policy.temporaryPasswordValidityDays !== undefined && {
+        TemporaryPasswordValidityDays: policy.temporaryPasswordValidityDays,
+      }),
+    };
+  }
+
+  /**
+   * transform a cognito user pool into the user pool summary
+   */
+  private toCognitoUserPool(userPool: UserPoolType): CognitoUserPool {
+    return {
+      id: userPool.Id || '',
+      name: userPool.Name || '',
+      ...(userPool.Arn && { arn: userPool.Arn }),
+      passwordPolicy: PasswordPolicy.fromCognito(userPool.Policies?.PasswordPolicy).rules,
+      ...(userPool.MfaConfiguration && { mfaConfiguration: userPool.MfaConfiguration }),
+      usernameAttributes: userPool.UsernameAttributes || [],
+      autoVerifiedAttributes: userPool.AutoVerifiedAttributes || [],
+      deletionProtection: userPool.DeletionProtection === 'ACTIVE',
+      ...(userPool.EstimatedNumberOfUsers !== undefined && {
+        estimatedNumberOfUsers: userPool.EstimatedNumberOfUsers,
+      }),
+      tags: userPool.UserPoolTags || {},
+      ...(userPool.CreationDate && { creationDate: userPool.CreationDate }),
+      ...(userPool.LastModifiedDate && { lastModifiedDate: userPool.LastModifiedDate }),
+    };
+  }
+
+  /**
+   * transform a cognito app client into the app client summary
+   */
+  private toCognitoAppClient(client: UserPoolClientType): CognitoAppClient {
+    return {
+      userPoolId: client.UserPoolId || '',
+      clientId: client.ClientId || '',
+      clientName: client.ClientName || '',
+      ...(client.ClientSecret && { clientSecret: client.ClientSecret }),
+      tokenValidity: this.toTokenValidity(client),
+      explicitAuthFlows: client.ExplicitAuthFlows || [],
+      allowedOAuthFlows: client.AllowedOAuthFlows || [],
+      allowedOAuthScopes: client.AllowedOAuthScopes || [],
+      callbackUrls: client.CallbackURLs || [],
+      logoutUrls: client.LogoutURLs || [],
+      supportedIdentityProviders: client.SupportedIdentityProviders || [],
+      readAttributes: client.ReadAttributes || [],
+      writeAttributes: client.WriteAttributes || [],
+      preventUserExistenceErrors: client.PreventUserExistenceErrors === 'ENABLED',
+      enableTokenRevocation: client.EnableTokenRevocation ?? false,
+    };
+  }
+
+  /**
+   * log a failed operation, then throw the mapped cognito error (throwing mode)
+   * or return the fallback value of the boolean/result api
+   */
+  private handleError<T>(message: string, error: unknown, fallback: T): T {
+    this.logger.error(`${message}: ${error}`);
+    if (this.throwOnError) {
+      throw toCognitoError(error);
+    }
+    return fallback;
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Optional,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import { GROUPS_KEY, IS_PUBLIC_KEY } from './CognitoDecorators';
+import { CognitoService } from './CognitoService';
+import {
+  CognitoAuthGuardOptions,
+  CognitoAuthUser,
+  CognitoTokenUse,
+  VerifyTokenResult,
+} from './types';
+
+// injection token of the auth guard options
+export const COGNITO_AUTH_GUARD_OPTIONS = 'cognito:authGuardOptions';
+
+interface AuthRequest {
+  headers: Record<string, string | string[] | undefined>;
+  user?: CognitoAuthUser;
+}
+
+/**
+ * nestjs guard authenticating requests with a cognito bearer token
+ * @class CognitoAuthGuard
+ * @description verifies the access token (or the id token if configured) locally with
+ * `CognitoService.verifyJwt`, sets `request.user` and enforces the `@Public()` and `@Groups()`
+ * decorators
+ */
+@Injectable()
+export class CognitoAuthGuard implements CanActivate {
+  private readonly tokenUse: CognitoTokenUse;
+
+  /**
+   * @param {CognitoService} cognitoService - the service verifying the tokens
+   * @param {Reflector} reflector - reader of the route and controller metadata
+   * @param {CognitoAuthGuardOptions} [options] - guard options (token use "access" if omitted)
+   */
+  constructor(
+    private readonly cognitoService: CognitoService,
+    private readonly reflector: Reflector,
+    @Optional() @Inject(COGNITO_AUTH_GUARD_OPTIONS) options: CognitoAuthGuardOptions = {},
+  ) {
+    this.tokenUse = options.tokenUse || 'access';
+  }
+
+  /**
+   * authenticate the request
+   * @param {ExecutionContext} context - the execution context of the request
+   * @returns {Promise<boolean>} - true when the request can proceed
+   * @throws {UnauthorizedException} if the token is missing or invalid
+   * @throws {ForbiddenException} if the user is not in any of the required groups
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean | undefined>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthRequest>();
+    const token = this.getBearerToken(request);
+    if (!token) {
+      throw new UnauthorizedException('missing bearer token');
+    }
+
+    let result: VerifyTokenResult;
+    try {
+      result = await this.cognitoService.verifyJwt(token, this.tokenUse);
+    } catch {
+      // throwing services report invalid tokens with errors
+      result = { success: false };
+    }
+    if (!result.success || !result.username || !result.claims) {
+      throw new UnauthorizedException('invalid token');
+    }
+
+    const user: CognitoAuthUser = {
+      username: result.username,
+      groups: result.groups || [],
+      claims: result.claims,
+    };
+    request.user = user;
+
+    // handler metadata overrides the controller metadata
+    const groups = this.reflector.getAllAndOverride<string[] | undefined>(GROUPS_KEY, targets);
+    if (groups?.length && !groups.some((group) => user.groups.includes(group))) {
+      throw new ForbiddenException('insufficient group membership');
+    }
+
+    return true;
+  }
+
+  private getBearerToken(request: AuthRequest): string | undefined {
+    const header = request.headers.authorization;
+    const [scheme, token] = (Array.isArray(header) ? header[0] : header)?.split(' ') || [];
+    return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+  }
+}
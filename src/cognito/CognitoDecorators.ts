@@ -0,0 +1,39 @@
+import {
+  createParamDecorator,
+  CustomDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+
+import { CognitoAuthUser } from './types';
+
+// metadata key of the routes skipping authentication
+export const IS_PUBLIC_KEY = 'cognito:isPublic';
+
+// metadata key of the groups allowed on a route
+export const GROUPS_KEY = 'cognito:groups';
+
+/**
+ * mark a route or controller as public, the cognito auth guard lets every request through
+ * @returns {CustomDecorator<string>} - the decorator
+ */
+export const Public = (): CustomDecorator<string> => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * restrict a route or controller to the members of at least one of the groups
+ * @param {string[]} groups - the allowed cognito groups
+ * @returns {CustomDecorator<string>} - the decorator
+ */
+export const Groups = (...groups: string[]): CustomDecorator<string> =>
+  SetMetadata(GROUPS_KEY, groups);
+
+/**
+ * inject the user authenticated by the cognito auth guard, or one of its properties
+ * @example `@CurrentUser() user: CognitoAuthUser` or `@CurrentUser('username') username: string`
+ */
+export const CurrentUser = createParamDecorator(
+  (property: keyof CognitoAuthUser | undefined, context: ExecutionContext) => {
+    const user = context.switchToHttp().getRequest<{ user?: CognitoAuthUser }>().user;
+    return property ? user?.[property] : user;
+  },
+);
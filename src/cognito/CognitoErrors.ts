@@ -0,0 +1,105 @@
+/**
+ * base class of the errors thrown by the cognito service
+ * @class CognitoError
+ * @description carries the name of the aws sdk exception that caused it (or "UnknownError")
+ */
+export class CognitoError extends Error {
+  /**
+   * @param {string} message - the error message
+   * @param {string} code - the aws sdk exception name
+   * @param {unknown} [originalError] - the error thrown by the aws sdk
+   */
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly originalError?: unknown,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// the user does not exist
+export class UserNotFoundError extends CognitoError {}
+
+// the username, email or phone number is already taken
+export class UserAlreadyExistsError extends CognitoError {}
+
+// the password does not satisfy the user pool policy or history
+export class InvalidPasswordError extends CognitoError {}
+
+// wrong credentials, disabled user, invalid token or operation not allowed
+export class NotAuthorizedError extends CognitoError {}
+
+// the user has not confirmed the sign-up yet
+export class UserNotConfirmedError extends CognitoError {}
+
+// the user must reset the password before signing in
+export class PasswordResetRequiredError extends CognitoError {}
+
+// the verification or mfa code is wrong
+export class CodeMismatchError extends CognitoError {}
+
+// the verification code has expired
+export class ExpiredCodeError extends CognitoError {}
+
+// request limits, throttling or too many failed attempts
+export class LimitExceededError extends CognitoError {}
+
+// a request parameter was rejected
+export class InvalidParameterError extends CognitoError {}
+
+// a resource other than a user (group, client, provider...) does not exist
+export class ResourceNotFoundError extends CognitoError {}
+
+type CognitoErrorClass = new (
+  message: string,
+  code: string,
+  originalError?: unknown,
+) => CognitoError;
+
+// aws sdk exception names mapped to error classes
+const ERROR_CLASSES: Record<string, CognitoErrorClass> = {
+  UserNotFoundException: UserNotFoundError,
+  UsernameExistsException: UserAlreadyExistsError,
+  AliasExistsException: UserAlreadyExistsError,
+  InvalidPasswordException: InvalidPasswordError,
+  PasswordHistoryPolicyViolationException: InvalidPasswordError,
+  NotAuthorizedException: NotAuthorizedError,
+  UserNotConfirmedException: UserNotConfirmedError,
+  PasswordResetRequiredException: PasswordResetRequiredError,
+  CodeMismatchException: CodeMismatchError,
+  ExpiredCodeException: ExpiredCodeError,
+  LimitExceededException: LimitExceededError,
+  TooManyRequestsException: LimitExceededError,
+  TooManyFailedAttemptsException: LimitExceededError,
+  ThrottlingException: LimitExceededError,
+  InvalidParameterException: InvalidParameterError,
+  ResourceNotFoundException: ResourceNotFoundError,
+};
+
+/**
+ * get the aws sdk exception name of an error, if it is a cognito exception
+ * @param {unknown} error - the caught error
+ * @returns {string|undefined} - the exception name or undefined for other errors
+ */
+export function getCognitoErrorCode(error: unknown): string | undefined {
+  if (error instanceof CognitoError) return error.code;
+  if (error instanceof Error && error.name.endsWith('Exception')) return error.name;
+  return undefined;
+}
+
+/**
+ * map an error thrown by the aws sdk to the matching cognito error class
+ * @param {unknown} error - the caught error
+ * @returns {CognitoError} - the mapped error (cognito errors are returned unchanged)
+ */
+export function toCognitoError(error: unknown): CognitoError {
+  if (error instanceof CognitoError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const code = getCognitoErrorCode(error) || 'UnknownError';
+  const ErrorClass = ERROR_CLASSES[code] || CognitoError;
+
+  return new ErrorClass(message, code, error);
+}
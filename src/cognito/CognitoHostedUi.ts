@@ -0,0 +1,171 @@
+import { Logger } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+
+import {
+  AuthorizeUrlParams,
+  AuthResult,
+  CognitoHostedUiConfig,
+  ExchangeCodeParams,
+  PkcePair,
+} from './types';
+
+// token endpoint response (https://docs.aws.amazon.com/cognito/latest/developerguide/token-endpoint.html)
+interface TokenResponse {
+  access_token?: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  token_type?: string;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * generate a pkce code verifier and its s256 challenge
+ * @returns {PkcePair} - the verifier to keep and the challenge to send
+ */
+export function generatePkce(): PkcePair {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * helpers for the oauth2 authorization code flow of the cognito hosted ui
+ * @class CognitoHostedUi
+ * @description builds authorize urls (with pkce) and calls the `/oauth2/token` endpoint with
+ * the global `fetch` (node 18 or later)
+ */
+export class CognitoHostedUi {
+  private readonly baseUrl: string;
+  private readonly clientId: string;
+  private readonly clientSecret: string | undefined;
+  private readonly redirectUri: string;
+  private readonly scopes: string[];
+  private readonly logger: Logger;
+
+  /**
+   * initialize the hosted ui helpers
+   * @param {Object} config - configuration settings for the hosted ui
+   * @param {string} config.domain - the hosted ui domain
+   * @param {string} config.clientId - the client id for the cognito app client
+   * @param {string} [config.clientSecret] - the app client secret (if the app client has one)
+   * @param {string} config.redirectUri - the default callback url
+   * @param {string[]} [config.scopes] - the default scopes (openid, email and profile if omitted)
+   * @param {Logger} [config.logger] - optional nestjs logger instance
+   */
+  constructor(config: CognitoHostedUiConfig) {
+    const domain = config.domain.replace(/\/+$/, '');
+    this.baseUrl = /^https?:\/\//.test(domain) ? domain : `https://${domain}`;
+    this.clientId = config.clientId;
+    this.clientSecret = config.clientSecret;
+    this.redirectUri = config.redirectUri;
+    this.scopes = config.scopes || ['openid', 'email', 'profile'];
+    this.logger = config.logger || new Logger(CognitoHostedUi.name);
+  }
+
+  /**
+   * build the url redirecting the user to the hosted ui (or directly to an identity provider)
+   * @param {Object} [params] - parameters for the url
+   * @param {string} [params.state] - opaque value returned to the callback
+   * @param {string} [params.codeChallenge] - pkce challenge, see `generatePkce`
+   * @param {string} [params.identityProvider] - identity provider to redirect to directly
+   * @param {string[]} [params.scopes] - scopes overriding the configured ones
+   * @param {string} [params.redirectUri] - callback url overriding the configured one
+   * @param {string} [params.nonce] - nonce copied in the id token
+   * @returns {string} - the authorize url
+   */
+  getAuthorizeUrl(params: AuthorizeUrlParams = {}): string {
+    const query = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.clientId,
+      redirect_uri: params.redirectUri || this.redirectUri,
+      scope: (params.scopes || this.scopes).join(' '),
+    });
+
+    if (params.state) query.set('state', params.state);
+    if (params.identityProvider) query.set('identity_provider', params.identityProvider);
+    if (params.nonce) query.set('nonce', params.nonce);
+    if (params.codeChallenge) {
+      query.set('code_challenge', params.codeChallenge);
+      query.set('code_challenge_method', 'S256');
+    }
+
+    return `${this.baseUrl}/oauth2/authorize?${query}`;
+  }
+
+  /**
+   * exchange the authorization code received by the callback for tokens
+   * @param {Object} params - parameters for the exchange
+   * @param {string} params.code - the authorization code
+   * @param {string} [params.codeVerifier] - the pkce code verifier (if a challenge was sent)
+   * @param {string} [params.redirectUri] - the callback url of the authorize url, if not the configured one
+   * @returns {Promise<AuthResult>} - authentication result with tokens or error information
+   */
+  async exchangeCode(params: ExchangeCodeParams): Promise<AuthResult> {
+    return this.requestTokens('error exchanging authorization code', {
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri || this.redirectUri,
+      ...(params.codeVerifier && { code_verifier: params.codeVerifier }),
+    });
+  }
+
+  /**
+   * refresh the tokens of a hosted ui session
+   * @param {string} refreshToken - the refresh token
+   * @returns {Promise<AuthResult>} - authentication result with new tokens (and the same refresh token) or error information
+   */
+  async refreshToken(refreshToken: string): Promise<AuthResult> {
+    const result = await this.requestTokens('error refreshing token', {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+
+    // the token endpoint does not return a new refresh token unless rotation is enabled
+    return result.success && !result.refreshToken ? { ...result, refreshToken } : result;
+  }
+
+  private async requestTokens(
+    errorMessage: string,
+    body: Record<string, string>,
+  ): Promise<AuthResult> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    const form = new URLSearchParams({ client_id: this.clientId, ...body });
+
+    // confidential clients authenticate with http basic auth
+    if (this.clientSecret) {
+      const credentials = `${encodeURIComponent(this.clientId)}:${encodeURIComponent(this.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/oauth2/token`, {
+        method: 'POST',
+        headers,
+        body: form.toString(),
+      });
+      const data = (await response.json()) as TokenResponse;
+
+      if (!response.ok || data.error) {
+        const error = data.error_description || data.error || `status ${response.status}`;
+        this.logger.error(`${errorMessage}: ${error}`);
+        return { success: false, error, ...(data.error && { errorCode: data.error }) };
+      }
+
+      return {
+        success: true,
+        ...(data.access_token && { accessToken: data.access_token }),
+        ...(data.id_token && { idToken: data.id_token }),
+        ...(data.refresh_token && { refreshToken: data.refresh_token }),
+        ...(data.expires_in && { expiresIn: data.expires_in }),
+        ...(data.token_type && { tokenType: data.token_type }),
+      };
+    } catch (error) {
+      this.logger.error(`${errorMessage}: ${error}`);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { createPublicKey, JsonWebKey, KeyObject, verify } from 'crypto';
+
+import { NotAuthorizedError } from './CognitoErrors';
+import { RemoteJwksSource } from './JwksSource';
+import {
+  CognitoJwtClaims,
+  CognitoJwtVerifierConfig,
+  CognitoTokenUse,
+  Jwk,
+  JwksSource,
+} from './types';
+
+/**
+ * decoded, unverified jwt
+ */
+export interface DecodedJwt {
+  /** token header */
+  header: { alg?: string; kid?: string; typ?: string };
+  /** token payload */
+  payload: CognitoJwtClaims;
+  /** signing input (`<header>.<payload>`) */
+  signingInput: string;
+  /** raw signature bytes */
+  signature: Buffer;
+}
+
+// invalid tokens are reported the way cognito reports them
+const invalidToken = (message: string): NotAuthorizedError =>
+  new NotAuthorizedError(message, 'NotAuthorizedException');
+
+// decode a base64url token part holding a json object
+const decodeJsonObject = (part: string): Record<string, unknown> => {
+  const value: unknown = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw invalidToken('malformed token');
+  }
+  return value as Record<string, unknown>;
+};
+
+/**
+ * decode a jwt without verifying it
+ * @param {string} token - the jwt to decode
+ * @returns {DecodedJwt} - the decoded token
+ * @throws {NotAuthorizedError} if the token is malformed or its header or payload is not an object
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw invalidToken('malformed token');
+  }
+
+  const [header, payload, signature] = parts as [string, string, string];
+
+  try {
+    return {
+      header: decodeJsonObject(header),
+      payload: decodeJsonObject(payload) as CognitoJwtClaims,
+      signingInput: `${header}.${payload}`,
+      signature: Buffer.from(signature, 'base64url'),
+    };
+  } catch {
+    throw invalidToken('malformed token');
+  }
+}
+
+/**
+ * verifier for cognito jwts that works offline against the user pool jwks
+ * @class CognitoJwtVerifier
+ * @description validates the rs256 signature, issuer, audience/client id, token use and expiration
+ */
+export class CognitoJwtVerifier {
+  private readonly issuer: string;
+  private readonly clientIds: string[];
+  private readonly jwksSource: JwksSource;
+  private readonly clockToleranceSeconds: number;
+  // keys of the jwks objects, dropped with them when the source downloads a new key set
+  private readonly publicKeys = new WeakMap<Jwk, KeyObject>();
+
+  /**
+   * initialize the verifier
+   * @param {Object} config - configuration settings for the verifier
+   * @param {string} config.region - the aws region where the user pool is located
+   * @param {string} config.userPoolId - the id of the cognito user pool
+   * @param {string|string[]} config.clientId - the accepted app client id(s)
+   * @param {JwksSource} [config.jwksSource] - optional key source (defaults to the user pool jwks url)
+   * @param {number} [config.clockToleranceSeconds] - optional tolerance for the expiration check
+   */
+  constructor(config: CognitoJwtVerifierConfig) {
+    this.issuer = `https://cognito-idp.${config.region}.amazonaws.com/${config.userPoolId}`;
+    this.clientIds = Array.isArray(config.clientId) ? config.clientId : [config.clientId];
+    this.jwksSource =
+      config.jwksSource || new RemoteJwksSource(`${this.issuer}/.well-known/jwks.json`);
+    this.clockToleranceSeconds = config.clockToleranceSeconds || 0;
+  }
+
+  /**
+   * the issuer expected in verified tokens
+   */
+  get expectedIssuer(): string {
+    return this.issuer;
+  }
+
+  /**
+   * verify a cognito jwt
+   * @param {string} token - the jwt to verify
+   * @param {CognitoTokenUse} [tokenUse] - required token use ("access" or "id"), any if omitted
+   * @returns {Promise<CognitoJwtClaims>} - the verified claims
+   * @throws {NotAuthorizedError} if the token is invalid
+   */
+  async verify(token: string, tokenUse?: CognitoTokenUse): Promise<CognitoJwtClaims> {
+    const decoded = decodeJwt(token);
+    const { header, payload } = decoded;
+
+    if (header.alg !== 'RS256') {
+      throw invalidToken(`unsupported token algorithm: ${header.alg}`);
+    }
+    if (!header.kid) {
+      throw invalidToken('token has no key id');
+    }
+
+    const key = await this.getPublicKey(header.kid);
+    const validSignature = verify(
+      'RSA-SHA256',
+      Buffer.from(decoded.signingInput),
+      key,
+      decoded.signature,
+    );
+    if (!validSignature) {
+      throw invalidToken('invalid token signature');
+    }
+
+    this.validateClaims(payload, tokenUse);
+
+    return payload;
+  }
+
+  private validateClaims(claims: CognitoJwtClaims, tokenUse?: CognitoTokenUse): void {
+    if (claims.iss !== this.issuer) {
+      throw invalidToken(`invalid token issuer: ${claims.iss}`);
+    }
+
+    if (claims.token_use !== 'access' && claims.token_use !== 'id') {
+      throw invalidToken(`invalid token use: ${claims.token_use}`);
+    }
+    if (tokenUse && claims.token_use !== tokenUse) {
+      throw invalidToken(`expected ${tokenUse} token but got ${claims.token_use} token`);
+    }
+
+    // id tokens carry the client id in "aud", access tokens in "client_id"
+    const clientId = claims.token_use === 'id' ? claims.aud : claims.client_id;
+    if (!clientId || !this.clientIds.includes(clientId)) {
+      throw invalidToken(`invalid token client id: ${clientId}`);
+    }
+
+    if (typeof claims.exp !== 'number') {
+      throw invalidToken('token has no expiration time');
+    }
+    if (claims.exp + this.clockToleranceSeconds < Math.floor(Date.now() / 1000)) {
+      throw invalidToken('token expired');
+    }
+  }
+
+  private async getPublicKey(kid: string): Promise<KeyObject> {
+    let jwk = (await this.jwksSource.getKeys()).find((key) => key.kid === kid);
+
+    // unknown kid: the pool keys may have been rotated since the last download
+    if (!jwk) {
+      jwk = (await this.jwksSource.getKeys(true)).find((key) => key.kid === kid);
+    }
+    if (!jwk) {
+      throw invalidToken(`no jwk found for key id ${kid}`);
+    }
+
+    const cached = this.publicKeys.get(jwk);
+    if (cached) return cached;
+    if (jwk.kty !== 'RSA') {
+      throw invalidToken(`unsupported jwk key type: ${jwk.kty}`);
+    }
+
+    const publicJwk: JsonWebKey = { kty: jwk.kty, n: jwk.n, e: jwk.e };
+    const key = createPublicKey({ key: publicJwk, format: 'jwk' });
+    this.publicKeys.set(jwk, key);
+
+    return key;
+  }
+}
@@ -0,0 +1,65 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+
+import { COGNITO_AUTH_GUARD_OPTIONS, CognitoAuthGuard } from './CognitoAuthGuard';
+import { CognitoService } from './CognitoService';
+import { CognitoModuleAsyncOptions, CognitoModuleOptions, CognitoServiceConfig } from './types';
+
+/**
+ * nestjs module providing the cognito service and auth guard
+ * @class CognitoModule
+ */
+@Module({})
+export class CognitoModule {
+  /**
+   * register the module with a static configuration
+   * @param {CognitoServiceConfig} config - configuration of the cognito service
+   * @param {CognitoModuleOptions} [options] - module options
+   * @returns {DynamicModule} - the module
+   */
+  static forRoot(config: CognitoServiceConfig, options: CognitoModuleOptions = {}): DynamicModule {
+    return {
+      module: CognitoModule,
+      global: options.isGlobal || false,
+      providers: [
+        { provide: CognitoService, useValue: new CognitoService(config) },
+        CognitoModule.guardOptionsProvider(options),
+        CognitoAuthGuard,
+      ],
+      exports: [CognitoService, COGNITO_AUTH_GUARD_OPTIONS, CognitoAuthGuard],
+    };
+  }
+
+  /**
+   * register the module with a configuration resolved from other providers
+   * @param {CognitoModuleAsyncOptions} options - configuration factory, its dependencies and module options
+   * @returns {DynamicModule} - the module
+   */
+  static forRootAsync(options: CognitoModuleAsyncOptions): DynamicModule {
+    return {
+      module: CognitoModule,
+      global: options.isGlobal || false,
+      imports: options.imports || [],
+      providers: [
+        {
+          provide: CognitoService,
+          useFactory: async (...args: never[]) =>
+            new CognitoService(await options.useFactory(...args)),
+          inject: options.inject || [],
+        },
+        CognitoModule.guardOptionsProvider(options),
+        CognitoAuthGuard,
+      ],
+      exports: [CognitoService, COGNITO_AUTH_GUARD_OPTIONS, CognitoAuthGuard],
+    };
+  }
+
+  /**
+   * provide the options of the auth guard
+   */
+  private static guardOptionsProvider(options: CognitoModuleOptions): Provider {
+    return {
+      provide: COGNITO_AUTH_GUARD_OPTIONS,
+      useValue: { ...(options.tokenUse && { tokenUse: options.tokenUse }) },
+    };
+  }
+}
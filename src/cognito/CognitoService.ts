@@ -4,7 +4,15 @@ import {
   AdminCreateUserCommand,
   AdminDeleteUserCommand,
   AdminUpdateUserAttributesCommand,
+  AdminDeleteUserAttributesCommand,
+  GetUserAttributeVerificationCodeCommand,
+  VerifyUserAttributeCommand,
   AdminEnableUserCommand,
+  AdminDisableUserCommand,
+  AdminConfirmSignUpCommand,
+  AdminUserGlobalSignOutCommand,
+  GlobalSignOutCommand,
+  RevokeTokenCommand,
   AdminInitiateAuthCommand,
   AdminRespondToAuthChallengeCommand,
   InitiateAuthCommand,
@@ -12,32 +20,158 @@ import {
   AttributeType,
   GetUserCommand,
   AuthenticationResultType,
+  AdminInitiateAuthCommandOutput,
+  AssociateSoftwareTokenCommand,
+  VerifySoftwareTokenCommand,
+  AdminSetUserMFAPreferenceCommand,
+  SignUpCommand,
+  ConfirmSignUpCommand,
+  ResendConfirmationCodeCommand,
+  ForgotPasswordCommand,
+  ConfirmForgotPasswordCommand,
+  ChangePasswordCommand,
+  CodeDeliveryDetailsType,
+  ListUsersCommand,
+  UserType,
+  CreateGroupCommand,
+  GetGroupCommand,
+  UpdateGroupCommand,
+  DeleteGroupCommand,
+  ListGroupsCommand,
+  AdminAddUserToGroupCommand,
+  AdminRemoveUserFromGroupCommand,
+  AdminListGroupsForUserCommand,
+  ListUsersInGroupCommand,
+  CreateIdentityProviderCommand,
+  AdminLinkProviderForUserCommand,
+  AdminDisableProviderForUserCommand,
+  ConfirmDeviceCommand,
+  ListDevicesCommand,
+  AdminForgetDeviceCommand,
+  UpdateDeviceStatusCommand,
+  DeviceType,
+  DescribeUserPoolCommand,
+  AdminListUserAuthEventsCommand,
+  AdminUpdateAuthEventFeedbackCommand,
+  AuthEventType,
+  GroupType,
 } from '@aws-sdk/client-cognito-identity-provider';
 import { Logger } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { once } from 'events';
+import { Writable } from 'stream';
 
+import { CognitoJwtVerifier, decodeJwt } from './CognitoJwtVerifier';
+import {
+  getCognitoErrorCode,
+  InvalidPasswordError,
+  LimitExceededError,
+  toCognitoError,
+} from './CognitoErrors';
+import {
+  computeDevicePasswordClaim,
+  formatSrpTimestamp,
+  generateDeviceSrpKeys,
+  generateDeviceVerifier,
+} from './DeviceVerifier';
+import { PasswordPolicy } from './PasswordPolicy';
+import { toCsvLine } from './UserRecords';
 import {
   CognitoServiceConfig,
   CreateUserParams,
   UpdateEmailParams,
+  UpdateUserAttributesParams,
+  DeleteUserAttributesParams,
+  AttributeVerificationCodeParams,
+  VerifyUserAttributeParams,
   UpdatePhoneNumberParams,
   SetPasswordParams,
   LoginParams,
   RefreshTokenParams,
   AuthResult,
   VerifyTokenResult,
+  CognitoTokenUse,
+  AuthChallengeName,
+  RespondToChallengeParams,
+  AssociateSoftwareTokenParams,
+  AssociateSoftwareTokenResult,
+  VerifySoftwareTokenParams,
+  VerifySoftwareTokenResult,
+  SetMfaPreferenceParams,
+  UserMfaSettings,
+  MfaMethod,
+  SignUpParams,
+  SignUpResult,
+  CodeDeliveryResult,
+  CodeDeliveryDetails,
+  ConfirmSignUpParams,
+  ConfirmForgotPasswordParams,
+  ChangePasswordParams,
+  CognitoUser,
+  ListUsersParams,
+  ListUsersResult,
+  CognitoGroup,
+  GroupParams,
+  StartCustomAuthParams,
+  CreateIdentityProviderParams,
+  LinkProviderForUserParams,
+  ProviderUserParams,
+  AnswerCustomChallengeParams,
+  ImportUsersOptions,
+  ImportUsersReport,
+  ImportUserResult,
+  ExportUsersOptions,
+  ConfirmDeviceParams,
+  ConfirmDeviceResult,
+  CognitoDevice,
+  DevicePasswordClaimParams,
+  UpdateDeviceStatusParams,
+  ListAuthEventsParams,
+  ListAuthEventsResult,
+  CognitoAuthEvent,
+  AuthEventFeedbackParams,
+  FailedLoginSummary,
+  FailedLoginSummaryOptions,
 } from './types';
 
+// error messages reported for each supported challenge
+const CHALLENGE_MESSAGES: Record<AuthChallengeName, string> = {
+  NEW_PASSWORD_REQUIRED: 'new password required',
+  SMS_MFA: 'sms mfa code required',
+  SOFTWARE_TOKEN_MFA: 'software token mfa code required',
+  SELECT_MFA_TYPE: 'mfa type selection required',
+  MFA_SETUP: 'mfa setup required',
+  CUSTOM_CHALLENGE: 'custom challenge answer required',
+  DEVICE_SRP_AUTH: 'device key, group key and password required',
+  DEVICE_PASSWORD_VERIFIER: 'device password verification required',
+};
+
+// attributes exported in the email, phoneNumber and isVerified fields of the user records
+const RECORD_ATTRIBUTES = ['email', 'email_verified', 'phone_number', 'phone_number_verified'];
+
+// attributes set by cognito, AdminCreateUser rejects them
+const READ_ONLY_ATTRIBUTES = ['sub', 'identities'];
+
+// whether an attribute is exported in the additionalAttributes of the user records
+const isAdditionalAttribute = (name: string): boolean =>
+  !RECORD_ATTRIBUTES.includes(name) && !READ_ONLY_ATTRIBUTES.includes(name);
+
 /**
  * service class to interact with aws cognito
  * @class CognitoService
  * @description provides methods to manage users in AWS Cognito User Pools
  */
 export class CognitoService {
-  private client: CognitoIdentityProviderClient;
+  private readonly client: CognitoIdentityProviderClient;
   private readonly userPoolId: string;
   private readonly clientId: string;
+  private readonly clientSecret: string | undefined;
   private readonly enableCognitoEmail: boolean;
   private readonly logger: Logger;
+  private readonly jwtVerifier: CognitoJwtVerifier;
+  private readonly mfaIssuer: string | undefined;
+  private readonly throwOnError: boolean;
+  private readonly passwordPolicy: PasswordPolicy | undefined;
 
   /**
    * initialize the cognito service
@@ -45,15 +179,41 @@ export class CognitoService {
    * @param {string} config.region - the aws region where the user pool is located
    * @param {string} config.userPoolId - the id of the cognito user pool
    * @param {string} config.clientId - the client id for the cognito app client
+   * @param {string} [config.clientSecret] - the app client secret (if the app client has one)
    * @param {boolean} config.enableCognitoEmail - whether to allow cognito to send emails to users
    * @param {Logger} [config.logger] - optional nestjs logger instance
+   * @param {JwksSource} [config.jwksSource] - optional key source for local token verification
+   * @param {string} [config.mfaIssuer] - optional issuer shown by authenticator apps for totp mfa
+   * @param {boolean} [config.throwOnError] - throw typed cognito errors instead of returning false/null/error results
+   * @param {Object|Function} [config.credentials] - optional credentials or credential provider
+   * @param {string} [config.endpoint] - optional endpoint of the cognito api (e.g. a local emulator)
+   * @param {number} [config.maxAttempts] - optional maximum number of attempts of each request
+   * @param {CognitoIdentityProviderClient} [config.client] - optional pre-built client
+   * @param {Object} [config.passwordPolicy] - optional password policy checked locally before setting passwords
    */
   constructor(config: CognitoServiceConfig) {
-    this.client = new CognitoIdentityProviderClient({ region: config.region });
+    this.client =
+      config.client ||
+      new CognitoIdentityProviderClient({
+        region: config.region,
+        ...(config.credentials && { credentials: config.credentials }),
+        ...(config.endpoint && { endpoint: config.endpoint }),
+        ...(config.maxAttempts && { maxAttempts: config.maxAttempts }),
+      });
     this.userPoolId = config.userPoolId;
     this.clientId = config.clientId;
+    this.clientSecret = config.clientSecret;
     this.enableCognitoEmail = config.enableCognitoEmail;
     this.logger = config.logger || new Logger(CognitoService.name);
+    this.mfaIssuer = config.mfaIssuer;
+    this.throwOnError = config.throwOnError || false;
+    this.passwordPolicy = config.passwordPolicy && new PasswordPolicy(config.passwordPolicy);
+    this.jwtVerifier = new CognitoJwtVerifier({
+      region: config.region,
+      userPoolId: config.userPoolId,
+      clientId: config.clientId,
+      ...(config.jwksSource && { jwksSource: config.jwksSource }),
+    });
   }
 
   /**
@@ -66,6 +226,7 @@ export class CognitoService {
    */
   async setUserPassword(params: SetPasswordParams): Promise<boolean> {
     try {
+      this.assertPasswordPolicy(params.password);
       const command = new AdminSetUserPasswordCommand({
         UserPoolId: this.userPoolId,
         Username: params.username,
@@ -76,8 +237,40 @@ export class CognitoService {
       await this.client.send(command);
       return true;
     } catch (error) {
-      this.logger.error(`error setting user password: ${error}`);
-      return false;
+      return this.handleError('error setting user password', error, false);
+    }
+  }
+
+  /**
+   * get the password policy of the user pool
+   * @returns {Promise<PasswordPolicy|null>} - the policy or null on error
+   */
+  async getPasswordPolicy(): Promise<PasswordPolicy | null> {
+    try {
+      const command = new DescribeUserPoolCommand({
+        UserPoolId: this.userPoolId,
+      });
+
+      const response = await this.client.send(command);
+
+      return PasswordPolicy.fromCognito(response.UserPool?.Policies?.PasswordPolicy);
+    } catch (error) {
+      return this.handleError('error getting password policy', error, null);
+    }
+  }
+
+  /**
+   * reject a password violating the configured password policy before calling cognito
+   */
+  private assertPasswordPolicy(password: string | undefined): void {
+    if (!this.passwordPolicy || password === undefined) return;
+
+    const { valid, errors } = this.passwordPolicy.validate(password);
+    if (!valid) {
+      throw new InvalidPasswordError(
+        `password does not conform to policy: ${errors.join(', ')}`,
+        'InvalidPasswordException',
+      );
     }
   }
 
@@ -94,53 +287,198 @@ export class CognitoService {
    */
   async addUser(params: CreateUserParams): Promise<boolean> {
     try {
-      // prepare user attributes
-      const userAttributes: AttributeType[] = [
-        {
-          Name: 'email',
-          Value: params.email,
-        },
-        {
-          Name: 'email_verified',
-          Value: params.isVerified ? 'true' : 'false',
-        },
-      ];
+      await this.createUser(params);
+      return true;
+    } catch (error) {
+      return this.handleError('error adding user', error, false);
+    }
+  }
 
-      if (params.phoneNumber) {
-        userAttributes.push({
-          Name: 'phone_number',
-          Value: params.phoneNumber,
-        });
-        userAttributes.push({
-          Name: 'phone_number_verified',
-          Value: params.isVerified ? 'true' : 'false',
-        });
+  /**
+   * create users in bulk, with bounded concurrency and retries of throttled requests
+   * @description failures are reported per record instead of being thrown, records can be parsed
+   * from csv or json files with `parseUserRecords`
+   * @param {CreateUserParams[]} records - the users to create
+   * @param {Object} [options] - options for the import
+   * @param {number} [options.concurrency] - maximum number of users created in parallel (defaults to 5)
+   * @param {number} [options.maxRetries] - maximum number of retries of a throttled creation (defaults to 5)
+   * @param {number} [options.retryDelayMs] - delay before the first retry, doubled on each retry (defaults to 200)
+   * @returns {Promise<ImportUsersReport>} - the outcome of each record
+   */
+  async importUsers(
+    records: CreateUserParams[],
+    options: ImportUsersOptions = {},
+  ): Promise<ImportUsersReport> {
+    const concurrency = Math.max(1, options.concurrency ?? 5);
+    const results: ImportUserResult[] = new Array(records.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < records.length) {
+        const index = next++;
+        results[index] = await this.importUser(records[index] as CreateUserParams, index, options);
       }
+    };
 
-      // add any additional attributes
-      if (params.additionalAttributes) {
-        Object.entries(params.additionalAttributes).forEach(([key, value]) => {
-          userAttributes.push({
-            Name: key,
-            Value: value,
-          });
-        });
+    await Promise.all(Array.from({ length: Math.min(concurrency, records.length) }, worker));
+
+    const succeeded = results.filter((result) => result.success).length;
+    return {
+      total: records.length,
+      succeeded,
+      failed: records.length - succeeded,
+      results,
+    };
+  }
+
+  private async importUser(
+    params: CreateUserParams,
+    index: number,
+    options: ImportUsersOptions,
+  ): Promise<ImportUserResult> {
+    const maxRetries = options.maxRetries ?? 5;
+    const retryDelayMs = options.retryDelayMs ?? 200;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.createUser(params);
+        return { index, username: params.username, success: true, attempts: attempt };
+      } catch (error) {
+        if (toCognitoError(error) instanceof LimitExceededError && attempt <= maxRetries) {
+          await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+          continue;
+        }
+
+        this.logger.error(`error importing user ${params.username}: ${error}`);
+        return {
+          index,
+          username: params.username,
+          attempts: attempt,
+          ...this.toErrorResult(error),
+        };
       }
+    }
+  }
 
-      const command = new AdminCreateUserCommand({
-        UserPoolId: this.userPoolId,
-        Username: params.username,
-        UserAttributes: userAttributes,
-        TemporaryPassword: params.temporaryPassword,
-        MessageAction: this.enableCognitoEmail ? undefined : 'SUPPRESS',
+  /**
+   * stream the users of the user pool to csv or json lines readable by `parseUserRecords`
+   * @description the records have the fields of CreateUserParams, the status, dates and read-only
+   * attributes (sub, identities) of the users are left out
+   * @param {Writable} output - the stream to write to (not ended by the export)
+   * @param {Object} [options] - options for the export
+   * @param {string} [options.format] - "csv" or "jsonl" (defaults to "jsonl")
+   * @param {string} [options.filter] - cognito filter expression selecting the exported users
+   * @param {string[]} [options.attributes] - additional attributes to export (all for jsonl, none for csv)
+   * @returns {Promise<number>} - the number of exported users
+   * @throws {CognitoError} if the users cannot be listed
+   */
+  async exportUsers(output: Writable, options: ExportUsersOptions = {}): Promise<number> {
+    const csvAttributes = (options.attributes || []).filter(isAdditionalAttribute);
+    const write = async (line: string): Promise<void> => {
+      // wait for the stream to drain so large pools are not buffered in memory
+      if (!output.write(`${line}\n`)) {
+        await once(output, 'drain');
+      }
+    };
+
+    if (options.format === 'csv') {
+      await write(toCsvLine(['username', 'email', 'phoneNumber', 'isVerified', ...csvAttributes]));
+    }
+
+    let count = 0;
+    const users = this.iterateUsers({
+      ...(options.filter && { filter: options.filter }),
+      ...(options.attributes && {
+        attributesToGet: [...new Set([...RECORD_ATTRIBUTES, ...options.attributes])],
+      }),
+    });
+
+    for await (const user of users) {
+      const record = this.toUserRecord(user);
+      if (options.format === 'csv') {
+        await write(
+          toCsvLine([
+            record.username,
+            record.email,
+            record.phoneNumber || '',
+            String(record.isVerified),
+            ...csvAttributes.map((name) => record.additionalAttributes?.[name] || ''),
+          ]),
+        );
+      } else {
+        await write(JSON.stringify(record));
+      }
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * convert a user of the user pool to the user record of an import
+   */
+  private toUserRecord(user: CognitoUser): CreateUserParams {
+    const additionalAttributes = Object.fromEntries(
+      Object.entries(user.attributes).filter(([name]) => isAdditionalAttribute(name)),
+    );
+
+    return {
+      username: user.username,
+      email: user.attributes.email || '',
+      isVerified: user.attributes.email_verified === 'true',
+      ...(user.attributes.phone_number && { phoneNumber: user.attributes.phone_number }),
+      ...(Object.keys(additionalAttributes).length && { additionalAttributes }),
+    };
+  }
+
+  /**
+   * send the AdminCreateUser command, errors are thrown
+   */
+  private async createUser(params: CreateUserParams): Promise<void> {
+    this.assertPasswordPolicy(params.temporaryPassword);
+
+    // prepare user attributes
+    const userAttributes: AttributeType[] = [
+      {
+        Name: 'email',
+        Value: params.email,
+      },
+      {
+        Name: 'email_verified',
+        Value: params.isVerified ? 'true' : 'false',
+      },
+    ];
+
+    if (params.phoneNumber) {
+      userAttributes.push({
+        Name: 'phone_number',
+        Value: params.phoneNumber,
+      });
+      userAttributes.push({
+        Name: 'phone_number_verified',
+        Value: params.isVerified ? 'true' : 'false',
       });
+    }
 
-      await this.client.send(command);
-      return true;
-    } catch (error) {
-      this.logger.error(`error adding user: ${error}`);
-      return false;
+    // add any additional attributes
+    if (params.additionalAttributes) {
+      Object.entries(params.additionalAttributes).forEach(([key, value]) => {
+        userAttributes.push({
+          Name: key,
+          Value: value,
+        });
+      });
     }
+
+    const command = new AdminCreateUserCommand({
+      UserPoolId: this.userPoolId,
+      Username: params.username,
+      UserAttributes: userAttributes,
+      TemporaryPassword: params.temporaryPassword,
+      MessageAction: this.enableCognitoEmail ? undefined : 'SUPPRESS',
+    });
+
+    await this.client.send(command);
   }
 
   /**
@@ -158,8 +496,7 @@ export class CognitoService {
       await this.client.send(command);
       return true;
     } catch (error) {
-      this.logger.error(`error removing user: ${error}`);
-      return false;
+      return this.handleError('error removing user', error, false);
     }
   }
 
@@ -168,6 +505,8 @@ export class CognitoService {
    * @param {Object} params - parameters for changing email
    * @param {string} params.username - the username of the user
    * @param {string} params.newEmail - the new email address
+   * @param {boolean} [params.isVerified] - whether the new email is verified (defaults to true), when
+   * false cognito sends a verification code to the new address
    * @returns {Promise<boolean>} - true if successful, false otherwise
    */
   async changeUserEmail(params: UpdateEmailParams): Promise<boolean> {
@@ -182,7 +521,7 @@ export class CognitoService {
           },
           {
             Name: 'email_verified',
-            Value: 'true',
+            Value: params.isVerified === false ? 'false' : 'true',
           },
         ],
       });
@@ -190,8 +529,7 @@ export class CognitoService {
       await this.client.send(command);
       return true;
     } catch (error) {
-      this.logger.error(`error changing user email: ${error}`);
-      return false;
+      return this.handleError('error changing user email', error, false);
     }
   }
 
@@ -200,6 +538,8 @@ export class CognitoService {
    * @param {Object} params - parameters for changing phone number
    * @param {string} params.username - the username of the user
    * @param {string} params.newPhoneNumber - the new phone number
+   * @param {boolean} [params.isVerified] - whether the new phone number is verified (defaults to
+   * true), when false cognito sends a verification code to the new number
    * @returns {Promise<boolean>} - true if successful, false otherwise
    */
   async changePhoneNumber(params: UpdatePhoneNumberParams): Promise<boolean> {
@@ -214,7 +554,7 @@ export class CognitoService {
           },
           {
             Name: 'phone_number_verified',
-            Value: 'true',
+            Value: params.isVerified === false ? 'false' : 'true',
           },
         ],
       });
@@ -222,13 +562,115 @@ export class CognitoService {
       await this.client.send(command);
       return true;
     } catch (error) {
-      this.logger.error(`error changing phone number: ${error}`);
-      return false;
+      return this.handleError('error changing phone number', error, false);
+    }
+  }
+
+  /**
+   * set any standard or custom attributes of a user (admin side)
+   * @param {Object} params - parameters for the update
+   * @param {string} params.username - the username of the user
+   * @param {Object<string, string>} params.attributes - the attributes to set
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async updateUserAttributes(params: UpdateUserAttributesParams): Promise<boolean> {
+    try {
+      const command = new AdminUpdateUserAttributesCommand({
+        UserPoolId: this.userPoolId,
+        Username: params.username,
+        UserAttributes: Object.entries(params.attributes).map(([name, value]) => ({
+          Name: name,
+          Value: value,
+        })),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error updating user attributes', error, false);
+    }
+  }
+
+  /**
+   * delete attributes of a user (admin side)
+   * @param {Object} params - parameters for the deletion
+   * @param {string} params.username - the username of the user
+   * @param {string[]} params.attributeNames - the names of the attributes to delete
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async deleteUserAttributes(params: DeleteUserAttributesParams): Promise<boolean> {
+    try {
+      const command = new AdminDeleteUserAttributesCommand({
+        UserPoolId: this.userPoolId,
+        Username: params.username,
+        UserAttributeNames: params.attributeNames,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error deleting user attributes', error, false);
+    }
+  }
+
+  /**
+   * send a verification code for an attribute of the signed in user
+   * @param {Object} params - parameters for the code request
+   * @param {string} params.accessToken - the access token of the user
+   * @param {string} params.attributeName - the attribute to verify ("email" or "phone_number")
+   * @returns {Promise<Object>} - result with the code delivery details or error information
+   */
+  async getUserAttributeVerificationCode(
+    params: AttributeVerificationCodeParams,
+  ): Promise<CodeDeliveryResult> {
+    try {
+      const command = new GetUserAttributeVerificationCodeCommand({
+        AccessToken: params.accessToken,
+        AttributeName: params.attributeName,
+      });
+
+      const response = await this.client.send(command);
+      return {
+        success: true,
+        ...(response.CodeDeliveryDetails && {
+          codeDelivery: this.toCodeDeliveryDetails(response.CodeDeliveryDetails),
+        }),
+      };
+    } catch (error) {
+      return this.handleError(
+        'error sending attribute verification code',
+        error,
+        this.toErrorResult(error),
+      );
+    }
+  }
+
+  /**
+   * verify an attribute of the signed in user with the code sent to them
+   * @param {Object} params - parameters for the verification
+   * @param {string} params.accessToken - the access token of the user
+   * @param {string} params.attributeName - the attribute to verify ("email" or "phone_number")
+   * @param {string} params.code - the verification code
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async verifyUserAttribute(params: VerifyUserAttributeParams): Promise<boolean> {
+    try {
+      const command = new VerifyUserAttributeCommand({
+        AccessToken: params.accessToken,
+        AttributeName: params.attributeName,
+        Code: params.code,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error verifying user attribute', error, false);
     }
   }
 
   /**
    * verify a user (admin side)
+   * @deprecated this enables the user, use `enableUser` (or `confirmUser` to confirm a sign up)
    * @param {string} username - the username of the user to verify
    * @returns {Promise<boolean>} - true if successful, false otherwise
    */
@@ -242,8 +684,123 @@ export class CognitoService {
       await this.client.send(command);
       return true;
     } catch (error) {
-      this.logger.error(`error verifying user: ${error}`);
-      return false;
+      return this.handleError('error verifying user', error, false);
+    }
+  }
+
+  /**
+   * enable a disabled user (admin side)
+   * @param {string} username - the username of the user to enable
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async enableUser(username: string): Promise<boolean> {
+    try {
+      const command = new AdminEnableUserCommand({
+        UserPoolId: this.userPoolId,
+        Username: username,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error enabling user', error, false);
+    }
+  }
+
+  /**
+   * disable a user (admin side), the user can no longer sign in
+   * @param {string} username - the username of the user to disable
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async disableUser(username: string): Promise<boolean> {
+    try {
+      const command = new AdminDisableUserCommand({
+        UserPoolId: this.userPoolId,
+        Username: username,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error disabling user', error, false);
+    }
+  }
+
+  /**
+   * confirm the sign up of a user without a confirmation code (admin side)
+   * @param {string} username - the username of the user to confirm
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async confirmUser(username: string): Promise<boolean> {
+    try {
+      const command = new AdminConfirmSignUpCommand({
+        UserPoolId: this.userPoolId,
+        Username: username,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error confirming user', error, false);
+    }
+  }
+
+  /**
+   * sign a user out of all devices (admin side)
+   * @description revokes every refresh token of the user, issued access tokens stay valid until they
+   * expire when verified locally
+   * @param {string} username - the username of the user to sign out
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async adminUserGlobalSignOut(username: string): Promise<boolean> {
+    try {
+      const command = new AdminUserGlobalSignOutCommand({
+        UserPoolId: this.userPoolId,
+        Username: username,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error signing out user', error, false);
+    }
+  }
+
+  /**
+   * sign the current user out of all devices
+   * @param {string} accessToken - the access token of the user
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async globalSignOut(accessToken: string): Promise<boolean> {
+    try {
+      const command = new GlobalSignOutCommand({
+        AccessToken: accessToken,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error signing out user', error, false);
+    }
+  }
+
+  /**
+   * revoke a refresh token and the access tokens issued with it
+   * @param {string} refreshToken - the refresh token to revoke
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async revokeRefreshToken(refreshToken: string): Promise<boolean> {
+    try {
+      const command = new RevokeTokenCommand({
+        Token: refreshToken,
+        ClientId: this.clientId,
+        ...(this.clientSecret && { ClientSecret: this.clientSecret }),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error revoking refresh token', error, false);
     }
   }
 
@@ -251,6 +808,8 @@ export class CognitoService {
    * refresh a user's tokens
    * @param {Object} params - parameters for refreshing token
    * @param {string} params.refreshToken - the refresh token
+   * @param {string} [params.idToken] - the id token, used to resolve the username for the secret hash
+   * @param {string} [params.username] - the username, used for the secret hash
    * @returns {Promise<Object>} - authentication result with tokens or error information
    * @returns {boolean} result.success - whether the operation was successful
    * @returns {string} [result.accessToken] - new access token (if successful)
@@ -262,28 +821,54 @@ export class CognitoService {
    */
   async refreshToken(params: RefreshTokenParams): Promise<AuthResult> {
     try {
+      const authParameters: Record<string, string> = {
+        REFRESH_TOKEN: params.refreshToken,
+      };
+
+      if (this.clientSecret) {
+        const username = this.resolveRefreshUsername(params);
+        if (!username) {
+          return {
+            success: false,
+            error: 'username or id token required to refresh tokens with a client secret',
+          };
+        }
+        Object.assign(authParameters, this.getSecretHash('SECRET_HASH', username));
+      }
+
       const command = new InitiateAuthCommand({
         ClientId: this.clientId,
         AuthFlow: 'REFRESH_TOKEN_AUTH',
-        AuthParameters: {
-          REFRESH_TOKEN: params.refreshToken,
-        },
+        AuthParameters: authParameters,
       });
 
       const response = await this.client.send(command);
 
-      return this.validateAndGetAuthenticationResult(response.AuthenticationResult);
+      // cognito does not rotate the refresh token unless rotation is enabled on the client
+      return this.validateAndGetAuthenticationResult(
+        response.AuthenticationResult,
+        params.refreshToken,
+      );
     } catch (error) {
-      this.logger.error(`error refreshing token: ${error}`);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
+      return this.handleError('error refreshing token', error, this.toErrorResult(error));
     }
   }
 
+  /**
+   * resolve the username the refresh secret hash must be computed with:
+   * the explicit username, else the id token "cognito:username" (or "sub")
+   */
+  private resolveRefreshUsername(params: RefreshTokenParams): string | undefined {
+    if (params.username) return params.username;
+    if (!params.idToken) return undefined;
+
+    const { payload } = decodeJwt(params.idToken);
+    return payload['cognito:username'] || payload.sub;
+  }
+
   private validateAndGetAuthenticationResult(
     data: AuthenticationResultType | undefined,
+    fallbackRefreshToken?: string,
   ): AuthResult {
     const resultError = { success: false, error: 'no authentication result returned' };
     if (!data) return resultError;
@@ -296,7 +881,8 @@ export class CognitoService {
       resultError.error = 'no id token returned';
       return resultError;
     }
-    if (!data.RefreshToken) {
+    const refreshToken = data.RefreshToken || fallbackRefreshToken;
+    if (!refreshToken) {
       resultError.error = 'no refresh token returned';
       return resultError;
     }
@@ -313,9 +899,16 @@ export class CognitoService {
       success: true,
       accessToken: data.AccessToken,
       idToken: data.IdToken,
-      refreshToken: data.RefreshToken,
+      refreshToken,
       expiresIn: data.ExpiresIn,
       tokenType: data.TokenType,
+      ...(data.NewDeviceMetadata?.DeviceKey &&
+        data.NewDeviceMetadata.DeviceGroupKey && {
+          newDeviceMetadata: {
+            deviceKey: data.NewDeviceMetadata.DeviceKey,
+            deviceGroupKey: data.NewDeviceMetadata.DeviceGroupKey,
+          },
+        }),
     };
   }
 
@@ -324,6 +917,9 @@ export class CognitoService {
    * @param {Object} params - parameters for login
    * @param {string} params.username - the username
    * @param {string} params.password - the password
+   * @param {string} [params.deviceKey] - the key of a remembered device
+   * @param {string} [params.deviceGroupKey] - the group key of the remembered device
+   * @param {string} [params.devicePassword] - the password of the remembered device, from `confirmDevice`
    * @returns {Promise<Object>} - authentication result with tokens or error information
    * @returns {boolean} result.success - whether the operation was successful
    * @returns {string} [result.accessToken] - access token (if successful)
@@ -333,6 +929,7 @@ export class CognitoService {
    * @returns {string} [result.tokenType] - token type (if successful)
    * @returns {string} [result.challengeName] - name of the auth challenge (if applicable)
    * @returns {Object} [result.challengeParameters] - parameters for the auth challenge (if applicable)
+   * @returns {string} [result.session] - session to pass back with the challenge response (if applicable)
    * @returns {string} [result.error] - error message (if unsuccessful)
    */
   async login(params: LoginParams): Promise<AuthResult> {
@@ -344,35 +941,152 @@ export class CognitoService {
         AuthParameters: {
           USERNAME: params.username,
           PASSWORD: params.password,
+          ...(params.deviceKey && { DEVICE_KEY: params.deviceKey }),
+          ...this.getSecretHash('SECRET_HASH', params.username),
         },
       });
 
       const response = await this.client.send(command);
 
-      // handle new password required challenge
-      if (response.ChallengeName === 'NEW_PASSWORD_REQUIRED') {
-        return {
-          success: false,
-          challengeName: response.ChallengeName,
-          challengeParameters: response.ChallengeParameters || {},
-          error: 'new password required',
-        };
+      // a remembered device skips mfa by proving it knows its password
+      if (
+        response.ChallengeName === 'DEVICE_SRP_AUTH' &&
+        params.deviceKey &&
+        params.deviceGroupKey &&
+        params.devicePassword
+      ) {
+        return await this.authenticateDevice(
+          {
+            deviceKey: params.deviceKey,
+            deviceGroupKey: params.deviceGroupKey,
+            devicePassword: params.devicePassword,
+          },
+          response.ChallengeParameters?.USER_ID_FOR_SRP ||
+            response.ChallengeParameters?.USERNAME ||
+            params.username,
+          response.Session,
+        );
       }
 
-      return this.validateAndGetAuthenticationResult(response.AuthenticationResult);
+      return this.getAuthResult(response);
     } catch (error) {
-      this.logger.error(`error logging in: ${error}`);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
+      return this.handleError('error logging in', error, this.toErrorResult(error));
     }
   }
 
   /**
-   * handle new password required challenge
-   * @param {string} username - the username of the user
-   * @param {string} newPassword - the new password
+   * answer the device srp auth and device password verifier challenges of a remembered device
+   */
+  private async authenticateDevice(
+    device: Pick<DevicePasswordClaimParams, 'deviceKey' | 'deviceGroupKey' | 'devicePassword'>,
+    username: string,
+    session: string | undefined,
+  ): Promise<AuthResult> {
+    const srpKeys = generateDeviceSrpKeys();
+    const srpResponse = await this.client.send(
+      new AdminRespondToAuthChallengeCommand({
+        UserPoolId: this.userPoolId,
+        ClientId: this.clientId,
+        ChallengeName: 'DEVICE_SRP_AUTH',
+        ChallengeResponses: {
+          USERNAME: username,
+          DEVICE_KEY: device.deviceKey,
+          SRP_A: srpKeys.srpA,
+          ...this.getSecretHash('SECRET_HASH', username),
+        },
+        ...(session && { Session: session }),
+      }),
+    );
+
+    const challengeParameters = srpResponse.ChallengeParameters || {};
+    if (
+      srpResponse.ChallengeName !== 'DEVICE_PASSWORD_VERIFIER' ||
+      !challengeParameters.SRP_B ||
+      !challengeParameters.SALT ||
+      !challengeParameters.SECRET_BLOCK
+    ) {
+      return this.getAuthResult(srpResponse);
+    }
+
+    const verifierUsername = challengeParameters.USERNAME || username;
+    const timestamp = formatSrpTimestamp();
+    const signature = computeDevicePasswordClaim({
+      ...device,
+      srpKeys,
+      srpB: challengeParameters.SRP_B,
+      salt: challengeParameters.SALT,
+      secretBlock: challengeParameters.SECRET_BLOCK,
+      timestamp,
+    });
+
+    const response = await this.client.send(
+      new AdminRespondToAuthChallengeCommand({
+        UserPoolId: this.userPoolId,
+        ClientId: this.clientId,
+        ChallengeName: 'DEVICE_PASSWORD_VERIFIER',
+        ChallengeResponses: {
+          USERNAME: verifierUsername,
+          DEVICE_KEY: device.deviceKey,
+          PASSWORD_CLAIM_SECRET_BLOCK: challengeParameters.SECRET_BLOCK,
+          PASSWORD_CLAIM_SIGNATURE: signature,
+          TIMESTAMP: timestamp,
+          ...this.getSecretHash('SECRET_HASH', verifierUsername),
+        },
+        ...(srpResponse.Session && { Session: srpResponse.Session }),
+      }),
+    );
+
+    return this.getAuthResult(response);
+  }
+
+  /**
+   * start a custom authentication (e.g. passwordless email code login)
+   * @description the user pool define/create auth challenge triggers decide the challenges, see
+   * `createDefineAuthChallengeHandler` and `createCreateAuthChallengeHandler`
+   * @param {Object} params - parameters for the authentication
+   * @param {string} params.username - the username
+   * @param {Object<string, string>} [params.clientMetadata] - optional metadata passed to the lambda triggers
+   * @returns {Promise<Object>} - the first challenge (`CUSTOM_CHALLENGE` with its session) or error information
+   */
+  async startCustomAuth(params: StartCustomAuthParams): Promise<AuthResult> {
+    try {
+      const command = new AdminInitiateAuthCommand({
+        UserPoolId: this.userPoolId,
+        ClientId: this.clientId,
+        AuthFlow: 'CUSTOM_AUTH',
+        AuthParameters: {
+          USERNAME: params.username,
+          ...this.getSecretHash('SECRET_HASH', params.username),
+        },
+        ...(params.clientMetadata && { ClientMetadata: params.clientMetadata }),
+      });
+
+      const response = await this.client.send(command);
+
+      return this.getAuthResult(response);
+    } catch (error) {
+      return this.handleError('error starting custom auth', error, this.toErrorResult(error));
+    }
+  }
+
+  /**
+   * answer a custom challenge
+   * @param {Object} params - parameters for the answer
+   * @param {string} params.username - the username
+   * @param {string} params.session - the session returned with the challenge
+   * @param {string} params.answer - the answer (e.g. the code received by email)
+   * @param {Object<string, string>} [params.clientMetadata] - optional metadata passed to the lambda triggers
+   * @returns {Promise<Object>} - the tokens, another `CUSTOM_CHALLENGE` after a wrong answer with attempts
+   * left, or error information
+   */
+  async answerCustomChallenge(params: AnswerCustomChallengeParams): Promise<AuthResult> {
+    return this.respondToChallenge({ challengeName: 'CUSTOM_CHALLENGE', ...params });
+  }
+
+  /**
+   * handle new password required challenge
+   * @param {string} username - the username of the user
+   * @param {string} newPassword - the new password
    * @param {string} session - the session string from the challenge
    * @returns {Promise<Object>} - authentication result with tokens or error information
    * @returns {boolean} result.success - whether the operation was successful
@@ -388,28 +1102,120 @@ export class CognitoService {
     newPassword: string,
     session: string,
   ): Promise<AuthResult> {
+    return this.respondToChallenge({
+      challengeName: 'NEW_PASSWORD_REQUIRED',
+      username,
+      newPassword,
+      session,
+    });
+  }
+
+  /**
+   * respond to any supported authentication challenge
+   * @param {Object} params - the challenge response, discriminated by challenge name
+   * @param {string} params.challengeName - the challenge being answered
+   * @param {string} params.username - the username of the user
+   * @param {string} params.session - the session string from the challenge
+   * @param {Object<string, string>} [params.challengeParameters] - the parameters of the challenge (identify users signed in with an alias)
+   * @param {string} [params.newPassword] - the new password (NEW_PASSWORD_REQUIRED)
+   * @param {Object<string, string>} [params.userAttributes] - required attributes (NEW_PASSWORD_REQUIRED)
+   * @param {string} [params.code] - the mfa code (SMS_MFA, SOFTWARE_TOKEN_MFA)
+   * @param {string} [params.mfaType] - the selected mfa type (SELECT_MFA_TYPE)
+   * @param {string} [params.answer] - the challenge answer (CUSTOM_CHALLENGE)
+   * @param {Object<string, string>} [params.clientMetadata] - lambda trigger metadata (CUSTOM_CHALLENGE)
+   * @returns {Promise<Object>} - authentication result with tokens, a follow-up challenge or error information
+   * @returns {boolean} result.success - whether the operation was successful
+   * @returns {string} [result.accessToken] - access token (if successful)
+   * @returns {string} [result.idToken] - id token (if successful)
+   * @returns {string} [result.refreshToken] - refresh token (if successful)
+   * @returns {number} [result.expiresIn] - token expiration time in seconds (if successful)
+   * @returns {string} [result.tokenType] - token type (if successful)
+   * @returns {string} [result.challengeName] - name of the next auth challenge (if applicable)
+   * @returns {Object} [result.challengeParameters] - parameters for the next auth challenge (if applicable)
+   * @returns {string} [result.session] - session for the next auth challenge (if applicable)
+   * @returns {string} [result.error] - error message (if unsuccessful)
+   */
+  async respondToChallenge(params: RespondToChallengeParams): Promise<AuthResult> {
     try {
+      // users signed in with an alias (e.g. their email) are identified by USER_ID_FOR_SRP
+      const username = params.challengeParameters?.USER_ID_FOR_SRP || params.username;
+      const challengeResponses: Record<string, string> = {
+        USERNAME: username,
+        ...this.getSecretHash('SECRET_HASH', username),
+      };
+
+      switch (params.challengeName) {
+        case 'NEW_PASSWORD_REQUIRED':
+          challengeResponses.NEW_PASSWORD = params.newPassword;
+          Object.entries(params.userAttributes || {}).forEach(([name, value]) => {
+            challengeResponses[`userAttributes.${name}`] = value;
+          });
+          break;
+        case 'SMS_MFA':
+          challengeResponses.SMS_MFA_CODE = params.code;
+          break;
+        case 'SOFTWARE_TOKEN_MFA':
+          challengeResponses.SOFTWARE_TOKEN_MFA_CODE = params.code;
+          break;
+        case 'SELECT_MFA_TYPE':
+          challengeResponses.ANSWER = params.mfaType;
+          break;
+        case 'CUSTOM_CHALLENGE':
+          challengeResponses.ANSWER = params.answer;
+          break;
+        case 'MFA_SETUP':
+          // only the username is needed, the verified session proves the setup
+          break;
+      }
+
       const command = new AdminRespondToAuthChallengeCommand({
         UserPoolId: this.userPoolId,
         ClientId: this.clientId,
-        ChallengeName: 'NEW_PASSWORD_REQUIRED',
-        ChallengeResponses: {
-          USERNAME: username,
-          NEW_PASSWORD: newPassword,
-        },
-        Session: session,
+        ChallengeName: params.challengeName,
+        ChallengeResponses: challengeResponses,
+        Session: params.session,
+        ...(params.challengeName === 'CUSTOM_CHALLENGE' &&
+          params.clientMetadata && { ClientMetadata: params.clientMetadata }),
       });
 
       const response = await this.client.send(command);
 
-      return this.validateAndGetAuthenticationResult(response.AuthenticationResult);
+      return this.getAuthResult(response);
     } catch (error) {
-      this.logger.error(`error responding to new password challenge: ${error}`);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
+      return this.handleError(
+        `error responding to ${params.challengeName} challenge`,
+        error,
+        this.toErrorResult(error),
+      );
+    }
+  }
+
+  /**
+   * convert an initiate/respond auth response into an auth result,
+   * reporting any challenge together with its session
+   */
+  private getAuthResult(
+    response: Pick<
+      AdminInitiateAuthCommandOutput,
+      'ChallengeName' | 'ChallengeParameters' | 'Session' | 'AuthenticationResult'
+    >,
+  ): AuthResult {
+    if (!response.ChallengeName) {
+      return this.validateAndGetAuthenticationResult(response.AuthenticationResult);
     }
+
+    const challengeName = response.ChallengeName as AuthChallengeName;
+    if (!(challengeName in CHALLENGE_MESSAGES)) {
+      return { success: false, error: `unsupported challenge: ${response.ChallengeName}` };
+    }
+
+    return {
+      success: false,
+      challengeName,
+      challengeParameters: response.ChallengeParameters || {},
+      ...(response.Session && { session: response.Session }),
+      error: CHALLENGE_MESSAGES[challengeName],
+    };
   }
 
   /**
@@ -430,21 +1236,135 @@ export class CognitoService {
         return null;
       }
 
-      // convert attributes array to an object
-      const attributes: Record<string, string> = {};
-      response.UserAttributes.forEach((attr) => {
-        if (attr.Name && attr.Value) {
-          attributes[attr.Name] = attr.Value;
-        }
-      });
+      return this.toAttributeMap(response.UserAttributes);
+    } catch (error) {
+      return this.handleError('error getting user details', error, null);
+    }
+  }
+
+  /**
+   * list the users of the user pool, one page at a time
+   * @param {Object} [params] - parameters for the listing
+   * @param {string} [params.filter] - cognito filter expression (e.g. `email ^= "john"`)
+   * @param {number} [params.limit] - maximum number of users in the page (max 60)
+   * @param {string} [params.paginationToken] - token of the page to get
+   * @param {string[]} [params.attributesToGet] - attributes to return (all if omitted)
+   * @returns {Promise<Object|null>} - the page of users and the next page token, or null on error
+   */
+  async listUsers(params: ListUsersParams = {}): Promise<ListUsersResult | null> {
+    try {
+      return await this.getUsersPage(params);
+    } catch (error) {
+      return this.handleError('error listing users', error, null);
+    }
+  }
+
+  /**
+   * iterate over all the users of the user pool, following the pagination tokens
+   * @param {Object} [params] - parameters for the listing
+   * @param {string} [params.filter] - cognito filter expression (e.g. `email ^= "john"`)
+   * @param {number} [params.limit] - page size (max 60)
+   * @param {string[]} [params.attributesToGet] - attributes to return (all if omitted)
+   * @returns {AsyncGenerator<CognitoUser>} - the users
+   * @throws {CognitoError} if a page cannot be listed
+   */
+  async *iterateUsers(
+    params: Omit<ListUsersParams, 'paginationToken'> = {},
+  ): AsyncGenerator<CognitoUser> {
+    let paginationToken: string | undefined;
 
-      return attributes;
+    do {
+      let page: ListUsersResult;
+      try {
+        page = await this.getUsersPage({
+          ...params,
+          ...(paginationToken && { paginationToken }),
+        });
+      } catch (error) {
+        this.logger.error(`error listing users: ${error}`);
+        throw toCognitoError(error);
+      }
+
+      yield* page.users;
+      paginationToken = page.paginationToken;
+    } while (paginationToken);
+  }
+
+  /**
+   * find a user by email address
+   * @param {string} email - the email address of the user
+   * @returns {Promise<Object<string, string>|null>} - user attributes as key-value pairs or null if not found
+   */
+  async findUserByEmail(email: string): Promise<Record<string, string> | null> {
+    return this.findUserByAttribute('email', email);
+  }
+
+  /**
+   * find a user by phone number
+   * @param {string} phoneNumber - the phone number of the user (e164 format)
+   * @returns {Promise<Object<string, string>|null>} - user attributes as key-value pairs or null if not found
+   */
+  async findUserByPhone(phoneNumber: string): Promise<Record<string, string> | null> {
+    return this.findUserByAttribute('phone_number', phoneNumber);
+  }
+
+  private async findUserByAttribute(
+    name: string,
+    value: string,
+  ): Promise<Record<string, string> | null> {
+    try {
+      // cognito filter values are double quoted strings
+      const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+      const page = await this.getUsersPage({ filter: `${name} = "${escaped}"`, limit: 1 });
+
+      const user = page.users[0];
+      return user ? user.attributes : null;
     } catch (error) {
-      this.logger.error(`error getting user details: ${error}`);
-      return null;
+      return this.handleError(`error finding user by ${name}`, error, null);
     }
   }
 
+  private async getUsersPage(params: ListUsersParams): Promise<ListUsersResult> {
+    const command = new ListUsersCommand({
+      UserPoolId: this.userPoolId,
+      ...(params.filter && { Filter: params.filter }),
+      ...(params.limit && { Limit: params.limit }),
+      ...(params.paginationToken && { PaginationToken: params.paginationToken }),
+      ...(params.attributesToGet && { AttributesToGet: params.attributesToGet }),
+    });
+
+    const response = await this.client.send(command);
+
+    return {
+      users: (response.Users || []).map((user) => this.toCognitoUser(user)),
+      ...(response.PaginationToken && { paginationToken: response.PaginationToken }),
+    };
+  }
+
+  private toCognitoUser(user: UserType): CognitoUser {
+    return {
+      username: user.Username || '',
+      enabled: user.Enabled !== false,
+      ...(user.UserStatus && { status: user.UserStatus }),
+      ...(user.UserCreateDate && { createdAt: user.UserCreateDate }),
+      ...(user.UserLastModifiedDate && { updatedAt: user.UserLastModifiedDate }),
+      attributes: this.toAttributeMap(user.Attributes),
+    };
+  }
+
+  /**
+   * convert a cognito attributes array to an object, skipping attributes without name or value
+   */
+  private toAttributeMap(attributes: AttributeType[] = []): Record<string, string> {
+    const result: Record<string, string> = {};
+    attributes.forEach((attr) => {
+      if (attr.Name && attr.Value) {
+        result[attr.Name] = attr.Value;
+      }
+    });
+    return result;
+  }
+
   /**
    * verify a bearer token
    * @param {string} token - the bearer token to verify
@@ -469,13 +1389,7 @@ export class CognitoService {
         };
       }
 
-      // convert attributes array to an object
-      const attributes: Record<string, string> = {};
-      response.UserAttributes.forEach((attr) => {
-        if (attr.Name && attr.Value) {
-          attributes[attr.Name] = attr.Value;
-        }
-      });
+      const attributes = this.toAttributeMap(response.UserAttributes);
 
       return {
         success: true,
@@ -483,11 +1397,1055 @@ export class CognitoService {
         attributes,
       };
     } catch (error) {
-      this.logger.error(`error verifying token: ${error}`);
+      return this.handleError('error verifying token', error, this.toErrorResult(error));
+    }
+  }
+
+  /**
+   * verify a token locally against the user pool jwks, without calling cognito
+   * @param {string} token - the access or id token to verify
+   * @param {CognitoTokenUse} [tokenUse] - required token use ("access" or "id"), any if omitted
+   * @returns {Promise<Object>} - verification result with the token claims or error
+   * @returns {boolean} result.success - whether the token is valid
+   * @returns {string} [result.username] - the username of the token owner (if valid)
+   * @returns {Object<string, string>} [result.attributes] - string claims of an id token (if valid)
+   * @returns {CognitoJwtClaims} [result.claims] - the verified token claims (if valid)
+   * @returns {string[]} [result.groups] - the groups of the token owner (if valid and in any group)
+   * @returns {string} [result.error] - error message (if invalid)
+   */
+  async verifyJwt(token: string, tokenUse?: CognitoTokenUse): Promise<VerifyTokenResult> {
+    try {
+      const claims = await this.jwtVerifier.verify(token, tokenUse);
+      const username = claims['cognito:username'] || claims.username || claims.sub;
+
+      const result: VerifyTokenResult = { success: true, username, claims };
+      if (claims['cognito:groups']) {
+        result.groups = claims['cognito:groups'];
+      }
+
+      // id tokens carry the user attributes as claims
+      if (claims.token_use === 'id') {
+        const attributes: Record<string, string> = {};
+        Object.entries(claims).forEach(([name, value]) => {
+          if (typeof value === 'string') {
+            attributes[name] = value;
+          }
+        });
+        result.attributes = attributes;
+      }
+
+      return result;
+    } catch (error) {
+      return this.handleError('error verifying jwt', error, this.toErrorResult(error));
+    }
+  }
+
+  /**
+   * associate a software token (totp authenticator app) with a user
+   * @param {Object} params - parameters for the association
+   * @param {string} [params.accessToken] - the access token of a signed in user
+   * @param {string} [params.session] - the session of an MFA_SETUP challenge
+   * @param {string} params.label - the account label shown by the authenticator app
+   * @param {string} [params.issuer] - the issuer shown by the authenticator app
+   * @returns {Promise<Object>} - association result with the secret or error information
+   * @returns {boolean} result.success - whether the operation was successful
+   * @returns {string} [result.secretCode] - the secret to enter in the authenticator app (if successful)
+   * @returns {string} [result.otpauthUri] - the otpauth:// uri to render as a qr code (if successful)
+   * @returns {string} [result.session] - the session to verify the token with (MFA_SETUP only)
+   * @returns {string} [result.error] - error message (if unsuccessful)
+   */
+  async associateSoftwareToken(
+    params: AssociateSoftwareTokenParams,
+  ): Promise<AssociateSoftwareTokenResult> {
+    try {
+      const command = new AssociateSoftwareTokenCommand({
+        ...(params.accessToken && { AccessToken: params.accessToken }),
+        ...(params.session && { Session: params.session }),
+      });
+
+      const response = await this.client.send(command);
+
+      if (!response.SecretCode) {
+        return { success: false, error: 'no secret code returned' };
+      }
+
+      return {
+        success: true,
+        secretCode: response.SecretCode,
+        otpauthUri: this.buildOtpauthUri(
+          response.SecretCode,
+          params.label,
+          params.issuer || this.mfaIssuer,
+        ),
+        ...(response.Session && { session: response.Session }),
+      };
+    } catch (error) {
+      return this.handleError('error associating software token', error, this.toErrorResult(error));
+    }
+  }
+
+  /**
+   * verify the first code of a newly associated software token
+   * @param {Object} params - parameters for the verification
+   * @param {string} [params.accessToken] - the access token of a signed in user
+   * @param {string} [params.session] - the session returned by the association (MFA_SETUP only)
+   * @param {string} params.code - the code generated by the authenticator app
+   * @param {string} [params.friendlyDeviceName] - optional name of the authenticator device
+   * @returns {Promise<Object>} - verification result
+   * @returns {boolean} result.success - whether the code was accepted
+   * @returns {string} [result.session] - the session to answer the MFA_SETUP challenge with
+   * @returns {string} [result.error] - error message (if unsuccessful)
+   */
+  async verifySoftwareToken(params: VerifySoftwareTokenParams): Promise<VerifySoftwareTokenResult> {
+    try {
+      const command = new VerifySoftwareTokenCommand({
+        UserCode: params.code,
+        ...(params.accessToken && { AccessToken: params.accessToken }),
+        ...(params.session && { Session: params.session }),
+        ...(params.friendlyDeviceName && { FriendlyDeviceName: params.friendlyDeviceName }),
+      });
+
+      const response = await this.client.send(command);
+
+      if (response.Status !== 'SUCCESS') {
+        return { success: false, error: 'software token verification failed' };
+      }
+
+      return {
+        success: true,
+        ...(response.Session && { session: response.Session }),
+      };
+    } catch (error) {
+      return this.handleError('error verifying software token', error, this.toErrorResult(error));
+    }
+  }
+
+  /**
+   * set a user's mfa preferences (admin side)
+   * @param {Object} params - parameters for the mfa preferences
+   * @param {string} params.username - the username of the user
+   * @param {Object} [params.sms] - sms mfa preference (unchanged if omitted)
+   * @param {Object} [params.softwareToken] - software token mfa preference (unchanged if omitted)
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async setUserMfaPreference(params: SetMfaPreferenceParams): Promise<boolean> {
+    try {
+      const command = new AdminSetUserMFAPreferenceCommand({
+        UserPoolId: this.userPoolId,
+        Username: params.username,
+        ...(params.sms && {
+          SMSMfaSettings: {
+            Enabled: params.sms.enabled,
+            PreferredMfa: params.sms.preferred || false,
+          },
+        }),
+        ...(params.softwareToken && {
+          SoftwareTokenMfaSettings: {
+            Enabled: params.softwareToken.enabled,
+            PreferredMfa: params.softwareToken.preferred || false,
+          },
+        }),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error setting user mfa preference', error, false);
+    }
+  }
+
+  /**
+   * enable software token (totp) mfa for a user and make it the preferred method (admin side).
+   * the user must have associated and verified a software token first
+   * @param {string} username - the username of the user
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async enableSoftwareTokenMfa(username: string): Promise<boolean> {
+    return this.setUserMfaPreference({
+      username,
+      softwareToken: { enabled: true, preferred: true },
+    });
+  }
+
+  /**
+   * disable every mfa method for a user (admin side)
+   * @param {string} username - the username of the user
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async disableMfa(username: string): Promise<boolean> {
+    return this.setUserMfaPreference({
+      username,
+      sms: { enabled: false },
+      softwareToken: { enabled: false },
+    });
+  }
+
+  /**
+   * get a user's mfa settings (admin side)
+   * @param {string} username - the username of the user
+   * @returns {Promise<Object|null>} - the enabled and preferred mfa methods or null on error
+   */
+  async getUserMfaSettings(username: string): Promise<UserMfaSettings | null> {
+    try {
+      const command = new AdminGetUserCommand({
+        UserPoolId: this.userPoolId,
+        Username: username,
+      });
+
+      const response = await this.client.send(command);
+
+      return {
+        enabledMethods: (response.UserMFASettingList || []) as MfaMethod[],
+        ...(response.PreferredMfaSetting && {
+          preferredMethod: response.PreferredMfaSetting as MfaMethod,
+        }),
+      };
+    } catch (error) {
+      return this.handleError('error getting user mfa settings', error, null);
+    }
+  }
+
+  /**
+   * confirm the new device of a signed in user, generating its secret verifier
+   * @param {Object} params - parameters for the confirmation
+   * @param {string} params.accessToken - the access token of the user
+   * @param {string} params.deviceKey - the device key from the new device metadata
+   * @param {string} params.deviceGroupKey - the device group key from the new device metadata
+   * @param {string} [params.deviceName] - optional name of the device
+   * @returns {Promise<Object>} - confirmation result or error information
+   * @returns {boolean} result.success - whether the operation was successful
+   * @returns {string} [result.devicePassword] - the password to keep on the device (if successful)
+   * @returns {boolean} [result.userConfirmationNecessary] - whether the user must choose to remember the device
+   * @returns {string} [result.error] - error message (if unsuccessful)
+   */
+  async confirmDevice(params: ConfirmDeviceParams): Promise<ConfirmDeviceResult> {
+    try {
+      const verifier = generateDeviceVerifier(params.deviceGroupKey, params.deviceKey);
+      const command = new ConfirmDeviceCommand({
+        AccessToken: params.accessToken,
+        DeviceKey: params.deviceKey,
+        DeviceSecretVerifierConfig: {
+          PasswordVerifier: verifier.passwordVerifier,
+          Salt: verifier.salt,
+        },
+        ...(params.deviceName && { DeviceName: params.deviceName }),
+      });
+
+      const response = await this.client.send(command);
+
       return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
+        success: true,
+        devicePassword: verifier.devicePassword,
+        userConfirmationNecessary: response.UserConfirmationNecessary || false,
       };
+    } catch (error) {
+      return this.handleError('error confirming device', error, this.toErrorResult(error));
+    }
+  }
+
+  /**
+   * list the tracked devices of a signed in user
+   * @param {string} accessToken - the access token of the user
+   * @returns {Promise<Object[]|null>} - the devices or null on error
+   */
+  async listDevices(accessToken: string): Promise<CognitoDevice[] | null> {
+    try {
+      const devices: CognitoDevice[] = [];
+      let paginationToken: string | undefined;
+
+      do {
+        const command = new ListDevicesCommand({
+          AccessToken: accessToken,
+          Limit: 60,
+          ...(paginationToken && { PaginationToken: paginationToken }),
+        });
+
+        const response = await this.client.send(command);
+        (response.Devices || []).forEach((device) => devices.push(this.toCognitoDevice(device)));
+        paginationToken = response.PaginationToken;
+      } while (paginationToken);
+
+      return devices;
+    } catch (error) {
+      return this.handleError('error listing devices', error, null);
     }
   }
+
+  /**
+   * forget a device of a user (admin side), the next sign in from it requires mfa again
+   * @param {string} username - the username of the user
+   * @param {string} deviceKey - the key of the device
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async forgetDevice(username: string, deviceKey: string): Promise<boolean> {
+    try {
+      const command = new AdminForgetDeviceCommand({
+        UserPoolId: this.userPoolId,
+        Username: username,
+        DeviceKey: deviceKey,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error forgetting device', error, false);
+    }
+  }
+
+  /**
+   * remember or stop remembering a device of a signed in user
+   * @param {Object} params - parameters for the update
+   * @param {string} params.accessToken - the access token of the user
+   * @param {string} params.deviceKey - the key of the device
+   * @param {boolean} params.remembered - whether the device is remembered
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async updateDeviceStatus(params: UpdateDeviceStatusParams): Promise<boolean> {
+    try {
+      const command = new UpdateDeviceStatusCommand({
+        AccessToken: params.accessToken,
+        DeviceKey: params.deviceKey,
+        DeviceRememberedStatus: params.remembered ? 'remembered' : 'not_remembered',
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error updating device status', error, false);
+    }
+  }
+
+  /**
+   * convert a cognito device into a device
+   */
+  private toCognitoDevice(device: DeviceType): CognitoDevice {
+    const attributes: Record<string, string> = {};
+    (device.DeviceAttributes || []).forEach((attr) => {
+      if (attr.Name && attr.Value !== undefined) attributes[attr.Name] = attr.Value;
+    });
+    const status = attributes['dev:device_remembered_status'];
+
+    return {
+      deviceKey: device.DeviceKey || '',
+      attributes,
+      ...(attributes.device_name && { deviceName: attributes.device_name }),
+      ...(status && { remembered: status === 'remembered' }),
+      ...(device.DeviceCreateDate && { createdAt: device.DeviceCreateDate }),
+      ...(device.DeviceLastModifiedDate && { updatedAt: device.DeviceLastModifiedDate }),
+      ...(device.DeviceLastAuthenticatedDate && {
+        lastAuthenticatedAt: device.DeviceLastAuthenticatedDate,
+      }),
+    };
+  }
+
+  /**
+   * list the authentication events of a user, one page at a time (most recent first)
+   * @param {Object} params - parameters for the listing
+   * @param {string} params.username - the username of the user
+   * @param {number} [params.limit] - maximum number of events in the page (max 60)
+   * @param {string} [params.paginationToken] - token of the page to get
+   * @returns {Promise<Object|null>} - the page of events and the next page token, or null on error
+   */
+  async listAuthEvents(params: ListAuthEventsParams): Promise<ListAuthEventsResult | null> {
+    try {
+      return await this.getAuthEventsPage(params);
+    } catch (error) {
+      return this.handleError('error listing auth events', error, null);
+    }
+  }
+
+  /**
+   * give feedback on the risk assessment of an authentication event (admin side)
+   * @param {Object} params - parameters for the feedback
+   * @param {string} params.username - the username of the user
+   * @param {string} params.eventId - the id of the event
+   * @param {string} params.feedback - "valid" if the event was legitimate, "invalid" otherwise
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async updateAuthEventFeedback(params: AuthEventFeedbackParams): Promise<boolean> {
+    try {
+      const command = new AdminUpdateAuthEventFeedbackCommand({
+        UserPoolId: this.userPoolId,
+        Username: params.username,
+        EventId: params.eventId,
+        FeedbackValue: params.feedback === 'valid' ? 'Valid' : 'Invalid',
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error updating auth event feedback', error, false);
+    }
+  }
+
+  /**
+   * summarize the recent failed sign ins of a user, e.g. to explain why they were blocked
+   * @param {string} username - the username of the user
+   * @param {Object} [options] - options of the summary
+   * @param {Date} [options.since] - only consider events after this date (defaults to 24 hours ago)
+   * @param {number} [options.maxEvents] - maximum number of events to scan (defaults to 100)
+   * @returns {Promise<FailedLoginSummary|null>} - the summary or null on error
+   */
+  async getFailedLoginSummary(
+    username: string,
+    options: FailedLoginSummaryOptions = {},
+  ): Promise<FailedLoginSummary | null> {
+    const since = options.since || new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const maxEvents = options.maxEvents || 100;
+
+    try {
+      const failures: CognitoAuthEvent[] = [];
+      let scanned = 0;
+      let paginationToken: string | undefined;
+      let reachedSince = false;
+
+      do {
+        const page = await this.getAuthEventsPage({
+          username,
+          limit: Math.min(maxEvents - scanned, 60),
+          ...(paginationToken && { paginationToken }),
+        });
+
+        for (const event of page.events) {
+          // events are listed most recent first
+          if (event.createdAt && event.createdAt < since) {
+            reachedSince = true;
+            break;
+          }
+
+          const failed = event.outcome === 'Fail' || event.riskDecision === 'Block';
+          if (event.eventType === 'SignIn' && failed) {
+            failures.push(event);
+          }
+        }
+
+        scanned += page.events.length;
+        paginationToken = page.paginationToken;
+      } while (!reachedSince && paginationToken && scanned < maxEvents);
+
+      const ipAddresses = new Set<string>();
+      failures.forEach((event) => event.ipAddress && ipAddresses.add(event.ipAddress));
+
+      return {
+        username,
+        failedAttempts: failures.length,
+        blockedAttempts: failures.filter((event) => event.riskDecision === 'Block').length,
+        highRiskAttempts: failures.filter((event) => event.riskLevel === 'High').length,
+        ...(failures[0]?.createdAt && { lastFailedAt: failures[0].createdAt }),
+        ipAddresses: [...ipAddresses],
+        events: failures,
+      };
+    } catch (error) {
+      return this.handleError('error summarizing failed logins', error, null);
+    }
+  }
+
+  private async getAuthEventsPage(params: ListAuthEventsParams): Promise<ListAuthEventsResult> {
+    const command = new AdminListUserAuthEventsCommand({
+      UserPoolId: this.userPoolId,
+      Username: params.username,
+      ...(params.limit && { MaxResults: params.limit }),
+      ...(params.paginationToken && { NextToken: params.paginationToken }),
+    });
+
+    const response = await this.client.send(command);
+
+    return {
+      events: (response.AuthEvents || []).map((event) => this.toCognitoAuthEvent(event)),
+      ...(response.NextToken && { paginationToken: response.NextToken }),
+    };
+  }
+
+  /**
+   * convert a cognito authentication event into an authentication event
+   */
+  private toCognitoAuthEvent(event: AuthEventType): CognitoAuthEvent {
+    const risk = event.EventRisk;
+    const context = event.EventContextData;
+
+    return {
+      eventId: event.EventId || '',
+      eventType: event.EventType || '',
+      ...(event.CreationDate && { createdAt: event.CreationDate }),
+      ...(event.EventResponse && { outcome: event.EventResponse }),
+      ...(risk?.RiskLevel && { riskLevel: risk.RiskLevel }),
+      ...(risk?.RiskDecision && { riskDecision: risk.RiskDecision }),
+      ...(risk?.CompromisedCredentialsDetected !== undefined && {
+        compromisedCredentialsDetected: risk.CompromisedCredentialsDetected,
+      }),
+      challenges: (event.ChallengeResponses || []).map((challenge) => ({
+        challengeName: challenge.ChallengeName || '',
+        success: challenge.ChallengeResponse === 'Success',
+      })),
+      ...(context?.IpAddress && { ipAddress: context.IpAddress }),
+      ...(context?.DeviceName && { deviceName: context.DeviceName }),
+      ...(context?.City && { city: context.City }),
+      ...(context?.Country && { country: context.Country }),
+      ...(event.EventFeedback?.FeedbackValue && { feedback: event.EventFeedback.FeedbackValue }),
+    };
+  }
+
+  /**
+   * self-service sign up of a new user
+   * @param {Object} params - parameters for the sign up
+   * @param {string} params.username - username for the user
+   * @param {string} params.password - password for the user
+   * @param {string} [params.email] - optional email address
+   * @param {string} [params.phoneNumber] - optional phone number
+   * @param {Object<string, string>} [params.additionalAttributes] - optional additional user attributes
+   * @param {Object<string, string>} [params.clientMetadata] - optional metadata for the lambda triggers
+   * @returns {Promise<Object>} - sign up result or error information
+   * @returns {boolean} result.success - whether the operation was successful
+   * @returns {string} [result.userSub] - the sub of the new user (if successful)
+   * @returns {boolean} [result.userConfirmed] - whether the user is already confirmed (if successful)
+   * @returns {Object} [result.codeDelivery] - where the confirmation code was sent (if successful)
+   * @returns {string} [result.error] - error message (if unsuccessful)
+   */
+  async signUp(params: SignUpParams): Promise<SignUpResult> {
+    try {
+      const userAttributes: AttributeType[] = [];
+      if (params.email) {
+        userAttributes.push({ Name: 'email', Value: params.email });
+      }
+      if (params.phoneNumber) {
+        userAttributes.push({ Name: 'phone_number', Value: params.phoneNumber });
+      }
+      Object.entries(params.additionalAttributes || {}).forEach(([key, value]) => {
+        userAttributes.push({ Name: key, Value: value });
+      });
+
+      const command = new SignUpCommand({
+        ClientId: this.clientId,
+        Username: params.username,
+        Password: params.password,
+        UserAttributes: userAttributes,
+        ...this.getSecretHash('SecretHash', params.username),
+        ...(params.clientMetadata && { ClientMetadata: params.clientMetadata }),
+      });
+
+      const response = await this.client.send(command);
+
+      return {
+        success: true,
+        ...(response.UserSub && { userSub: response.UserSub }),
+        userConfirmed: response.UserConfirmed || false,
+        ...(response.CodeDeliveryDetails && {
+          codeDelivery: this.toCodeDeliveryDetails(response.CodeDeliveryDetails),
+        }),
+      };
+    } catch (error) {
+      return this.handleError('error signing up', error, this.toErrorResult(error));
+    }
+  }
+
+  /**
+   * confirm a self-service sign up with the code sent to the user
+   * @param {Object} params - parameters for the confirmation
+   * @param {string} params.username - the username of the user
+   * @param {string} params.code - the confirmation code
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async confirmSignUp(params: ConfirmSignUpParams): Promise<boolean> {
+    try {
+      const command = new ConfirmSignUpCommand({
+        ClientId: this.clientId,
+        Username: params.username,
+        ConfirmationCode: params.code,
+        ...this.getSecretHash('SecretHash', params.username),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error confirming sign up', error, false);
+    }
+  }
+
+  /**
+   * send the sign up confirmation code again
+   * @param {string} username - the username of the user
+   * @returns {Promise<Object>} - result with the code delivery details or error information
+   */
+  async resendConfirmationCode(username: string): Promise<CodeDeliveryResult> {
+    try {
+      const command = new ResendConfirmationCodeCommand({
+        ClientId: this.clientId,
+        Username: username,
+        ...this.getSecretHash('SecretHash', username),
+      });
+
+      const response = await this.client.send(command);
+
+      return {
+        success: true,
+        ...(response.CodeDeliveryDetails && {
+          codeDelivery: this.toCodeDeliveryDetails(response.CodeDeliveryDetails),
+        }),
+      };
+    } catch (error) {
+      return this.handleError(
+        'error resending confirmation code',
+        error,
+        this.toErrorResult(error),
+      );
+    }
+  }
+
+  /**
+   * start the forgotten password flow, sending a reset code to the user
+   * @param {string} username - the username of the user
+   * @returns {Promise<Object>} - result with the code delivery details or error information
+   */
+  async forgotPassword(username: string): Promise<CodeDeliveryResult> {
+    try {
+      const command = new ForgotPasswordCommand({
+        ClientId: this.clientId,
+        Username: username,
+        ...this.getSecretHash('SecretHash', username),
+      });
+
+      const response = await this.client.send(command);
+
+      return {
+        success: true,
+        ...(response.CodeDeliveryDetails && {
+          codeDelivery: this.toCodeDeliveryDetails(response.CodeDeliveryDetails),
+        }),
+      };
+    } catch (error) {
+      return this.handleError('error starting forgot password', error, this.toErrorResult(error));
+    }
+  }
+
+  /**
+   * complete the forgotten password flow with the code sent to the user
+   * @param {Object} params - parameters for the password reset
+   * @param {string} params.username - the username of the user
+   * @param {string} params.code - the reset code
+   * @param {string} params.newPassword - the new password
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async confirmForgotPassword(params: ConfirmForgotPasswordParams): Promise<boolean> {
+    try {
+      const command = new ConfirmForgotPasswordCommand({
+        ClientId: this.clientId,
+        Username: params.username,
+        ConfirmationCode: params.code,
+        Password: params.newPassword,
+        ...this.getSecretHash('SecretHash', params.username),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error confirming forgot password', error, false);
+    }
+  }
+
+  /**
+   * change the password of a signed in user
+   * @param {Object} params - parameters for the password change
+   * @param {string} params.accessToken - the access token of the user
+   * @param {string} params.previousPassword - the current password
+   * @param {string} params.proposedPassword - the new password
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async changePassword(params: ChangePasswordParams): Promise<boolean> {
+    try {
+      const command = new ChangePasswordCommand({
+        AccessToken: params.accessToken,
+        PreviousPassword: params.previousPassword,
+        ProposedPassword: params.proposedPassword,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error changing password', error, false);
+    }
+  }
+
+  /**
+   * compute the SECRET_HASH parameter required when the app client has a secret
+   * @param key - the parameter name ("SecretHash" in inputs, "SECRET_HASH" in auth parameters)
+   * @returns an object to spread into the command input (empty without client secret)
+   */
+  private getSecretHash<K extends string>(key: K, username: string): Partial<Record<K, string>> {
+    const result: Partial<Record<K, string>> = {};
+    if (!this.clientSecret) return result;
+
+    result[key] = createHmac('sha256', this.clientSecret)
+      .update(`${username}${this.clientId}`)
+      .digest('base64');
+
+    return result;
+  }
+
+  private toCodeDeliveryDetails(details: CodeDeliveryDetailsType): CodeDeliveryDetails {
+    return {
+      ...(details.Destination && { destination: details.Destination }),
+      ...(details.DeliveryMedium && { deliveryMedium: details.DeliveryMedium }),
+      ...(details.AttributeName && { attributeName: details.AttributeName }),
+    };
+  }
+
+  /**
+   * create a group in the user pool
+   * @param {Object} params - parameters for the group
+   * @param {string} params.groupName - the name of the group
+   * @param {string} [params.description] - optional description
+   * @param {number} [params.precedence] - optional precedence (lower wins)
+   * @param {string} [params.roleArn] - optional iam role assumed by the group members
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async createGroup(params: GroupParams): Promise<boolean> {
+    try {
+      const command = new CreateGroupCommand({
+        UserPoolId: this.userPoolId,
+        ...this.toGroupInput(params),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error creating group', error, false);
+    }
+  }
+
+  /**
+   * get a group of the user pool
+   * @param {string} groupName - the name of the group
+   * @returns {Promise<Object|null>} - the group or null if not found
+   */
+  async getGroup(groupName: string): Promise<CognitoGroup | null> {
+    try {
+      const command = new GetGroupCommand({
+        UserPoolId: this.userPoolId,
+        GroupName: groupName,
+      });
+
+      const response = await this.client.send(command);
+
+      return response.Group ? this.toCognitoGroup(response.Group) : null;
+    } catch (error) {
+      return this.handleError('error getting group', error, null);
+    }
+  }
+
+  /**
+   * update a group of the user pool
+   * @param {Object} params - parameters for the group
+   * @param {string} params.groupName - the name of the group
+   * @param {string} [params.description] - optional new description
+   * @param {number} [params.precedence] - optional new precedence
+   * @param {string} [params.roleArn] - optional new iam role
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async updateGroup(params: GroupParams): Promise<boolean> {
+    try {
+      const command = new UpdateGroupCommand({
+        UserPoolId: this.userPoolId,
+        ...this.toGroupInput(params),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error updating group', error, false);
+    }
+  }
+
+  /**
+   * delete a group of the user pool (its members are not deleted)
+   * @param {string} groupName - the name of the group
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async deleteGroup(groupName: string): Promise<boolean> {
+    try {
+      const command = new DeleteGroupCommand({
+        UserPoolId: this.userPoolId,
+        GroupName: groupName,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error deleting group', error, false);
+    }
+  }
+
+  /**
+   * list all the groups of the user pool
+   * @returns {Promise<Object[]|null>} - the groups or null on error
+   */
+  async listGroups(): Promise<CognitoGroup[] | null> {
+    try {
+      const groups: CognitoGroup[] = [];
+      let nextToken: string | undefined;
+
+      do {
+        const command = new ListGroupsCommand({
+          UserPoolId: this.userPoolId,
+          ...(nextToken && { NextToken: nextToken }),
+        });
+
+        const response = await this.client.send(command);
+        (response.Groups || []).forEach((group) => groups.push(this.toCognitoGroup(group)));
+        nextToken = response.NextToken;
+      } while (nextToken);
+
+      return groups;
+    } catch (error) {
+      return this.handleError('error listing groups', error, null);
+    }
+  }
+
+  /**
+   * add a user to a group
+   * @param {string} username - the username of the user
+   * @param {string} groupName - the name of the group
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async addUserToGroup(username: string, groupName: string): Promise<boolean> {
+    try {
+      const command = new AdminAddUserToGroupCommand({
+        UserPoolId: this.userPoolId,
+        Username: username,
+        GroupName: groupName,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error adding user to group', error, false);
+    }
+  }
+
+  /**
+   * remove a user from a group
+   * @param {string} username - the username of the user
+   * @param {string} groupName - the name of the group
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async removeUserFromGroup(username: string, groupName: string): Promise<boolean> {
+    try {
+      const command = new AdminRemoveUserFromGroupCommand({
+        UserPoolId: this.userPoolId,
+        Username: username,
+        GroupName: groupName,
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error removing user from group', error, false);
+    }
+  }
+
+  /**
+   * list the groups a user belongs to
+   * @param {string} username - the username of the user
+   * @returns {Promise<Object[]|null>} - the groups or null on error
+   */
+  async listGroupsForUser(username: string): Promise<CognitoGroup[] | null> {
+    try {
+      const groups: CognitoGroup[] = [];
+      let nextToken: string | undefined;
+
+      do {
+        const command = new AdminListGroupsForUserCommand({
+          UserPoolId: this.userPoolId,
+          Username: username,
+          ...(nextToken && { NextToken: nextToken }),
+        });
+
+        const response = await this.client.send(command);
+        (response.Groups || []).forEach((group) => groups.push(this.toCognitoGroup(group)));
+        nextToken = response.NextToken;
+      } while (nextToken);
+
+      return groups;
+    } catch (error) {
+      return this.handleError('error listing groups for user', error, null);
+    }
+  }
+
+  /**
+   * list the users of a group
+   * @param {string} groupName - the name of the group
+   * @returns {Promise<Object[]|null>} - the users or null on error
+   */
+  async listUsersInGroup(groupName: string): Promise<CognitoUser[] | null> {
+    try {
+      const users: CognitoUser[] = [];
+      let nextToken: string | undefined;
+
+      do {
+        const command = new ListUsersInGroupCommand({
+          UserPoolId: this.userPoolId,
+          GroupName: groupName,
+          ...(nextToken && { NextToken: nextToken }),
+        });
+
+        const response = await this.client.send(command);
+        (response.Users || []).forEach((user) => users.push(this.toCognitoUser(user)));
+        nextToken = response.NextToken;
+      } while (nextToken);
+
+      return users;
+    } catch (error) {
+      return this.handleError('error listing users in group', error, null);
+    }
+  }
+
+  private toGroupInput(params: GroupParams): {
+    GroupName: string;
+    Description?: string;
+    Precedence?: number;
+    RoleArn?: string;
+  } {
+    return {
+      GroupName: params.groupName,
+      ...(params.description !== undefined && { Description: params.description }),
+      ...(params.precedence !== undefined && { Precedence: params.precedence }),
+      ...(params.roleArn !== undefined && { RoleArn: params.roleArn }),
+    };
+  }
+
+  private toCognitoGroup(group: GroupType): CognitoGroup {
+    return {
+      groupName: group.GroupName || '',
+      ...(group.Description && { description: group.Description }),
+      ...(group.Precedence !== undefined && { precedence: group.Precedence }),
+      ...(group.RoleArn && { roleArn: group.RoleArn }),
+      ...(group.CreationDate && { createdAt: group.CreationDate }),
+      ...(group.LastModifiedDate && { updatedAt: group.LastModifiedDate }),
+    };
+  }
+
+  /**
+   * create a federated identity provider (google, saml, oidc...)
+   * @param {Object} params - parameters for the identity provider
+   * @param {string} params.providerName - the name of the provider, used in the authorize urls
+   * @param {string} params.providerType - the type of the provider
+   * @param {Object<string, string>} params.providerDetails - the provider settings
+   * @param {Object<string, string>} [params.attributeMapping] - user pool attributes mapped to provider attributes
+   * @param {string[]} [params.idpIdentifiers] - optional identifiers of the provider
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async createIdentityProvider(params: CreateIdentityProviderParams): Promise<boolean> {
+    try {
+      const command = new CreateIdentityProviderCommand({
+        UserPoolId: this.userPoolId,
+        ProviderName: params.providerName,
+        ProviderType: params.providerType,
+        ProviderDetails: params.providerDetails,
+        ...(params.attributeMapping && { AttributeMapping: params.attributeMapping }),
+        ...(params.idpIdentifiers && { IdpIdentifiers: params.idpIdentifiers }),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error creating identity provider', error, false);
+    }
+  }
+
+  /**
+   * link a federated user to an existing user, the federated user then signs in as that user
+   * @param {Object} params - parameters for the link
+   * @param {string} params.username - the username of the existing user
+   * @param {string} params.providerName - the name of the identity provider
+   * @param {string} [params.providerAttributeName] - the attribute identifying the federated user (defaults to "Cognito_Subject")
+   * @param {string} params.providerAttributeValue - the value of that attribute
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async linkProviderForUser(params: LinkProviderForUserParams): Promise<boolean> {
+    try {
+      const command = new AdminLinkProviderForUserCommand({
+        UserPoolId: this.userPoolId,
+        DestinationUser: {
+          ProviderName: 'Cognito',
+          ProviderAttributeValue: params.username,
+        },
+        SourceUser: this.toProviderUser(params),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error linking provider for user', error, false);
+    }
+  }
+
+  /**
+   * disable a federated user and remove its links to existing users
+   * @param {Object} params - parameters identifying the federated user
+   * @param {string} params.providerName - the name of the identity provider
+   * @param {string} [params.providerAttributeName] - the attribute identifying the federated user (defaults to "Cognito_Subject")
+   * @param {string} params.providerAttributeValue - the value of that attribute
+   * @returns {Promise<boolean>} - true if successful, false otherwise
+   */
+  async disableProviderForUser(params: ProviderUserParams): Promise<boolean> {
+    try {
+      const command = new AdminDisableProviderForUserCommand({
+        UserPoolId: this.userPoolId,
+        User: this.toProviderUser(params),
+      });
+
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      return this.handleError('error disabling provider for user', error, false);
+    }
+  }
+
+  private toProviderUser(params: ProviderUserParams): {
+    ProviderName: string;
+    ProviderAttributeName: string;
+    ProviderAttributeValue: string;
+  } {
+    return {
+      ProviderName: params.providerName,
+      ProviderAttributeName: params.providerAttributeName || 'Cognito_Subject',
+      ProviderAttributeValue: params.providerAttributeValue,
+    };
+  }
+
+  /**
+   * log a failed operation, then throw the mapped cognito error (throwing mode)
+   * or return the fallback value of the boolean/result api
+   */
+  private handleError<T>(message: string, error: unknown, fallback: T): T {
+    this.logger.error(`${message}: ${error}`);
+    if (this.throwOnError) {
+      throw toCognitoError(error);
+    }
+    return fallback;
+  }
+
+  /**
+   * build the error result returned by result-based methods
+   */
+  private toErrorResult(error: unknown): { success: false; error: string; errorCode?: string } {
+    const errorCode = getCognitoErrorCode(error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      ...(errorCode && { errorCode }),
+    };
+  }
+
+  /**
+   * build the otpauth:// uri understood by authenticator apps
+   */
+  private buildOtpauthUri(secret: string, label: string, issuer?: string): string {
+    const query = new URLSearchParams({ secret });
+    if (!issuer) {
+      return `otpauth://totp/${encodeURIComponent(label)}?${query}`;
+    }
+
+    query.set('issuer', issuer);
+    return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(label)}?${query}`;
+  }
 }
@@ -0,0 +1,234 @@
+import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
+import { Logger } from '@nestjs/common';
+
+import {
+  getCognitoErrorCode,
+  InvalidParameterError,
+  NotAuthorizedError,
+  toCognitoError,
+} from './CognitoErrors';
+import { decodeJwt } from './CognitoJwtVerifier';
+import { CognitoService } from './CognitoService';
+import {
+  CognitoServiceRegistryConfig,
+  CognitoTenantConfig,
+  CognitoTokenUse,
+  TenantVerifyTokenResult,
+  TokenIssuerPool,
+} from './types';
+
+// issuer of the tokens of a user pool, whose id starts with its region
+const ISSUER = /^https:\/\/cognito-idp\.([a-z0-9-]+)\.amazonaws\.com\/(\1_[0-9a-zA-Z]+)$/;
+
+/**
+ * registry of the cognito services of the tenants of a multi-tenant application
+ * @class CognitoServiceRegistry
+ * @description lazily creates and caches one `CognitoService` per tenant user pool, shares
+ * one sdk client per region and routes token verification to the pool of the token issuer
+ */
+export class CognitoServiceRegistry {
+  private readonly config: CognitoServiceRegistryConfig;
+  private readonly logger: Logger;
+  private readonly services = new Map<string, Promise<CognitoService>>();
+  private readonly clients = new Map<string, CognitoIdentityProviderClient>();
+  // issuer of each loaded tenant, to route tokens without resolving the tenant again
+  private readonly issuers = new Map<string, string>();
+  // time of the last lookup of each issuer without a tenant, oldest first
+  private readonly unknownIssuers = new Map<string, number>();
+  private readonly unknownIssuerTtlMs: number;
+  private readonly maxUnknownIssuers: number;
+
+  /**
+   * initialize the registry
+   * @param {Object} config - configuration settings for the registry
+   * @param {Function} config.resolveTenant - resolve the service configuration of a tenant id
+   * @param {Function} [config.resolveTenantId] - optional lookup of the tenant id of a user pool
+   * @param {number} [config.unknownIssuerTtlMs] - how long an issuer without a tenant is not looked up again
+   * @param {number} [config.maxUnknownIssuers] - maximum number of issuers without a tenant remembered
+   * @param {Logger} [config.logger] - optional nestjs logger instance
+   * @param {boolean} [config.throwOnError] - throw typed cognito errors instead of returning false/null/error results
+   * @param {Object|Function} [config.credentials] - optional credentials or credential provider
+   * @param {string} [config.endpoint] - optional endpoint of the cognito api (e.g. a local emulator)
+   * @param {number} [config.maxAttempts] - optional maximum number of attempts of each request
+   */
+  constructor(config: CognitoServiceRegistryConfig) {
+    this.config = config;
+    this.logger = config.logger || new Logger(CognitoServiceRegistry.name);
+    this.unknownIssuerTtlMs = config.unknownIssuerTtlMs ?? 5 * 60 * 1000;
+    this.maxUnknownIssuers = config.maxUnknownIssuers ?? 1000;
+  }
+
+  /**
+   * get the service of a tenant, resolving its configuration on first use
+   * @param {string} tenantId - the id of the tenant
+   * @returns {Promise<CognitoService>} - the cached service of the tenant
+   * @throws if the configuration of the tenant cannot be resolved, or its user pool belongs to
+   * another loaded tenant
+   */
+  async get(tenantId: string): Promise<CognitoService> {
+    const cached = this.services.get(tenantId);
+    if (cached) return cached;
+
+    const service: Promise<CognitoService> = this.createService(
+      tenantId,
+      () => this.services.get(tenantId) === service,
+    );
+    this.services.set(tenantId, service);
+
+    // a failed resolution is retried on next use
+    service.catch(() => {
+      if (this.services.get(tenantId) === service) {
+        this.evict(tenantId);
+      }
+    });
+
+    return service;
+  }
+
+  /**
+   * whether the service of a tenant is cached
+   * @param {string} tenantId - the id of the tenant
+   * @returns {boolean} - true if the tenant has been loaded
+   */
+  has(tenantId: string): boolean {
+    return this.services.has(tenantId);
+  }
+
+  /**
+   * drop the cached service of a tenant (e.g. after its configuration changed)
+   * @param {string} tenantId - the id of the tenant
+   */
+  evict(tenantId: string): void {
+    this.services.delete(tenantId);
+    this.issuers.forEach((owner, issuer) => {
+      if (owner === tenantId) {
+        this.issuers.delete(issuer);
+      }
+    });
+  }
+
+  /**
+   * drop every cached service and issuer without a tenant, the sdk clients are kept
+   */
+  clear(): void {
+    this.services.clear();
+    this.issuers.clear();
+    this.unknownIssuers.clear();
+  }
+
+  /**
+   * verify a token with the service of the tenant owning its issuer
+   * @param {string} token - the access or id token to verify
+   * @param {CognitoTokenUse} [tokenUse] - required token use ("access" or "id"), any if omitted
+   * @returns {Promise<Object>} - the verification result of `CognitoService.verifyJwt` and the tenant id
+   * @returns {string} [result.tenantId] - the id of the tenant owning the token (if its issuer is known)
+   */
+  async verifyJwt(token: string, tokenUse?: CognitoTokenUse): Promise<TenantVerifyTokenResult> {
+    let tenantId: string | undefined;
+    try {
+      const issuer = decodeJwt(token).payload.iss || '';
+      tenantId = this.issuers.get(issuer) || (await this.resolveTenantId(issuer));
+      if (!tenantId) {
+        throw new NotAuthorizedError(`unknown token issuer: ${issuer}`, 'NotAuthorizedException');
+      }
+
+      const service = await this.get(tenantId);
+      const result = await service.verifyJwt(token, tokenUse);
+
+      return { ...result, tenantId };
+    } catch (error) {
+      this.logger.error(`error verifying jwt: ${error}`);
+      if (this.config.throwOnError) {
+        throw toCognitoError(error);
+      }
+
+      const errorCode = getCognitoErrorCode(error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        ...(errorCode && { errorCode }),
+        ...(tenantId && { tenantId }),
+      };
+    }
+  }
+
+  /**
+   * resolve the configuration of a tenant and create its service
+   * @param {Function} isCurrent - whether the pending service is still the cached one
+   */
+  private async createService(tenantId: string, isCurrent: () => boolean): Promise<CognitoService> {
+    const config: CognitoTenantConfig = await this.config.resolveTenant(tenantId);
+    const issuer = `https://cognito-idp.${config.region}.amazonaws.com/${config.userPoolId}`;
+
+    // tokens are routed by issuer, so a user pool cannot be shared by tenants. the issuer is
+    // checked and reserved with no await in between, of two tenants resolving the same user pool at
+    // once only the first one gets it
+    const owner = this.issuers.get(issuer);
+    if (owner !== undefined && owner !== tenantId) {
+      throw new InvalidParameterError(
+        `user pool ${config.userPoolId} is already used by tenant ${owner}`,
+        'InvalidParameterException',
+      );
+    }
+
+    // a tenant evicted while resolving is not routed to again
+    if (isCurrent()) {
+      this.issuers.set(issuer, tenantId);
+    }
+
+    return new CognitoService({
+      ...(this.config.throwOnError && { throwOnError: this.config.throwOnError }),
+      ...(this.config.logger && { logger: this.config.logger }),
+      ...config,
+      client: this.getClient(config.region),
+    });
+  }
+
+  /**
+   * look up the tenant of an issuer that is not loaded yet
+   * @description the issuer comes from an unverified token, issuers without a tenant are
+   * remembered so that replayed tokens do not reach the tenant store
+   */
+  private async resolveTenantId(issuer: string): Promise<string | undefined> {
+    const match = ISSUER.exec(issuer);
+    if (!match || !this.config.resolveTenantId) return undefined;
+
+    const lookedUpAt = this.unknownIssuers.get(issuer);
+    if (lookedUpAt !== undefined && Date.now() - lookedUpAt < this.unknownIssuerTtlMs) {
+      return undefined;
+    }
+
+    const pool: TokenIssuerPool = { region: match[1] as string, userPoolId: match[2] as string };
+    const tenantId = await this.config.resolveTenantId(pool);
+
+    this.unknownIssuers.delete(issuer);
+    if (!tenantId) {
+      this.unknownIssuers.set(issuer, Date.now());
+      // drop the oldest issuer to keep the cache bounded
+      if (this.unknownIssuers.size > this.maxUnknownIssuers) {
+        const [oldest] = this.unknownIssuers.keys();
+        this.unknownIssuers.delete(oldest as string);
+      }
+    }
+
+    return tenantId;
+  }
+
+  /**
+   * get the sdk client shared by the tenants of a region
+   */
+  private getClient(region: string): CognitoIdentityProviderClient {
+    let client = this.clients.get(region);
+    if (!client) {
+      client = new CognitoIdentityProviderClient({
+        region,
+        ...(this.config.credentials && { credentials: this.config.credentials }),
+        ...(this.config.endpoint && { endpoint: this.config.endpoint }),
+        ...(this.config.maxAttempts && { maxAttempts: this.config.maxAttempts }),
+      });
+      this.clients.set(region, client);
+    }
+
+    return client;
+  }
+}
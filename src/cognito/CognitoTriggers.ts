@@ -0,0 +1,456 @@
+import { randomBytes } from 'crypto';
+
+import { EmailSender } from '../email/EmailSender';
+import { LoggerService } from '../logger/LoggerService';
+import { OtpService } from '../otp/OtpService';
+import {
+  ChallengeResult,
+  ClaimsOverrideDetails,
+  CreateAuthChallengeTriggerEvent,
+  DefineAuthChallengeTriggerEvent,
+  VerifyAuthChallengeResponseTriggerEvent,
+  CognitoTriggerEvent,
+  CognitoTriggerHandler,
+  CustomMessageResponse,
+  CustomMessageTriggerEvent,
+  PostAuthenticationTriggerEvent,
+  PreAuthenticationTriggerEvent,
+  PreSignUpResponse,
+  PreSignUpTriggerEvent,
+  PreTokenGenerationTriggerEvent,
+  UserMigrationResponse,
+  UserMigrationTriggerEvent,
+} from './types';
+
+/**
+ * options of the trigger handler builders
+ */
+export interface CognitoTriggerOptions {
+  /** optional logger instance (will create new if not provided) */
+  logger?: LoggerService;
+}
+
+/**
+ * options of the define auth challenge trigger handler
+ */
+export interface DefineAuthChallengeOptions extends CognitoTriggerOptions {
+  /** number of wrong codes allowed before the authentication fails (defaults to 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * options of the create auth challenge trigger handler
+ */
+export interface CreateAuthChallengeOptions extends CognitoTriggerOptions {
+  /** service generating and hashing the codes */
+  otpService: OtpService;
+  /** sender delivering the codes */
+  emailSender: EmailSender;
+  /** sender address of the emails */
+  from: string;
+  /** optional builder of the email content (defaults to a plain text message with the code) */
+  buildEmail?: (
+    code: string,
+    event: CreateAuthChallengeTriggerEvent,
+  ) => { subject: string; text?: string; html?: string };
+  /**
+   * domain of the masked address shown to unknown users whose username is not an email, use the
+   * most common domain of the user pool (defaults to "gmail.com")
+   */
+  unknownUserEmailDomain?: string;
+}
+
+/**
+ * options of the verify auth challenge response trigger handler
+ */
+export interface VerifyAuthChallengeOptions extends CognitoTriggerOptions {
+  /** service validating the codes, must use the hash options and expiry of the create handler */
+  otpService: OtpService;
+}
+
+// code hash and creation time, kept in the challenge metadata to reuse the code on retries
+interface EmailOtpMetadata {
+  hash: string;
+  createdAt: string;
+}
+
+const EMAIL_OTP_METADATA_PREFIX = 'EMAIL_OTP:';
+
+// claims cognito does not allow a pre token generation trigger to change
+const RESERVED_CLAIMS = [
+  'acr',
+  'amr',
+  'aud',
+  'at_hash',
+  'auth_time',
+  'azp',
+  'c_hash',
+  'exp',
+  'iat',
+  'identities',
+  'iss',
+  'jti',
+  'nbf',
+  'nonce',
+  'origin_jti',
+  'sub',
+  'token_use',
+];
+
+type AnyTriggerEvent = CognitoTriggerEvent<string, object, object>;
+
+/**
+ * wrap a trigger implementation with event validation and logging
+ * @param sourcePrefix - prefix of the trigger sources the handler accepts (e.g. "PreSignUp_")
+ * @param handle - the implementation, fills the event response
+ */
+function createTriggerHandler<TEvent extends AnyTriggerEvent>(
+  sourcePrefix: string,
+  handle: (event: TEvent) => Promise<void>,
+  options: CognitoTriggerOptions,
+): CognitoTriggerHandler<TEvent> {
+  const logger = options.logger || new LoggerService('CognitoTriggers');
+
+  return async (event: TEvent): Promise<TEvent> => {
+    if (
+      !event ||
+      typeof event.triggerSource !== 'string' ||
+      !event.triggerSource.startsWith(sourcePrefix) ||
+      typeof event.request !== 'object' ||
+      event.request === null
+    ) {
+      logger.error(
+        `invalid trigger event: expected ${sourcePrefix}* but got ${event?.triggerSource}`,
+      );
+      throw new Error(`invalid trigger event: ${event?.triggerSource}`);
+    }
+
+    logger.debug(`${event.triggerSource} for ${event.userName}`);
+
+    try {
+      await handle(event);
+      return event;
+    } catch (error) {
+      logger.error(`error handling ${event.triggerSource} for ${event.userName}: ${error}`);
+      throw error;
+    }
+  };
+}
+
+/**
+ * build a user migration trigger handler, used to move users from a legacy store on their first
+ * sign in or password reset
+ * @param {Function} migrate - looks the user up (and checks `event.request.password` on sign in),
+ * returns the attributes of the user to create or null when the user is unknown or the password wrong
+ * @param {CognitoTriggerOptions} [options] - optional logger
+ * @returns {CognitoTriggerHandler<UserMigrationTriggerEvent>} - the lambda handler
+ */
+export function createUserMigrationHandler(
+  migrate: (event: UserMigrationTriggerEvent) => Promise<UserMigrationResponse | null>,
+  options: CognitoTriggerOptions = {},
+): CognitoTriggerHandler<UserMigrationTriggerEvent> {
+  return createTriggerHandler<UserMigrationTriggerEvent>(
+    'UserMigration_',
+    async (event) => {
+      const result = await migrate(event);
+      if (!result) {
+        throw new Error('user not found');
+      }
+      if (result.userAttributes?.sub) {
+        throw new Error('the sub attribute of a migrated user cannot be set');
+      }
+
+      event.response = {
+        ...(event.triggerSource === 'UserMigration_Authentication' && {
+          finalUserStatus: 'CONFIRMED',
+        }),
+        messageAction: 'SUPPRESS',
+        ...result,
+      };
+    },
+    options,
+  );
+}
+
+/**
+ * build a pre sign-up trigger handler
+ * @param {Function} decide - validates the sign up (throw to reject it) and decides what to confirm
+ * or verify automatically, everything defaults to false
+ * @param {CognitoTriggerOptions} [options] - optional logger
+ * @returns {CognitoTriggerHandler<PreSignUpTriggerEvent>} - the lambda handler
+ */
+export function createPreSignUpHandler(
+  decide: (event: PreSignUpTriggerEvent) => Promise<Partial<PreSignUpResponse> | void>,
+  options: CognitoTriggerOptions = {},
+): CognitoTriggerHandler<PreSignUpTriggerEvent> {
+  return createTriggerHandler<PreSignUpTriggerEvent>(
+    'PreSignUp_',
+    async (event) => {
+      const response: PreSignUpResponse = {
+        autoConfirmUser: false,
+        autoVerifyEmail: false,
+        autoVerifyPhone: false,
+        ...(await decide(event)),
+      };
+
+      // cognito rejects the sign up when verifying a missing attribute
+      if (response.autoVerifyEmail && !event.request.userAttributes.email) {
+        throw new Error('autoVerifyEmail requires an email attribute');
+      }
+      if (response.autoVerifyPhone && !event.request.userAttributes.phone_number) {
+        throw new Error('autoVerifyPhone requires a phone_number attribute');
+      }
+
+      event.response = response;
+    },
+    options,
+  );
+}
+
+/**
+ * build a pre authentication trigger handler
+ * @param {Function} check - throws to deny the sign in, the error message is shown to the user
+ * @param {CognitoTriggerOptions} [options] - optional logger
+ * @returns {CognitoTriggerHandler<PreAuthenticationTriggerEvent>} - the lambda handler
+ */
+export function createPreAuthenticationHandler(
+  check: (event: PreAuthenticationTriggerEvent) => Promise<void>,
+  options: CognitoTriggerOptions = {},
+): CognitoTriggerHandler<PreAuthenticationTriggerEvent> {
+  return createTriggerHandler<PreAuthenticationTriggerEvent>('PreAuthentication_', check, options);
+}
+
+/**
+ * build a post authentication trigger handler (auditing, last sign in tracking...)
+ * @param {Function} handle - called after a successful sign in
+ * @param {CognitoTriggerOptions} [options] - optional logger
+ * @returns {CognitoTriggerHandler<PostAuthenticationTriggerEvent>} - the lambda handler
+ */
+export function createPostAuthenticationHandler(
+  handle: (event: PostAuthenticationTriggerEvent) => Promise<void>,
+  options: CognitoTriggerOptions = {},
+): CognitoTriggerHandler<PostAuthenticationTriggerEvent> {
+  return createTriggerHandler<PostAuthenticationTriggerEvent>(
+    'PostAuthentication_',
+    handle,
+    options,
+  );
+}
+
+/**
+ * build a pre token generation trigger handler
+ * @param {Function} customize - returns the claims to add, override or suppress in the id token
+ * @param {CognitoTriggerOptions} [options] - optional logger
+ * @returns {CognitoTriggerHandler<PreTokenGenerationTriggerEvent>} - the lambda handler
+ */
+export function createPreTokenGenerationHandler(
+  customize: (event: PreTokenGenerationTriggerEvent) => Promise<ClaimsOverrideDetails | void>,
+  options: CognitoTriggerOptions = {},
+): CognitoTriggerHandler<PreTokenGenerationTriggerEvent> {
+  return createTriggerHandler<PreTokenGenerationTriggerEvent>(
+    'TokenGeneration_',
+    async (event) => {
+      const claimsOverrideDetails = await customize(event);
+      if (!claimsOverrideDetails) return;
+
+      const changedClaims = [
+        ...Object.keys(claimsOverrideDetails.claimsToAddOrOverride || {}),
+        ...(claimsOverrideDetails.claimsToSuppress || []),
+      ];
+      const reservedClaim = changedClaims.find(
+        (claim) => RESERVED_CLAIMS.includes(claim) || claim.startsWith('cognito:'),
+      );
+      if (reservedClaim) {
+        throw new Error(`the ${reservedClaim} claim cannot be changed`);
+      }
+
+      event.response = { claimsOverrideDetails };
+    },
+    options,
+  );
+}
+
+/**
+ * build a custom message trigger handler
+ * @param {Function} build - returns the messages to send, cognito defaults are used for the missing ones
+ * @param {CognitoTriggerOptions} [options] - optional logger
+ * @returns {CognitoTriggerHandler<CustomMessageTriggerEvent>} - the lambda handler
+ */
+export function createCustomMessageHandler(
+  build: (event: CustomMessageTriggerEvent) => Promise<CustomMessageResponse | void>,
+  options: CognitoTriggerOptions = {},
+): CognitoTriggerHandler<CustomMessageTriggerEvent> {
+  return createTriggerHandler<CustomMessageTriggerEvent>(
+    'CustomMessage_',
+    async (event) => {
+      const response = await build(event);
+      if (!response) return;
+
+      // cognito ignores messages missing the placeholders and sends its default message
+      const { codeParameter, usernameParameter } = event.request;
+      const messages = [response.emailMessage, response.smsMessage].filter(
+        (message): message is string => !!message,
+      );
+      messages.forEach((message) => {
+        if (!message.includes(codeParameter)) {
+          throw new Error(`the message must contain the code placeholder ${codeParameter}`);
+        }
+        if (
+          event.triggerSource === 'CustomMessage_AdminCreateUser' &&
+          usernameParameter &&
+          !message.includes(usernameParameter)
+        ) {
+          throw new Error(`the message must contain the username placeholder ${usernameParameter}`);
+        }
+      });
+
+      event.response = { ...event.response, ...response };
+    },
+    options,
+  );
+}
+
+/**
+ * build the define auth challenge trigger handler of the passwordless email code flow
+ * @description presents custom challenges until one is answered correctly (tokens are issued) or
+ * `maxAttempts` wrong answers were given (authentication fails). unknown users get the same
+ * challenges, which they cannot answer, so the flow does not reveal whether a user exists
+ * @param {DefineAuthChallengeOptions} [options] - optional maximum number of attempts and logger
+ * @returns {CognitoTriggerHandler<DefineAuthChallengeTriggerEvent>} - the lambda handler
+ */
+export function createDefineAuthChallengeHandler(
+  options: DefineAuthChallengeOptions = {},
+): CognitoTriggerHandler<DefineAuthChallengeTriggerEvent> {
+  const maxAttempts = options.maxAttempts ?? 3;
+
+  return createTriggerHandler<DefineAuthChallengeTriggerEvent>(
+    'DefineAuthChallenge_',
+    async (event) => {
+      const { session, userNotFound } = event.request;
+      const lastChallenge = session[session.length - 1];
+      const failAuthentication = { issueTokens: false, failAuthentication: true };
+
+      // only custom challenges are part of this flow (no password or srp step)
+      if (session.some((result) => result.challengeName !== 'CUSTOM_CHALLENGE')) {
+        event.response = failAuthentication;
+      } else if (lastChallenge?.challengeResult && !userNotFound) {
+        event.response = { issueTokens: true, failAuthentication: false };
+      } else if (session.length >= maxAttempts) {
+        event.response = failAuthentication;
+      } else {
+        event.response = {
+          challengeName: 'CUSTOM_CHALLENGE',
+          issueTokens: false,
+          failAuthentication: false,
+        };
+      }
+    },
+    options,
+  );
+}
+
+/**
+ * build the create auth challenge trigger handler of the passwordless email code flow
+ * @description emails a code generated by the otp service to the user on the first challenge and
+ * reuses it on the retries, only the hash of the code is kept. unknown users get a challenge no code
+ * can answer, with a masked address shaped like the one of an existing user
+ * @param {CreateAuthChallengeOptions} options - otp service, email sender, sender address and
+ * optional email builder, domain of the unknown users and logger
+ * @returns {CognitoTriggerHandler<CreateAuthChallengeTriggerEvent>} - the lambda handler
+ */
+export function createCreateAuthChallengeHandler(
+  options: CreateAuthChallengeOptions,
+): CognitoTriggerHandler<CreateAuthChallengeTriggerEvent> {
+  const buildEmail =
+    options.buildEmail ||
+    ((code: string): { subject: string; text: string } => ({
+      subject: 'Your sign in code',
+      text: `Your sign in code is ${code}`,
+    }));
+
+  return createTriggerHandler<CreateAuthChallengeTriggerEvent>(
+    'CreateAuthChallenge_',
+    async (event) => {
+      const { userNotFound } = event.request;
+      const email = userNotFound
+        ? fakeEmail(event.userName, options.unknownUserEmailDomain || 'gmail.com')
+        : event.request.userAttributes.email;
+      let metadata = getEmailOtpMetadata(event.request.session);
+
+      if (userNotFound) {
+        // answer like for an existing user, with a hash no code can match
+        metadata = metadata || {
+          hash: randomBytes(32).toString('hex'),
+          createdAt: new Date().toISOString(),
+        };
+      } else if (!metadata) {
+        if (!email) {
+          throw new Error('the user has no email address');
+        }
+
+        const { otp, hash } = options.otpService.createOtp();
+        await options.emailSender.send({
+          to: email,
+          from: options.from,
+          ...buildEmail(otp, event),
+        });
+        metadata = { hash, createdAt: new Date().toISOString() };
+      }
+
+      event.response = {
+        publicChallengeParameters: { email: maskEmail(email || '') },
+        privateChallengeParameters: { hash: metadata.hash, createdAt: metadata.createdAt },
+        challengeMetadata: `${EMAIL_OTP_METADATA_PREFIX}${JSON.stringify(metadata)}`,
+      };
+    },
+    options,
+  );
+}
+
+/**
+ * build the verify auth challenge response trigger handler of the passwordless email code flow
+ * @param {VerifyAuthChallengeOptions} options - otp service and optional logger
+ * @returns {CognitoTriggerHandler<VerifyAuthChallengeResponseTriggerEvent>} - the lambda handler
+ */
+export function createVerifyAuthChallengeResponseHandler(
+  options: VerifyAuthChallengeOptions,
+): CognitoTriggerHandler<VerifyAuthChallengeResponseTriggerEvent> {
+  return createTriggerHandler<VerifyAuthChallengeResponseTriggerEvent>(
+    'VerifyAuthChallengeResponse_',
+    async (event) => {
+      const { hash, createdAt } = event.request.privateChallengeParameters;
+      const answerCorrect =
+        !!hash &&
+        !!createdAt &&
+        options.otpService.validateOtp(event.request.challengeAnswer, hash, new Date(createdAt))
+          .valid;
+
+      event.response = { answerCorrect };
+    },
+    options,
+  );
+}
+
+// find the code of a previous attempt in the session
+function getEmailOtpMetadata(session: ChallengeResult[]): EmailOtpMetadata | null {
+  const challengeMetadata = [...session]
+    .reverse()
+    .find((result) =>
+      result.challengeMetadata?.startsWith(EMAIL_OTP_METADATA_PREFIX),
+    )?.challengeMetadata;
+
+  return challengeMetadata
+    ? JSON.parse(challengeMetadata.slice(EMAIL_OTP_METADATA_PREFIX.length))
+    : null;
+}
+
+// address shown to an unknown user, the username itself when it is an email
+function fakeEmail(username: string, domain: string): string {
+  return username.includes('@') ? username : `${username}@${domain}`;
+}
+
+// hide most of the local part of an email address ("j***@example.com")
+function maskEmail(email: string): string {
+  const [local = '', domain] = email.split('@');
+  return domain ? `${local.charAt(0)}***@${domain}` : `${local.charAt(0)}***`;
+}
@@ -0,0 +1,137 @@
+import { createHash, createHmac, getDiffieHellman, randomBytes } from 'crypto';
+
+import { DevicePasswordClaimParams, DeviceSecretVerifier, DeviceSrpKeys } from './types';
+
+// cognito srp uses the 3072-bit modp group of rfc 3526 with generator 2
+const N = BigInt(`0x${getDiffieHellman('modp15').getPrime('hex')}`);
+const g = BigInt(2);
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = BigInt(1);
+  let b = base % modulus;
+  let e = exponent;
+  while (e > BigInt(0)) {
+    if (e & BigInt(1)) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+    e >>= BigInt(1);
+  }
+  return result;
+};
+
+// hex of a positive big integer as cognito expects it: even length, no leading high bit
+const padHex = (value: bigint): string => {
+  const hex = value.toString(16);
+  const even = hex.length % 2 ? `0${hex}` : hex;
+  return /^[89a-f]/.test(even) ? `00${even}` : even;
+};
+
+const sha256Hex = (data: string | Buffer): string =>
+  createHash('sha256').update(data).digest('hex');
+
+// hash of the bytes of a hex string, as a big integer
+const hashHex = (hex: string): bigint => BigInt(`0x${sha256Hex(Buffer.from(hex, 'hex'))}`);
+
+// srp multiplier parameter k = H(N | g)
+const k = hashHex(padHex(N) + padHex(g));
+
+const mod = (value: bigint): bigint => ((value % N) + N) % N;
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * generate the secret verifier of a device to confirm (remember) with cognito.
+ * the returned device password must be kept on the device to authenticate it later
+ * @param {string} deviceGroupKey - the device group key from the new device metadata
+ * @param {string} deviceKey - the device key from the new device metadata
+ * @returns {DeviceSecretVerifier} - the device password and the base64 verifier and salt
+ */
+export function generateDeviceVerifier(
+  deviceGroupKey: string,
+  deviceKey: string,
+): DeviceSecretVerifier {
+  const devicePassword = randomBytes(40).toString('base64');
+  const salt = padHex(BigInt(`0x${randomBytes(16).toString('hex')}`));
+  const passwordHash = sha256Hex(`${deviceGroupKey}${deviceKey}:${devicePassword}`);
+  const x = BigInt(`0x${sha256Hex(Buffer.from(salt + passwordHash, 'hex'))}`);
+
+  return {
+    devicePassword,
+    passwordVerifier: Buffer.from(padHex(modPow(g, x, N)), 'hex').toString('base64'),
+    salt: Buffer.from(salt, 'hex').toString('base64'),
+  };
+}
+
+/**
+ * generate the ephemeral srp keys starting the authentication of a remembered device
+ * @returns {DeviceSrpKeys} - the public value to send as SRP_A and the secret value to keep
+ */
+export function generateDeviceSrpKeys(): DeviceSrpKeys {
+  let a: bigint;
+  let A: bigint;
+  do {
+    a = BigInt(`0x${randomBytes(128).toString('hex')}`) % N;
+    A = modPow(g, a, N);
+  } while (A === BigInt(0));
+
+  return { srpA: A.toString(16), secret: a.toString(16) };
+}
+
+/**
+ * format a date as the TIMESTAMP of a password claim (e.g. "Tue Sep 5 08:09:40 UTC 2023")
+ * @param {Date} [date] - the date, now if omitted
+ * @returns {string} - the timestamp
+ */
+export function formatSrpTimestamp(date: Date = new Date()): string {
+  const time = [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map((value) => String(value).padStart(2, '0'))
+    .join(':');
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()} ${time} UTC ${date.getUTCFullYear()}`;
+}
+
+/**
+ * compute the PASSWORD_CLAIM_SIGNATURE answering the device password verifier challenge
+ * @param {DevicePasswordClaimParams} params - the device credentials, srp keys and challenge parameters
+ * @returns {string} - the base64 signature
+ * @throws if the challenge parameters are not valid srp values
+ */
+export function computeDevicePasswordClaim(params: DevicePasswordClaimParams): string {
+  const a = BigInt(`0x${params.srpKeys.secret}`);
+  const A = BigInt(`0x${params.srpKeys.srpA}`);
+  const B = BigInt(`0x${params.srpB}`);
+  if (B % N === BigInt(0)) {
+    throw new Error('invalid srp challenge: SRP_B is zero');
+  }
+
+  const u = hashHex(padHex(A) + padHex(B));
+  if (u === BigInt(0)) {
+    throw new Error('invalid srp challenge: the scrambling parameter is zero');
+  }
+
+  // same private value as the verifier generated when confirming the device
+  const passwordHash = sha256Hex(
+    `${params.deviceGroupKey}${params.deviceKey}:${params.devicePassword}`,
+  );
+  const x = hashHex(padHex(BigInt(`0x${params.salt}`)) + passwordHash);
+  const S = modPow(mod(B - k * modPow(g, x, N)), a + u * x, N);
+
+  // hkdf of the shared secret, salted with u
+  const prk = createHmac('sha256', Buffer.from(padHex(u), 'hex'))
+    .update(Buffer.from(padHex(S), 'hex'))
+    .digest();
+  const key = createHmac('sha256', prk)
+    .update(Buffer.concat([Buffer.from('Caldera Derived Key', 'utf8'), Buffer.from([1])]))
+    .digest()
+    .subarray(0, 16);
+
+  return createHmac('sha256', key)
+    .update(
+      Buffer.concat([
+        Buffer.from(params.deviceGroupKey, 'utf8'),
+        Buffer.from(params.deviceKey, 'utf8'),
+        Buffer.from(params.secretBlock, 'base64'),
+        Buffer.from(params.timestamp, 'utf8'),
+      ]),
+    )
+    .digest('base64');
+}
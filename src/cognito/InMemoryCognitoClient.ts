@@ -0,0 +1,670 @@
+import {
+  AdminAddUserToGroupCommandInput,
+  AdminConfirmSignUpCommandInput,
+  AdminCreateUserCommandInput,
+  AdminDeleteUserAttributesCommandInput,
+  AdminDeleteUserCommandInput,
+  AdminDisableUserCommandInput,
+  AdminEnableUserCommandInput,
+  AdminGetUserCommandInput,
+  AdminInitiateAuthCommandInput,
+  AdminListGroupsForUserCommandInput,
+  AdminRemoveUserFromGroupCommandInput,
+  AdminRespondToAuthChallengeCommandInput,
+  AdminSetUserPasswordCommandInput,
+  AdminUpdateUserAttributesCommandInput,
+  AdminUserGlobalSignOutCommandInput,
+  AttributeType,
+  AuthenticationResultType,
+  ChangePasswordCommandInput,
+  CognitoIdentityProviderClient,
+  CreateGroupCommandInput,
+  DescribeUserPoolCommandInput,
+  GetUserCommandInput,
+  GlobalSignOutCommandInput,
+  GroupExistsException,
+  GroupType,
+  InitiateAuthCommandInput,
+  InvalidParameterException,
+  InvalidPasswordException,
+  ListUsersCommandInput,
+  NotAuthorizedException,
+  ResourceNotFoundException,
+  RevokeTokenCommandInput,
+  ServiceInputTypes,
+  ServiceOutputTypes,
+  SignUpCommandInput,
+  UserNotConfirmedException,
+  UserNotFoundException,
+  UsernameExistsException,
+  UserStatusType,
+  UserType,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { InitializeMiddleware } from '@aws-sdk/types';
+import { createSign, generateKeyPairSync, KeyObject, randomBytes, randomUUID } from 'crypto';
+
+import { decodeJwt } from './CognitoJwtVerifier';
+import { StaticJwksSource } from './JwksSource';
+import { PasswordPolicy } from './PasswordPolicy';
+import { CognitoJwtClaims, InMemoryCognitoClientConfig, JwksDocument } from './types';
+
+interface StoredUser {
+  username: string;
+  password: string;
+  status: UserStatusType;
+  enabled: boolean;
+  attributes: Record<string, string>;
+  groups: Set<string>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const metadata = { $metadata: {} };
+
+/**
+ * cognito client backed by an in-memory user pool, for tests without aws
+ * @class InMemoryCognitoClient
+ * @description answers the user, authentication and group commands used by `CognitoService` and
+ * signs its tokens with a generated key, published by `jwksSource`
+ */
+export class InMemoryCognitoClient extends CognitoIdentityProviderClient {
+  readonly region: string;
+  readonly userPoolId: string;
+  readonly clientId: string;
+  readonly issuer: string;
+  readonly jwksSource: StaticJwksSource;
+
+  private readonly passwordPolicy: PasswordPolicy;
+  private readonly tokenValiditySeconds: number;
+  private readonly privateKey: KeyObject;
+  private readonly keyId = randomUUID();
+
+  private readonly users = new Map<string, StoredUser>();
+  private readonly groups = new Map<string, GroupType>();
+  private readonly sessions = new Map<string, string>();
+  private readonly refreshTokens = new Map<string, string>();
+  private readonly accessTokens = new Map<string, string>();
+
+  /**
+   * create an empty in-memory user pool
+   * @param {Object} [config] - configuration of the user pool
+   * @param {string} [config.region] - aws region used in the token issuer
+   * @param {string} [config.userPoolId] - user pool id used in the token issuer
+   * @param {string} [config.clientId] - app client id of the issued tokens
+   * @param {Object} [config.passwordPolicy] - password policy, merged with the cognito default policy
+   * @param {number} [config.tokenValiditySeconds] - validity of the access and id tokens in seconds
+   */
+  constructor(config: InMemoryCognitoClientConfig = {}) {
+    const region = config.region || 'us-east-1';
+    super({ region, credentials: { accessKeyId: 'in-memory', secretAccessKey: 'in-memory' } });
+
+    this.region = region;
+    this.userPoolId = config.userPoolId || `${region}_inmemory`;
+    this.clientId = config.clientId || 'in-memory-client';
+    this.issuer = `https://cognito-idp.${region}.amazonaws.com/${this.userPoolId}`;
+    this.passwordPolicy = new PasswordPolicy(config.passwordPolicy);
+    this.tokenValiditySeconds = config.tokenValiditySeconds || 3600;
+
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    const jwks: JwksDocument = {
+      keys: [
+        {
+          ...(publicKey.export({ format: 'jwk' }) as { kty: string; n: string; e: string }),
+          kid: this.keyId,
+          alg: 'RS256',
+          use: 'sig',
+        },
+      ],
+    };
+    this.jwksSource = new StaticJwksSource(jwks);
+
+    // answer every command before it is serialized and sent
+    const middleware: InitializeMiddleware<ServiceInputTypes, ServiceOutputTypes> =
+      (_next, context) => async (args) => ({
+        output: {
+          ...this.handle(context.commandName || '', args.input),
+          ...metadata,
+        } as ServiceOutputTypes,
+        response: {},
+      });
+    this.middlewareStack.add(middleware, {
+      step: 'initialize',
+      name: 'inMemoryUserPool',
+      priority: 'high',
+    });
+  }
+
+  /**
+   * get the attributes of a stored user, to assert on the pool state
+   * @param {string} username - the username of the user
+   * @returns {Object<string, string>|undefined} - the attributes or undefined if the user does not exist
+   */
+  getUserAttributes(username: string): Record<string, string> | undefined {
+    const user = this.users.get(username);
+    return user && { ...user.attributes };
+  }
+
+  /**
+   * remove every user, group, session and token
+   */
+  reset(): void {
+    this.users.clear();
+    this.groups.clear();
+    this.sessions.clear();
+    this.refreshTokens.clear();
+    this.accessTokens.clear();
+  }
+
+  private handle(commandName: string, input: ServiceInputTypes): object {
+    switch (commandName) {
+      case 'AdminCreateUserCommand':
+        return this.adminCreateUser(input as AdminCreateUserCommandInput);
+      case 'SignUpCommand':
+        return this.signUp(input as SignUpCommandInput);
+      case 'AdminConfirmSignUpCommand':
+        return this.setStatus(input as AdminConfirmSignUpCommandInput, 'CONFIRMED');
+      case 'AdminGetUserCommand':
+        return this.adminGetUser(input as AdminGetUserCommandInput);
+      case 'AdminDeleteUserCommand':
+        return this.adminDeleteUser(input as AdminDeleteUserCommandInput);
+      case 'AdminUpdateUserAttributesCommand':
+        return this.adminUpdateUserAttributes(input as AdminUpdateUserAttributesCommandInput);
+      case 'AdminDeleteUserAttributesCommand':
+        return this.adminDeleteUserAttributes(input as AdminDeleteUserAttributesCommandInput);
+      case 'AdminSetUserPasswordCommand':
+        return this.adminSetUserPassword(input as AdminSetUserPasswordCommandInput);
+      case 'AdminEnableUserCommand':
+        return this.setEnabled(input as AdminEnableUserCommandInput, true);
+      case 'AdminDisableUserCommand':
+        return this.setEnabled(input as AdminDisableUserCommandInput, false);
+      case 'ListUsersCommand':
+        return this.listUsers(input as ListUsersCommandInput);
+      case 'AdminInitiateAuthCommand':
+      case 'InitiateAuthCommand':
+        return this.initiateAuth(input as AdminInitiateAuthCommandInput | InitiateAuthCommandInput);
+      case 'AdminRespondToAuthChallengeCommand':
+        return this.respondToAuthChallenge(input as AdminRespondToAuthChallengeCommandInput);
+      case 'GetUserCommand':
+        return this.getUser(input as GetUserCommandInput);
+      case 'ChangePasswordCommand':
+        return this.changePassword(input as ChangePasswordCommandInput);
+      case 'AdminUserGlobalSignOutCommand':
+        return this.signOut(this.findUser((input as AdminUserGlobalSignOutCommandInput).Username));
+      case 'GlobalSignOutCommand':
+        return this.signOut(this.authenticate((input as GlobalSignOutCommandInput).AccessToken));
+      case 'RevokeTokenCommand':
+        this.refreshTokens.delete((input as RevokeTokenCommandInput).Token || '');
+        return {};
+      case 'CreateGroupCommand':
+        return this.createGroup(input as CreateGroupCommandInput);
+      case 'AdminAddUserToGroupCommand':
+        return this.updateGroups(input as AdminAddUserToGroupCommandInput, true);
+      case 'AdminRemoveUserFromGroupCommand':
+        return this.updateGroups(input as AdminRemoveUserFromGroupCommandInput, false);
+      case 'AdminListGroupsForUserCommand':
+        return this.adminListGroupsForUser(input as AdminListGroupsForUserCommandInput);
+      case 'DescribeUserPoolCommand':
+        return this.describeUserPool(input as DescribeUserPoolCommandInput);
+      default:
+        throw new Error(`unsupported command: ${commandName}`);
+    }
+  }
+
+  private adminCreateUser(input: AdminCreateUserCommandInput): object {
+    const username = input.Username || '';
+    const existing = this.users.get(username);
+    if (existing && input.MessageAction === 'RESEND') {
+      return { User: this.toUserType(existing) };
+    }
+    if (existing) {
+      throw new UsernameExistsException({ message: 'User account already exists', ...metadata });
+    }
+
+    const password = input.TemporaryPassword || this.passwordPolicy.generate();
+    this.validatePassword(password);
+
+    const user = this.storeUser(username, password, 'FORCE_CHANGE_PASSWORD', input.UserAttributes);
+    return { User: this.toUserType(user) };
+  }
+
+  private signUp(input: SignUpCommandInput): object {
+    const username = input.Username || '';
+    if (this.users.has(username)) {
+      throw new UsernameExistsException({ message: 'User already exists', ...metadata });
+    }
+    this.validatePassword(input.Password || '');
+
+    const user = this.storeUser(
+      username,
+      input.Password || '',
+      'UNCONFIRMED',
+      input.UserAttributes,
+    );
+    return { UserSub: user.attributes.sub, UserConfirmed: false };
+  }
+
+  private storeUser(
+    username: string,
+    password: string,
+    status: UserStatusType,
+    attributes: AttributeType[] = [],
+  ): StoredUser {
+    const now = new Date();
+    const user: StoredUser = {
+      username,
+      password,
+      status,
+      enabled: true,
+      attributes: { sub: randomUUID() },
+      groups: new Set(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.setAttributes(user, attributes);
+    this.users.set(username, user);
+
+    return user;
+  }
+
+  private adminGetUser(input: AdminGetUserCommandInput): object {
+    const user = this.findUser(input.Username);
+    const { Attributes, ...rest } = this.toUserType(user);
+    return { ...rest, UserAttributes: Attributes };
+  }
+
+  private adminDeleteUser(input: AdminDeleteUserCommandInput): object {
+    const user = this.findUser(input.Username);
+    this.signOut(user);
+    this.users.delete(user.username);
+    return {};
+  }
+
+  private adminUpdateUserAttributes(input: AdminUpdateUserAttributesCommandInput): object {
+    const user = this.findUser(input.Username);
+    this.setAttributes(user, input.UserAttributes);
+    return {};
+  }
+
+  private adminDeleteUserAttributes(input: AdminDeleteUserAttributesCommandInput): object {
+    const user = this.findUser(input.Username);
+    (input.UserAttributeNames || []).forEach((name) => delete user.attributes[name]);
+    user.updatedAt = new Date();
+    return {};
+  }
+
+  private adminSetUserPassword(input: AdminSetUserPasswordCommandInput): object {
+    const user = this.findUser(input.Username);
+    this.validatePassword(input.Password || '');
+
+    user.password = input.Password || '';
+    user.status = input.Permanent ? 'CONFIRMED' : 'FORCE_CHANGE_PASSWORD';
+    user.updatedAt = new Date();
+    return {};
+  }
+
+  private setStatus(input: { Username: string | undefined }, status: UserStatusType): object {
+    const user = this.findUser(input.Username);
+    user.status = status;
+    user.updatedAt = new Date();
+    return {};
+  }
+
+  private setEnabled(input: { Username: string | undefined }, enabled: boolean): object {
+    const user = this.findUser(input.Username);
+    user.enabled = enabled;
+    user.updatedAt = new Date();
+    return {};
+  }
+
+  private listUsers(input: ListUsersCommandInput): object {
+    const match = this.parseFilter(input.Filter);
+    const users = [...this.users.values()].filter(match);
+    const offset = Number(input.PaginationToken || 0);
+    const limit = input.Limit || 60;
+    const next = offset + limit;
+
+    return {
+      Users: users.slice(offset, next).map((user) => this.toUserType(user, input.AttributesToGet)),
+      ...(next < users.length && { PaginationToken: String(next) }),
+    };
+  }
+
+  // supports the `name = "value"` and `name ^= "value"` cognito filter expressions, quotes and
+  // backslashes of the value are escaped with a backslash
+  private parseFilter(filter: string | undefined): (user: StoredUser) => boolean {
+    if (!filter) return () => true;
+
+    const match = /^\s*([\w:]+)\s*(\^?=)\s*"((?:[^"\\]|\\.)*)"\s*$/.exec(filter);
+    if (!match) {
+      throw new InvalidParameterException({ message: 'Error while parsing filter.', ...metadata });
+    }
+    const [, name = '', operator] = match;
+    const value = (match[3] || '').replace(/\\(.)/g, '$1');
+
+    return (user) => {
+      const actual =
+        name === 'username'
+          ? user.username
+          : name === 'cognito:user_status'
+            ? user.status
+            : name === 'status'
+              ? user.enabled
+                ? 'Enabled'
+                : 'Disabled'
+              : user.attributes[name];
+      if (actual === undefined) return false;
+      return operator === '=' ? actual === value : actual.startsWith(value);
+    };
+  }
+
+  private initiateAuth(input: AdminInitiateAuthCommandInput | InitiateAuthCommandInput): object {
+    const parameters = input.AuthParameters || {};
+
+    switch (input.AuthFlow) {
+      case 'ADMIN_USER_PASSWORD_AUTH':
+      case 'ADMIN_NO_SRP_AUTH':
+      case 'USER_PASSWORD_AUTH':
+        return this.passwordAuth(parameters.USERNAME, parameters.PASSWORD);
+      case 'REFRESH_TOKEN_AUTH':
+      case 'REFRESH_TOKEN':
+        return this.refreshAuth(parameters.REFRESH_TOKEN);
+      default:
+        throw new InvalidParameterException({
+          message: `Unsupported auth flow: ${input.AuthFlow}`,
+          ...metadata,
+        });
+    }
+  }
+
+  private passwordAuth(username: string | undefined, password: string | undefined): object {
+    const user = this.users.get(username || '');
+    if (!user || user.password !== password) {
+      throw new NotAuthorizedException({ message: 'Incorrect username or password.', ...metadata });
+    }
+    if (!user.enabled) {
+      throw new NotAuthorizedException({ message: 'User is disabled.', ...metadata });
+    }
+    if (user.status === 'UNCONFIRMED') {
+      throw new UserNotConfirmedException({ message: 'User is not confirmed.', ...metadata });
+    }
+
+    if (user.status === 'FORCE_CHANGE_PASSWORD') {
+      const session = randomBytes(32).toString('base64url');
+      this.sessions.set(session, user.username);
+      const { sub: _sub, ...userAttributes } = user.attributes;
+
+      return {
+        ChallengeName: 'NEW_PASSWORD_REQUIRED',
+        ChallengeParameters: {
+          USER_ID_FOR_SRP: user.username,
+          requiredAttributes: '[]',
+          userAttributes: JSON.stringify(userAttributes),
+        },
+        Session: session,
+      };
+    }
+
+    return { AuthenticationResult: this.issueTokens(user, true) };
+  }
+
+  private refreshAuth(refreshToken: string | undefined): object {
+    const username = this.refreshTokens.get(refreshToken || '');
+    const user = username ? this.users.get(username) : undefined;
+    if (!user || !user.enabled) {
+      throw new NotAuthorizedException({ message: 'Invalid Refresh Token', ...metadata });
+    }
+
+    return { AuthenticationResult: this.issueTokens(user, false) };
+  }
+
+  private respondToAuthChallenge(input: AdminRespondToAuthChallengeCommandInput): object {
+    const username = this.sessions.get(input.Session || '');
+    const user = username ? this.users.get(username) : undefined;
+    if (!user || input.ChallengeName !== 'NEW_PASSWORD_REQUIRED') {
+      throw new NotAuthorizedException({ message: 'Invalid session for the user.', ...metadata });
+    }
+
+    const responses = input.ChallengeResponses || {};
+    this.validatePassword(responses.NEW_PASSWORD || '');
+    this.sessions.delete(input.Session || '');
+
+    user.password = responses.NEW_PASSWORD || '';
+    user.status = 'CONFIRMED';
+    this.setAttributes(
+      user,
+      Object.entries(responses)
+        .filter(([name]) => name.startsWith('userAttributes.'))
+        .map(([name, value]) => ({ Name: name.slice('userAttributes.'.length), Value: value })),
+    );
+
+    return { AuthenticationResult: this.issueTokens(user, true) };
+  }
+
+  private getUser(input: GetUserCommandInput): object {
+    const user = this.authenticate(input.AccessToken);
+    return { Username: user.username, UserAttributes: this.toAttributes(user.attributes) };
+  }
+
+  private changePassword(input: ChangePasswordCommandInput): object {
+    const user = this.authenticate(input.AccessToken);
+    if (user.password !== input.PreviousPassword) {
+      throw new NotAuthorizedException({ message: 'Incorrect username or password.', ...metadata });
+    }
+    this.validatePassword(input.ProposedPassword || '');
+
+    user.password = input.ProposedPassword || '';
+    user.updatedAt = new Date();
+    return {};
+  }
+
+  private signOut(user: StoredUser): object {
+    [this.refreshTokens, this.accessTokens].forEach((tokens) =>
+      tokens.forEach((username, token) => {
+        if (username === user.username) tokens.delete(token);
+      }),
+    );
+    return {};
+  }
+
+  private createGroup(input: CreateGroupCommandInput): object {
+    const groupName = input.GroupName || '';
+    if (this.groups.has(groupName)) {
+      throw new GroupExistsException({
+        message: 'A group with the name already exists.',
+        ...metadata,
+      });
+    }
+
+    const now = new Date();
+    const group: GroupType = {
+      GroupName: groupName,
+      UserPoolId: this.userPoolId,
+      ...(input.Description && { Description: input.Description }),
+      ...(input.Precedence !== undefined && { Precedence: input.Precedence }),
+      ...(input.RoleArn && { RoleArn: input.RoleArn }),
+      CreationDate: now,
+      LastModifiedDate: now,
+    };
+    this.groups.set(groupName, group);
+
+    return { Group: group };
+  }
+
+  private updateGroups(
+    input: { Username: string | undefined; GroupName: string | undefined },
+    add: boolean,
+  ): object {
+    const user = this.findUser(input.Username);
+    const groupName = input.GroupName || '';
+    if (!this.groups.has(groupName)) {
+      throw new ResourceNotFoundException({ message: 'Group not found.', ...metadata });
+    }
+
+    if (add) {
+      user.groups.add(groupName);
+    } else {
+      user.groups.delete(groupName);
+    }
+    return {};
+  }
+
+  private adminListGroupsForUser(input: AdminListGroupsForUserCommandInput): object {
+    const user = this.findUser(input.Username);
+    return { Groups: [...user.groups].map((name) => this.groups.get(name)) };
+  }
+
+  private findUser(username: string | undefined): StoredUser {
+    const user = this.users.get(username || '');
+    if (!user) {
+      throw new UserNotFoundException({ message: 'User does not exist.', ...metadata });
+    }
+    return user;
+  }
+
+  // resolve the user of an access token issued by this pool and not revoked
+  private authenticate(accessToken: string | undefined): StoredUser {
+    let claims: CognitoJwtClaims;
+    try {
+      claims = decodeJwt(accessToken || '').payload;
+    } catch {
+      throw new NotAuthorizedException({ message: 'Invalid Access Token', ...metadata });
+    }
+
+    const username = this.accessTokens.get(claims.jti || '');
+    const user = username ? this.users.get(username) : undefined;
+    if (!user) {
+      throw new NotAuthorizedException({ message: 'Access Token has been revoked', ...metadata });
+    }
+    if (claims.exp * 1000 <= Date.now()) {
+      throw new NotAuthorizedException({ message: 'Access Token has expired', ...metadata });
+    }
+    return user;
+  }
+
+  private issueTokens(user: StoredUser, withRefreshToken: boolean): AuthenticationResultType {
+    const iat = Math.floor(Date.now() / 1000);
+    const exp = iat + this.tokenValiditySeconds;
+    const groups = user.groups.size ? { 'cognito:groups': [...user.groups] } : {};
+    const accessJti = randomUUID();
+
+    const accessToken = this.sign({
+      sub: user.attributes.sub,
+      iss: this.issuer,
+      client_id: this.clientId,
+      token_use: 'access',
+      scope: 'aws.cognito.signin.user.admin',
+      auth_time: iat,
+      iat,
+      exp,
+      jti: accessJti,
+      username: user.username,
+      ...groups,
+    });
+    this.accessTokens.set(accessJti, user.username);
+
+    const idToken = this.sign({
+      ...this.toIdTokenAttributes(user.attributes),
+      iss: this.issuer,
+      aud: this.clientId,
+      token_use: 'id',
+      auth_time: iat,
+      iat,
+      exp,
+      jti: randomUUID(),
+      'cognito:username': user.username,
+      ...groups,
+    });
+
+    let refreshToken: string | undefined;
+    if (withRefreshToken) {
+      refreshToken = randomBytes(48).toString('base64url');
+      this.refreshTokens.set(refreshToken, user.username);
+    }
+
+    return {
+      AccessToken: accessToken,
+      IdToken: idToken,
+      ...(refreshToken && { RefreshToken: refreshToken }),
+      ExpiresIn: this.tokenValiditySeconds,
+      TokenType: 'Bearer',
+    };
+  }
+
+  // cognito publishes the verification flags of the id token as booleans
+  private toIdTokenAttributes(attributes: Record<string, string>): Record<string, unknown> {
+    const claims: Record<string, unknown> = {};
+    Object.entries(attributes).forEach(([name, value]) => {
+      claims[name] = name.endsWith('_verified') ? value === 'true' : value;
+    });
+    return claims;
+  }
+
+  private sign(payload: Record<string, unknown>): string {
+    const encode = (part: object): string =>
+      Buffer.from(JSON.stringify(part)).toString('base64url');
+    const signingInput = `${encode({ kid: this.keyId, alg: 'RS256' })}.${encode(payload)}`;
+    const signature = createSign('RSA-SHA256').update(signingInput).sign(this.privateKey);
+
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  private describeUserPool(input: DescribeUserPoolCommandInput): object {
+    if (input.UserPoolId !== this.userPoolId) {
+      throw new ResourceNotFoundException({ message: 'User pool does not exist', ...metadata });
+    }
+
+    const { rules } = this.passwordPolicy;
+    return {
+      UserPool: {
+        Id: this.userPoolId,
+        Policies: {
+          PasswordPolicy: {
+            MinimumLength: rules.minimumLength,
+            RequireUppercase: rules.requireUppercase,
+            RequireLowercase: rules.requireLowercase,
+            RequireNumbers: rules.requireNumbers,
+            RequireSymbols: rules.requireSymbols,
+            TemporaryPasswordValidityDays: rules.temporaryPasswordValidityDays,
+          },
+        },
+      },
+    };
+  }
+
+  private validatePassword(password: string): void {
+    const { valid, errors } = this.passwordPolicy.validate(password);
+    if (!valid) {
+      throw new InvalidPasswordException({
+        message: `Password does not conform to policy: ${errors.join(', ')}`,
+        ...metadata,
+      });
+    }
+  }
+
+  private setAttributes(user: StoredUser, attributes: AttributeType[] = []): void {
+    attributes.forEach((attribute) => {
+      if (attribute.Name && attribute.Name !== 'sub') {
+        user.attributes[attribute.Name] = attribute.Value || '';
+      }
+    });
+    user.updatedAt = new Date();
+  }
+
+  private toAttributes(attributes: Record<string, string>, names?: string[]): AttributeType[] {
+    return Object.entries(attributes)
+      .filter(([name]) => !names || names.includes(name))
+      .map(([Name, Value]) => ({ Name, Value }));
+  }
+
+  private toUserType(user: StoredUser, attributesToGet?: string[]): UserType {
+    return {
+      Username: user.username,
+      Attributes: this.toAttributes(user.attributes, attributesToGet),
+      UserStatus: user.status,
+      Enabled: user.enabled,
+      UserCreateDate: user.createdAt,
+      UserLastModifiedDate: user.updatedAt,
+    };
+  }
+}
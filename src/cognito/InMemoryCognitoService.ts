@@ -0,0 +1,40 @@
+import { CognitoService } from './CognitoService';
+import { InMemoryCognitoClient } from './InMemoryCognitoClient';
+import { InMemoryCognitoServiceConfig } from './types';
+
+/**
+ * cognito service backed by an in-memory user pool, for tests without aws
+ * @class InMemoryCognitoService
+ * @description behaves like `CognitoService` against a real user pool: users, password policy,
+ * temporary password challenges, refresh tokens and locally signed jwts verified by `verifyJwt`
+ */
+export class InMemoryCognitoService extends CognitoService {
+  /** the in-memory user pool, to inspect or reset its state */
+  readonly userPool: InMemoryCognitoClient;
+
+  /**
+   * create a service over an empty in-memory user pool
+   * @param {Object} [config] - configuration of the user pool and service
+   * @param {string} [config.region] - aws region used in the token issuer
+   * @param {string} [config.userPoolId] - user pool id used in the token issuer
+   * @param {string} [config.clientId] - app client id of the issued tokens
+   * @param {Object} [config.passwordPolicy] - password policy, merged with the cognito default policy
+   * @param {number} [config.tokenValiditySeconds] - validity of the access and id tokens in seconds
+   * @param {Logger} [config.logger] - optional nestjs logger instance
+   * @param {boolean} [config.throwOnError] - throw typed cognito errors instead of returning false/null/error results
+   */
+  constructor(config: InMemoryCognitoServiceConfig = {}) {
+    const userPool = new InMemoryCognitoClient(config);
+    super({
+      region: userPool.region,
+      userPoolId: userPool.userPoolId,
+      clientId: userPool.clientId,
+      enableCognitoEmail: false,
+      client: userPool,
+      jwksSource: userPool.jwksSource,
+      ...(config.logger && { logger: config.logger }),
+      ...(config.throwOnError && { throwOnError: config.throwOnError }),
+    });
+    this.userPool = userPool;
+  }
+}
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+
+import { Jwk, JwksDocument, JwksSource } from './types';
+
+/**
+ * jwks source that downloads the key set from a url and caches it
+ * @class RemoteJwksSource
+ * @description default source used for cognito user pools (`<issuer>/.well-known/jwks.json`)
+ */
+export class RemoteJwksSource implements JwksSource {
+  private static readonly DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
+  private static readonly MIN_REFRESH_INTERVAL_MS = 30 * 1000;
+
+  private keys: Jwk[] | null = null;
+  private fetchedAt = 0;
+  private pending: Promise<Jwk[]> | null = null;
+
+  /**
+   * @param {string} url - the url of the jwks document
+   * @param {number} [cacheTtlMs] - how long a downloaded key set is reused
+   */
+  constructor(
+    private readonly url: string,
+    private readonly cacheTtlMs: number = RemoteJwksSource.DEFAULT_CACHE_TTL_MS,
+  ) {}
+
+  /**
+   * get the keys, downloading them when the cache is empty or stale
+   * @param {boolean} [forceRefresh] - download again unless the last download is very recent
+   * @returns {Promise<Jwk[]>} - the keys of the set
+   */
+  async getKeys(forceRefresh = false): Promise<Jwk[]> {
+    const age = Date.now() - this.fetchedAt;
+    const stale = age > this.cacheTtlMs;
+    // throttle forced refreshes so tokens with unknown kids cannot hammer the endpoint
+    const canRefresh = age > RemoteJwksSource.MIN_REFRESH_INTERVAL_MS;
+
+    if (this.keys && !stale && !(forceRefresh && canRefresh)) {
+      return this.keys;
+    }
+
+    // share a single in-flight download between concurrent callers
+    if (!this.pending) {
+      this.pending = this.download().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    return this.pending;
+  }
+
+  private async download(): Promise<Jwk[]> {
+    const response = await fetch(this.url);
+    if (!response.ok) {
+      throw new Error(`failed to fetch jwks from ${this.url}: ${response.status}`);
+    }
+
+    const document = (await response.json()) as JwksDocument;
+    this.keys = document.keys || [];
+    this.fetchedAt = Date.now();
+
+    return this.keys;
+  }
+}
+
+/**
+ * jwks source serving a fixed, in-memory key set
+ * @class StaticJwksSource
+ */
+export class StaticJwksSource implements JwksSource {
+  private readonly keys: Jwk[];
+
+  /**
+   * @param {JwksDocument|Jwk[]} jwks - the key set or its keys
+   */
+  constructor(jwks: JwksDocument | Jwk[]) {
+    this.keys = Array.isArray(jwks) ? jwks : jwks.keys;
+  }
+
+  async getKeys(): Promise<Jwk[]> {
+    return this.keys;
+  }
+}
+
+/**
+ * jwks source reading the key set from a local json file
+ * @class FileJwksSource
+ */
+export class FileJwksSource implements JwksSource {
+  private keys: Jwk[] | null = null;
+
+  /**
+   * @param {string} path - path of the jwks json file
+   */
+  constructor(private readonly path: string) {}
+
+  /**
+   * get the keys, reading the file on first use
+   * @param {boolean} [forceRefresh] - read the file again
+   * @returns {Promise<Jwk[]>} - the keys of the set
+   */
+  async getKeys(forceRefresh = false): Promise<Jwk[]> {
+    if (!this.keys || forceRefresh) {
+      const content = await fs.readFile(this.path, 'utf8');
+      this.keys = (JSON.parse(content) as JwksDocument).keys || [];
+    }
+
+    return this.keys;
+  }
+}
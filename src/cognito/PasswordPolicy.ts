@@ -0,0 +1,121 @@
+import { PasswordPolicyType } from '@aws-sdk/client-cognito-identity-provider';
+import { randomInt } from 'crypto';
+
+import { PasswordValidationResult, UserPoolPasswordPolicy } from './types';
+
+/**
+ * default password policy of a new cognito user pool
+ */
+export const DEFAULT_PASSWORD_POLICY: UserPoolPasswordPolicy = {
+  minimumLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSymbols: true,
+};
+
+// symbols accepted by cognito password policies
+const SYMBOLS = /[\^$*.[\]{}()?"!@#%&/\\,><':;|_~`=+\- ]/;
+
+// characters of the generated passwords, without look-alikes and with symbols that are safe to paste
+const UPPERCASE = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const LOWERCASE = 'abcdefghijkmnopqrstuvwxyz';
+const NUMBERS = '23456789';
+const GENERATED_SYMBOLS = '!#%&*+-=?@^_';
+
+const pick = (characters: string): string => characters.charAt(randomInt(characters.length));
+
+/**
+ * password policy of a user pool
+ * @class PasswordPolicy
+ * @description validates passwords locally and generates compliant temporary passwords
+ */
+export class PasswordPolicy {
+  readonly rules: UserPoolPasswordPolicy;
+
+  /**
+   * @param {Object} [rules] - rules of the policy, merged with the cognito default policy
+   */
+  constructor(rules: Partial<UserPoolPasswordPolicy> = {}) {
+    this.rules = { ...DEFAULT_PASSWORD_POLICY, ...rules };
+  }
+
+  /**
+   * create the policy of a user pool from its cognito description
+   * @param {PasswordPolicyType} [policy] - the password policy of the described user pool
+   * @returns {PasswordPolicy} - the policy (the default policy if none is described)
+   */
+  static fromCognito(policy: PasswordPolicyType | undefined): PasswordPolicy {
+    return new PasswordPolicy({
+      ...(policy?.MinimumLength !== undefined && { minimumLength: policy.MinimumLength }),
+      ...(policy?.RequireUppercase !== undefined && { requireUppercase: policy.RequireUppercase }),
+      ...(policy?.RequireLowercase !== undefined && { requireLowercase: policy.RequireLowercase }),
+      ...(policy?.RequireNumbers !== undefined && { requireNumbers: policy.RequireNumbers }),
+      ...(policy?.RequireSymbols !== undefined && { requireSymbols: policy.RequireSymbols }),
+      ...(policy?.TemporaryPasswordValidityDays !== undefined && {
+        temporaryPasswordValidityDays: policy.TemporaryPasswordValidityDays,
+      }),
+    });
+  }
+
+  /**
+   * validate a password against every rule of the policy
+   * @param {string} password - the candidate password
+   * @returns {Object} - validation result
+   * @returns {boolean} result.valid - whether the password satisfies the policy
+   * @returns {string[]} result.errors - one message per violated rule
+   */
+  validate(password: string): PasswordValidationResult {
+    const errors: string[] = [];
+
+    if (password.length < this.rules.minimumLength) {
+      errors.push(`password must be at least ${this.rules.minimumLength} characters long`);
+    }
+    if (this.rules.requireUppercase && !/[A-Z]/.test(password)) {
+      errors.push('password must contain an uppercase letter');
+    }
+    if (this.rules.requireLowercase && !/[a-z]/.test(password)) {
+      errors.push('password must contain a lowercase letter');
+    }
+    if (this.rules.requireNumbers && !/[0-9]/.test(password)) {
+      errors.push('password must contain a number');
+    }
+    if (this.rules.requireSymbols && !SYMBOLS.test(password)) {
+      errors.push('password must contain a symbol');
+    }
+    if (/^\s|\s$/.test(password)) {
+      errors.push('password must not start or end with a space');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * generate a random password satisfying the policy, e.g. a temporary password
+   * @param {number} [length] - the length of the password (at least the minimum length, default 16)
+   * @returns {string} - the generated password
+   */
+  generate(length = 16): string {
+    const required = [
+      this.rules.requireUppercase && UPPERCASE,
+      this.rules.requireLowercase && LOWERCASE,
+      this.rules.requireNumbers && NUMBERS,
+      this.rules.requireSymbols && GENERATED_SYMBOLS,
+    ].filter((characters): characters is string => Boolean(characters));
+    const all = UPPERCASE + LOWERCASE + NUMBERS + GENERATED_SYMBOLS;
+
+    const characters = required.map(pick);
+    const size = Math.max(length, this.rules.minimumLength, characters.length);
+    while (characters.length < size) {
+      characters.push(pick(all));
+    }
+
+    // shuffle so the required characters are not always first
+    for (let i = characters.length - 1; i > 0; i--) {
+      const j = randomInt(i + 1);
+      [characters[i], characters[j]] = [characters[j] as string, characters[i] as string];
+    }
+
+    return characters.join('');
+  }
+}
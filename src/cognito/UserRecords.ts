@@ -0,0 +1,184 @@
+import { CreateUserParams, ParseUserRecordsOptions, UserImportFormat } from './types';
+
+// csv columns mapped to the matching CreateUserParams fields, any other column is an attribute
+const KNOWN_COLUMNS = ['username', 'email', 'phoneNumber', 'temporaryPassword', 'isVerified'];
+
+// first characters making spreadsheets evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// cells escaped by toCsvLine with a leading quote
+const ESCAPED_FORMULA_PREFIX = /^'[=+\-@\t\r]/;
+
+/**
+ * parse csv content into rows of cells
+ * @param {string} content - the csv content (rfc 4180, quoted cells may contain commas and newlines)
+ * @returns {string[][]} - the rows, empty lines are skipped
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = (): void => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('invalid csv: unterminated quoted cell');
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * format cells as a csv line, quoting them when needed
+ * @description cells starting with =, +, -, @, a tab or a carriage return are prefixed with a
+ * quote so that spreadsheets do not evaluate them as formulas (`parseUserRecords` removes it with
+ * the `unescapeFormulas` option)
+ * @param {string[]} cells - the cell values
+ * @returns {string} - the csv line, without line break
+ */
+export function toCsvLine(cells: string[]): string {
+  return cells
+    .map((cell) => (FORMULA_PREFIX.test(cell) ? `'${cell}` : cell))
+    .map((cell) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+    .join(',');
+}
+
+/**
+ * validate a json user record
+ * @param {unknown} record - the parsed record
+ * @param {number} index - the position of the record, for error messages
+ * @returns {CreateUserParams} - the user record
+ */
+function toUserRecord(record: unknown, index: number): CreateUserParams {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new Error(`invalid json: user record ${index} is not an object`);
+  }
+
+  const { username, email, phoneNumber, temporaryPassword, isVerified, additionalAttributes } =
+    record as Record<string, unknown>;
+  if (typeof username !== 'string' || !username || typeof email !== 'string' || !email) {
+    throw new Error(`invalid json: user record ${index} needs a username and an email`);
+  }
+
+  const isOptionalString = (value: unknown): boolean =>
+    value === undefined || typeof value === 'string';
+  const isAttributeMap =
+    additionalAttributes === undefined ||
+    (!!additionalAttributes &&
+      typeof additionalAttributes === 'object' &&
+      Object.values(additionalAttributes).every((value) => typeof value === 'string'));
+  if (
+    !isOptionalString(phoneNumber) ||
+    !isOptionalString(temporaryPassword) ||
+    (isVerified !== undefined && typeof isVerified !== 'boolean') ||
+    !isAttributeMap
+  ) {
+    throw new Error(`invalid json: user record ${index} has fields of the wrong type`);
+  }
+
+  return {
+    username,
+    email,
+    isVerified: isVerified === true,
+    ...(typeof phoneNumber === 'string' && phoneNumber && { phoneNumber }),
+    ...(typeof temporaryPassword === 'string' && temporaryPassword && { temporaryPassword }),
+    ...(additionalAttributes !== undefined && {
+      additionalAttributes: additionalAttributes as Record<string, string>,
+    }),
+  };
+}
+
+/**
+ * parse user records for a bulk import
+ * @description csv content needs a header line with a `username` and an `email` column, the
+ * `phoneNumber`, `temporaryPassword` and `isVerified` columns are optional and any other column is
+ * imported as an attribute (e.g. `custom:tenant`). json content is an array of CreateUserParams,
+ * each with a username and an email, jsonl content has one of them per line (as written by
+ * `exportUsers`)
+ * @param {string} content - the file content
+ * @param {UserImportFormat} format - "csv", "json" or "jsonl"
+ * @param {ParseUserRecordsOptions} [options] - options for the parsing
+ * @param {boolean} [options.unescapeFormulas] - remove the quote prefixed by `exportUsers` to csv
+ * cells evaluated as formulas
+ * @returns {CreateUserParams[]} - the user records
+ */
+export function parseUserRecords(
+  content: string,
+  format: UserImportFormat,
+  options: ParseUserRecordsOptions = {},
+): CreateUserParams[] {
+  if (format === 'json') {
+    const records = JSON.parse(content);
+    if (!Array.isArray(records)) {
+      throw new Error('invalid json: expected an array of user records');
+    }
+    return records.map(toUserRecord);
+  }
+
+  if (format === 'jsonl') {
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line, index) => toUserRecord(JSON.parse(line), index));
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  if (!header || !header.includes('username') || !header.includes('email')) {
+    throw new Error('invalid csv: the header must contain the username and email columns');
+  }
+
+  return rows.map((cells) => {
+    const values: Record<string, string> = {};
+    header.forEach((column, index) => {
+      const value = cells[index];
+      if (value) {
+        values[column] =
+          options.unescapeFormulas && ESCAPED_FORMULA_PREFIX.test(value) ? value.slice(1) : value;
+      }
+    });
+
+    const additionalAttributes = Object.fromEntries(
+      Object.entries(values).filter(([column]) => !KNOWN_COLUMNS.includes(column)),
+    );
+
+    return {
+      username: values.username || '',
+      email: values.email || '',
+      isVerified: values.isVerified === 'true',
+      ...(values.phoneNumber && { phoneNumber: values.phoneNumber }),
+      ...(values.temporaryPassword && { temporaryPassword: values.temporaryPassword }),
+      ...(Object.keys(additionalAttributes).length && { additionalAttributes }),
+    };
+  });
+}
@@ -0,0 +1,369 @@
+import {
+  AdminGetUserCommand,
+  CognitoIdentityProviderClient,
+  CreateUserPoolClientCommand,
+  CreateUserPoolCommand,
+  DescribeUserPoolClientCommand,
+  DescribeUserPoolCommand,
+  ListUserPoolClientsCommand,
+  ResourceNotFoundException,
+  UpdateUserPoolClientCommand,
+  UpdateUserPoolCommand,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { Logger } from '@nestjs/common';
+import { mockClient } from 'aws-sdk-client-mock';
+
+import { CognitoAdminService } from '../CognitoAdminService';
+import { ResourceNotFoundError } from '../CognitoErrors';
+
+// Mock AWS SDK client
+const mockCognitoClient = mockClient(CognitoIdentityProviderClient);
+
+// Mock Logger
+jest.mock('@nestjs/common', () => ({
+  Logger: jest.fn().mockImplementation(() => ({
+    error: jest.fn(),
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+describe('CognitoAdminService', () => {
+  let adminService: CognitoAdminService;
+  let mockLogger: jest.Mocked<Logger>;
+
+  beforeEach(() => {
+    mockCognitoClient.reset();
+    mockLogger = new Logger() as jest.Mocked<Logger>;
+    adminService = new CognitoAdminService({ region: 'eu-west-1', logger: mockLogger });
+  });
+
+  describe('user pools', () => {
+    it('should create a user pool with the default password policy', async () => {
+      // Arrange
+      mockCognitoClient.on(CreateUserPoolCommand).resolves({
+        UserPool: {
+          Id: 'eu-west-1_tenant',
+          Name: 'tenant-acme',
+          Policies: { PasswordPolicy: { MinimumLength: 10, RequireSymbols: false } },
+          UsernameAttributes: ['email'],
+          DeletionProtection: 'ACTIVE',
+          UserPoolTags: { tenant: 'acme' },
+        },
+      });
+
+      // Act
+      const result = await adminService.createUserPool({
+        poolName: 'tenant-acme',
+        passwordPolicy: { minimumLength: 10, requireSymbols: false },
+        usernameAttributes: ['email'],
+        customAttributes: [{ name: 'tenant_id', mutable: false }],
+        deletionProtection: true,
+        tags: { tenant: 'acme' },
+      });
+
+      // Assert
+      expect(result).toEqual({
+        id: 'eu-west-1_tenant',
+        name: 'tenant-acme',
+        passwordPolicy: {
+          minimumLength: 10,
+          requireUppercase: true,
+          requireLowercase: true,
+          requireNumbers: true,
+          requireSymbols: false,
+        },
+        usernameAttributes: ['email'],
+        autoVerifiedAttributes: [],
+        deletionProtection: true,
+        tags: { tenant: 'acme' },
+      });
+      expect(mockCognitoClient.commandCalls(CreateUserPoolCommand)[0]?.args[0].input).toEqual({
+        PoolName: 'tenant-acme',
+        Policies: {
+          PasswordPolicy: {
+            MinimumLength: 10,
+            RequireUppercase: true,
+            RequireLowercase: true,
+            RequireNumbers: true,
+            RequireSymbols: false,
+          },
+        },
+        UsernameAttributes: ['email'],
+        Schema: [{ Name: 'tenant_id', AttributeDataType: 'String', Mutable: false }],
+        DeletionProtection: 'ACTIVE',
+        UserPoolTags: { tenant: 'acme' },
+      });
+    });
+
+    it('should keep the current settings when updating a user pool', async () => {
+      // Arrange
+      mockCognitoClient.on(DescribeUserPoolCommand).resolves({
+        UserPool: {
+          Id: 'eu-west-1_tenant',
+          Policies: {
+            PasswordPolicy: { MinimumLength: 12, TemporaryPasswordValidityDays: 3 },
+            SignInPolicy: { AllowedFirstAuthFactors: ['PASSWORD'] },
+          },
+          LambdaConfig: { PreSignUp: 'arn:aws:lambda:eu-west-1:123456789012:function:pre-sign-up' },
+          MfaConfiguration: 'OPTIONAL',
+          UserPoolTags: { tenant: 'acme' },
+        },
+      });
+      mockCognitoClient.on(UpdateUserPoolCommand).resolves({});
+
+      // Act
+      const result = await adminService.updateUserPool({
+        userPoolId: 'eu-west-1_tenant',
+        passwordPolicy: { requireSymbols: false },
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const input = mockCognitoClient.commandCalls(UpdateUserPoolCommand)[0]?.args[0].input;
+      expect(input?.Policies).toEqual({
+        PasswordPolicy: {
+          MinimumLength: 12,
+          RequireUppercase: true,
+          RequireLowercase: true,
+          RequireNumbers: true,
+          RequireSymbols: false,
+          TemporaryPasswordValidityDays: 3,
+        },
+        SignInPolicy: { AllowedFirstAuthFactors: ['PASSWORD'] },
+      });
+      expect(input?.LambdaConfig).toEqual({
+        PreSignUp: 'arn:aws:lambda:eu-west-1:123456789012:function:pre-sign-up',
+      });
+      expect(input?.MfaConfiguration).toBe('OPTIONAL');
+      expect(input?.UserPoolTags).toEqual({ tenant: 'acme' });
+    });
+
+    it('should return null when the user pool does not exist', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(DescribeUserPoolCommand)
+        .rejects(new ResourceNotFoundException({ message: 'not found', $metadata: {} }));
+
+      // Act
+      const result = await adminService.describeUserPool('eu-west-1_missing');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should throw typed errors in throwing mode', async () => {
+      // Arrange
+      const throwingService = new CognitoAdminService({
+        region: 'eu-west-1',
+        logger: mockLogger,
+        throwOnError: true,
+      });
+      mockCognitoClient
+        .on(DescribeUserPoolCommand)
+        .rejects(new ResourceNotFoundException({ message: 'not found', $metadata: {} }));
+
+      // Act & Assert
+      await expect(throwingService.describeUserPool('eu-west-1_missing')).rejects.toThrow(
+        ResourceNotFoundError,
+      );
+    });
+  });
+
+  describe('app clients', () => {
+    it('should create an app client with token validity and oauth settings', async () => {
+      // Arrange
+      mockCognitoClient.on(CreateUserPoolClientCommand).resolves({
+        UserPoolClient: {
+          UserPoolId: 'eu-west-1_tenant',
+          ClientId: 'client-id',
+          ClientName: 'backend',
+          ClientSecret: 'client-secret',
+          AccessTokenValidity: 900,
+          IdTokenValidity: 900,
+          RefreshTokenValidity: 604800,
+          TokenValidityUnits: {
+            AccessToken: 'seconds',
+            IdToken: 'seconds',
+            RefreshToken: 'seconds',
+          },
+          AllowedOAuthFlows: ['code'],
+          CallbackURLs: ['https://acme.example.com/callback'],
+          ReadAttributes: ['email'],
+          PreventUserExistenceErrors: 'ENABLED',
+          EnableTokenRevocation: true,
+        },
+      });
+
+      // Act
+      const result = await adminService.createAppClient({
+        userPoolId: 'eu-west-1_tenant',
+        clientName: 'backend',
+        generateSecret: true,
+        tokenValidity: {
+          accessTokenSeconds: 900,
+          idTokenSeconds: 900,
+          refreshTokenSeconds: 604800,
+        },
+        allowedOAuthFlows: ['code'],
+        allowedOAuthScopes: ['openid', 'email'],
+        callbackUrls: ['https://acme.example.com/callback'],
+        readAttributes: ['email'],
+        writeAttributes: ['email'],
+      });
+
+      // Assert
+      expect(result?.clientSecret).toBe('client-secret');
+      expect(result?.tokenValidity).toEqual({
+        accessTokenSeconds: 900,
+        idTokenSeconds: 900,
+        refreshTokenSeconds: 604800,
+      });
+      expect(result?.preventUserExistenceErrors).toBe(true);
+      expect(mockCognitoClient.commandCalls(CreateUserPoolClientCommand)[0]?.args[0].input).toEqual(
+        {
+          UserPoolId: 'eu-west-1_tenant',
+          ClientName: 'backend',
+          GenerateSecret: true,
+          PreventUserExistenceErrors: 'ENABLED',
+          EnableTokenRevocation: true,
+          AccessTokenValidity: 900,
+          IdTokenValidity: 900,
+          RefreshTokenValidity: 604800,
+          TokenValidityUnits: {
+            AccessToken: 'seconds',
+            IdToken: 'seconds',
+            RefreshToken: 'seconds',
+          },
+          AllowedOAuthFlows: ['code'],
+          AllowedOAuthFlowsUserPoolClient: true,
+          AllowedOAuthScopes: ['openid', 'email'],
+          CallbackURLs: ['https://acme.example.com/callback'],
+          ReadAttributes: ['email'],
+          WriteAttributes: ['email'],
+        },
+      );
+    });
+
+    it('should convert the token validity units of a described app client', async () => {
+      // Arrange
+      mockCognitoClient.on(DescribeUserPoolClientCommand).resolves({
+        UserPoolClient: {
+          ClientId: 'client-id',
+          AccessTokenValidity: 30,
+          IdTokenValidity: 1,
+          RefreshTokenValidity: 7,
+          TokenValidityUnits: { AccessToken: 'minutes' },
+        },
+      });
+
+      // Act
+      const result = await adminService.describeAppClient('eu-west-1_tenant', 'client-id');
+
+      // Assert
+      expect(result?.tokenValidity).toEqual({
+        accessTokenSeconds: 1800,
+        idTokenSeconds: 3600,
+        refreshTokenSeconds: 604800,
+      });
+    });
+
+    it('should keep the current settings when updating an app client', async () => {
+      // Arrange
+      mockCognitoClient.on(DescribeUserPoolClientCommand).resolves({
+        UserPoolClient: {
+          ClientId: 'client-id',
+          ClientName: 'backend',
+          AccessTokenValidity: 1,
+          IdTokenValidity: 1,
+          RefreshTokenValidity: 30,
+          ExplicitAuthFlows: ['ALLOW_REFRESH_TOKEN_AUTH'],
+          CallbackURLs: ['https://acme.example.com/callback'],
+          EnableTokenRevocation: true,
+        },
+      });
+      mockCognitoClient.on(UpdateUserPoolClientCommand).resolves({});
+
+      // Act
+      const result = await adminService.updateAppClient({
+        userPoolId: 'eu-west-1_tenant',
+        clientId: 'client-id',
+        tokenValidity: { accessTokenSeconds: 600 },
+        logoutUrls: ['https://acme.example.com/logout'],
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const input = mockCognitoClient.commandCalls(UpdateUserPoolClientCommand)[0]?.args[0].input;
+      expect(input).toEqual(
+        expect.objectContaining({
+          ClientName: 'backend',
+          AccessTokenValidity: 600,
+          IdTokenValidity: 3600,
+          RefreshTokenValidity: 2592000,
+          TokenValidityUnits: {
+            AccessToken: 'seconds',
+            IdToken: 'seconds',
+            RefreshToken: 'seconds',
+          },
+          ExplicitAuthFlows: ['ALLOW_REFRESH_TOKEN_AUTH'],
+          CallbackURLs: ['https://acme.example.com/callback'],
+          LogoutURLs: ['https://acme.example.com/logout'],
+          EnableTokenRevocation: true,
+        }),
+      );
+    });
+
+    it('should list the app clients of every page', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(ListUserPoolClientsCommand)
+        .resolvesOnce({
+          UserPoolClients: [{ ClientId: 'first-id', ClientName: 'first' }],
+          NextToken: 'next-token',
+        })
+        .resolvesOnce({ UserPoolClients: [{ ClientId: 'second-id', ClientName: 'second' }] });
+
+      // Act
+      const result = await adminService.listAppClients('eu-west-1_tenant');
+
+      // Assert
+      expect(result).toEqual([
+        { clientId: 'first-id', clientName: 'first' },
+        { clientId: 'second-id', clientName: 'second' },
+      ]);
+      expect(mockCognitoClient.commandCalls(ListUserPoolClientsCommand)[1]?.args[0].input).toEqual({
+        UserPoolId: 'eu-west-1_tenant',
+        NextToken: 'next-token',
+      });
+    });
+  });
+
+  describe('createCognitoService', () => {
+    it('should create services bound to the tenant user pool', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminGetUserCommand).resolves({
+        Username: 'john',
+        UserAttributes: [{ Name: 'email', Value: 'john@acme.example.com' }],
+      });
+
+      // Act
+      const cognitoService = adminService.createCognitoService({
+        userPoolId: 'eu-west-1_tenant',
+        clientId: 'client-id',
+        enableCognitoEmail: false,
+        logger: mockLogger,
+      });
+      const result = await cognitoService.getUserDetails('john');
+
+      // Assert
+      expect(result?.email).toBe('john@acme.example.com');
+      expect(mockCognitoClient.commandCalls(AdminGetUserCommand)[0]?.args[0].input).toEqual({
+        UserPoolId: 'eu-west-1_tenant',
+        Username: 'john',
+      });
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+
+import { COGNITO_AUTH_GUARD_OPTIONS, CognitoAuthGuard } from '../CognitoAuthGuard';
+import { CurrentUser, Groups, Public } from '../CognitoDecorators';
+import { CognitoModule } from '../CognitoModule';
+import { CognitoService } from '../CognitoService';
+import { CognitoAuthUser, CognitoTokenUse, VerifyTokenResult } from '../types';
+
+const config = {
+  region: 'us-east-1',
+  userPoolId: 'us-east-1_testpool',
+  clientId: 'test-client-id',
+  enableCognitoEmail: false,
+};
+
+class TestController {
+  open(): void {}
+
+  @Public()
+  publicRoute(): void {}
+
+  @Groups('admin', 'editors')
+  adminRoute(): void {}
+
+  profile(@CurrentUser() _user: CognitoAuthUser, @CurrentUser('username') _name: string): void {}
+}
+
+@Groups('admin')
+class AdminController {
+  list(): void {}
+
+  @Public()
+  health(): void {}
+}
+
+const claims = {
+  sub: 'user-sub',
+  iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_testpool',
+  token_use: 'access' as const,
+  iat: 0,
+  exp: 0,
+};
+
+const createContext = (
+  handler: (...args: never[]) => void,
+  controller: object,
+  request: Record<string, unknown>,
+): ExecutionContext =>
+  ({
+    getHandler: () => handler,
+    getClass: () => controller,
+    switchToHttp: () => ({ getRequest: () => request }),
+  }) as unknown as ExecutionContext;
+
+describe('CognitoAuthGuard', () => {
+  let verifyJwt: jest.Mock<Promise<VerifyTokenResult>, [string, CognitoTokenUse?]>;
+  let guard: CognitoAuthGuard;
+
+  const validResult: VerifyTokenResult = {
+    success: true,
+    username: 'testuser',
+    groups: ['editors'],
+    claims: { ...claims, 'cognito:groups': ['editors'] },
+  };
+
+  beforeEach(() => {
+    verifyJwt = jest.fn().mockResolvedValue(validResult);
+    guard = new CognitoAuthGuard({ verifyJwt } as unknown as CognitoService, new Reflector());
+  });
+
+  it('should declare the cognito service, reflector and options as dependencies for injection', () => {
+    expect(Reflect.getMetadata('design:paramtypes', CognitoAuthGuard)).toEqual([
+      CognitoService,
+      Reflector,
+      Object,
+    ]);
+  });
+
+  it('should authenticate the request and set the user', async () => {
+    // Arrange
+    const request: Record<string, unknown> = { headers: { authorization: 'Bearer access-token' } };
+
+    // Act
+    const result = await guard.canActivate(
+      createContext(TestController.prototype.open, TestController, request),
+    );
+
+    // Assert
+    expect(result).toBe(true);
+    expect(verifyJwt).toHaveBeenCalledWith('access-token', 'access');
+    expect(request.user).toEqual({
+      username: 'testuser',
+      groups: ['editors'],
+      claims: validResult.claims,
+    });
+  });
+
+  it('should verify the configured token use', async () => {
+    // Arrange
+    const idTokenGuard = new CognitoAuthGuard(
+      { verifyJwt } as unknown as CognitoService,
+      new Reflector(),
+      { tokenUse: 'id' },
+    );
+    const context = createContext(TestController.prototype.open, TestController, {
+      headers: { authorization: 'Bearer id-token' },
+    });
+
+    // Act
+    await idTokenGuard.canActivate(context);
+
+    // Assert
+    expect(verifyJwt).toHaveBeenCalledWith('id-token', 'id');
+  });
+
+  it('should reject a request without bearer token', async () => {
+    // Arrange
+    const context = createContext(TestController.prototype.open, TestController, {
+      headers: { authorization: 'Basic dXNlcjpwYXNz' },
+    });
+
+    // Act & Assert
+    await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+    expect(verifyJwt).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid token', async () => {
+    // Arrange
+    verifyJwt.mockResolvedValue({ success: false, error: 'token expired' });
+    const context = createContext(TestController.prototype.open, TestController, {
+      headers: { authorization: 'Bearer expired-token' },
+    });
+
+    // Act & Assert
+    await expect(guard.canActivate(context)).rejects.toThrow('invalid token');
+  });
+
+  it('should reject an invalid token when the service throws', async () => {
+    // Arrange
+    verifyJwt.mockRejectedValue(new Error('token expired'));
+    const context = createContext(TestController.prototype.open, TestController, {
+      headers: { authorization: 'Bearer expired-token' },
+    });
+
+    // Act & Assert
+    await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should let public routes through without token', async () => {
+    // Arrange
+    const context = createContext(TestController.prototype.publicRoute, TestController, {
+      headers: {},
+    });
+
+    // Act
+    const result = await guard.canActivate(context);
+
+    // Assert
+    expect(result).toBe(true);
+  });
+
+  it('should allow members of one of the required groups', async () => {
+    // Arrange
+    const context = createContext(TestController.prototype.adminRoute, TestController, {
+      headers: { authorization: 'Bearer access-token' },
+    });
+
+    // Act & Assert
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+  });
+
+  it('should forbid users outside of the required groups', async () => {
+    // Arrange
+    const context = createContext(AdminController.prototype.list, AdminController, {
+      headers: { authorization: 'Bearer access-token' },
+    });
+
+    // Act & Assert
+    await expect(guard.canActivate(context)).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should let route metadata override controller metadata', async () => {
+    // Arrange
+    const context = createContext(AdminController.prototype.health, AdminController, {
+      headers: {},
+    });
+
+    // Act & Assert
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+  });
+});
+
+describe('CurrentUser', () => {
+  const user: CognitoAuthUser = { username: 'testuser', groups: [], claims };
+
+  it.each([
+    [0, user],
+    [1, 'testuser'],
+  ])('should inject the user or one of its properties (parameter %i)', (index, expected) => {
+    // Arrange
+    const args = Reflect.getMetadata(ROUTE_ARGS_METADATA, TestController, 'profile');
+    const { factory, data } = Object.values(args).find(
+      (arg) => (arg as { index: number }).index === index,
+    ) as { factory: (data: unknown, context: ExecutionContext) => unknown; data: unknown };
+    const context = createContext(TestController.prototype.profile, TestController, { user });
+
+    // Act
+    const result = factory(data, context);
+
+    // Assert
+    expect(result).toEqual(expected);
+  });
+});
+
+describe('CognitoModule', () => {
+  it('should provide the service and guard from a static configuration', () => {
+    // Act
+    const module = CognitoModule.forRoot(config, { isGlobal: true, tokenUse: 'id' });
+
+    // Assert
+    expect(module.module).toBe(CognitoModule);
+    expect(module.global).toBe(true);
+    expect(module.exports).toEqual([CognitoService, COGNITO_AUTH_GUARD_OPTIONS, CognitoAuthGuard]);
+    expect(module.providers).toContainEqual({
+      provide: COGNITO_AUTH_GUARD_OPTIONS,
+      useValue: { tokenUse: 'id' },
+    });
+    expect(module.providers).toContainEqual({
+      provide: CognitoService,
+      useValue: expect.any(CognitoService),
+    });
+  });
+
+  it('should build the service from an async configuration factory', async () => {
+    // Arrange
+    const useFactory = jest.fn().mockResolvedValue(config);
+    const module = CognitoModule.forRootAsync({ inject: ['CONFIG'], useFactory });
+    const provider = module.providers?.[0] as {
+      useFactory: (...args: unknown[]) => Promise<CognitoService>;
+      inject: unknown[];
+    };
+
+    // Act
+    const service = await provider.useFactory('config-value');
+
+    // Assert
+    expect(module.global).toBe(false);
+    expect(provider.inject).toEqual(['CONFIG']);
+    expect(useFactory).toHaveBeenCalledWith('config-value');
+    expect(service).toBeInstanceOf(CognitoService);
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  CodeMismatchException,
+  InvalidPasswordException,
+  NotAuthorizedException,
+  TooManyRequestsException,
+  UsernameExistsException,
+  UserNotFoundException,
+} from '@aws-sdk/client-cognito-identity-provider';
+
+import {
+  CodeMismatchError,
+  CognitoError,
+  getCognitoErrorCode,
+  InvalidPasswordError,
+  LimitExceededError,
+  NotAuthorizedError,
+  toCognitoError,
+  UserAlreadyExistsError,
+  UserNotFoundError,
+} from '../CognitoErrors';
+
+describe('CognitoErrors', () => {
+  describe('toCognitoError', () => {
+    it.each([
+      [
+        new UserNotFoundException({ message: 'User does not exist.', $metadata: {} }),
+        UserNotFoundError,
+      ],
+      [
+        new UsernameExistsException({ message: 'User exists.', $metadata: {} }),
+        UserAlreadyExistsError,
+      ],
+      [
+        new InvalidPasswordException({ message: 'Too short.', $metadata: {} }),
+        InvalidPasswordError,
+      ],
+      [
+        new NotAuthorizedException({ message: 'Wrong password.', $metadata: {} }),
+        NotAuthorizedError,
+      ],
+      [new CodeMismatchException({ message: 'Wrong code.', $metadata: {} }), CodeMismatchError],
+      [new TooManyRequestsException({ message: 'Slow down.', $metadata: {} }), LimitExceededError],
+    ])('should map %s', (sdkError, ErrorClass) => {
+      // Act
+      const error = toCognitoError(sdkError);
+
+      // Assert
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toBeInstanceOf(CognitoError);
+      expect(error.name).toBe(ErrorClass.name);
+      expect(error.code).toBe(sdkError.name);
+      expect(error.message).toBe(sdkError.message);
+      expect(error.originalError).toBe(sdkError);
+    });
+
+    it('should map unknown exceptions to the base class', () => {
+      // Arrange
+      const sdkError = Object.assign(new Error('Internal failure'), {
+        name: 'InternalErrorException',
+      });
+
+      // Act
+      const error = toCognitoError(sdkError);
+
+      // Assert
+      expect(error.constructor).toBe(CognitoError);
+      expect(error.code).toBe('InternalErrorException');
+    });
+
+    it('should map non cognito errors to an unknown error', () => {
+      // Act
+      const error = toCognitoError('network down');
+
+      // Assert
+      expect(error.constructor).toBe(CognitoError);
+      expect(error.code).toBe('UnknownError');
+      expect(error.message).toBe('network down');
+    });
+
+    it('should return cognito errors unchanged', () => {
+      // Arrange
+      const original = new UserNotFoundError('missing', 'UserNotFoundException');
+
+      // Act & Assert
+      expect(toCognitoError(original)).toBe(original);
+    });
+  });
+
+  describe('getCognitoErrorCode', () => {
+    it('should return the exception name of cognito exceptions only', () => {
+      expect(
+        getCognitoErrorCode(new UserNotFoundException({ message: 'missing', $metadata: {} })),
+      ).toBe('UserNotFoundException');
+      expect(getCognitoErrorCode(new NotAuthorizedError('expired', 'NotAuthorizedException'))).toBe(
+        'NotAuthorizedException',
+      );
+      expect(getCognitoErrorCode(new Error('Test error'))).toBeUndefined();
+      expect(getCognitoErrorCode('Test error')).toBeUndefined();
+    });
+  });
+});
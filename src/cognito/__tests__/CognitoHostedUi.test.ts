@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+import { Logger } from '@nestjs/common';
+
+import { CognitoHostedUi, generatePkce } from '../CognitoHostedUi';
+
+describe('CognitoHostedUi', () => {
+  const config = {
+    domain: 'myapp.auth.us-east-1.amazoncognito.com',
+    clientId: 'test-client-id',
+    redirectUri: 'https://app.example.com/callback',
+  };
+
+  let logger: Logger;
+  let fetchSpy: jest.SpyInstance;
+
+  const tokenResponse = (status: number, body: Record<string, unknown>): Response =>
+    ({ ok: status < 400, status, json: async () => body }) as Response;
+
+  beforeEach(() => {
+    logger = { error: jest.fn() } as unknown as Logger;
+    fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+      tokenResponse(200, {
+        access_token: 'access-token',
+        id_token: 'id-token',
+        refresh_token: 'refresh-token',
+        expires_in: 3600,
+        token_type: 'Bearer',
+      }),
+    );
+  });
+
+  describe('generatePkce', () => {
+    it('should generate a verifier and its s256 challenge', () => {
+      // Act
+      const { codeVerifier, codeChallenge } = generatePkce();
+
+      // Assert
+      expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(codeChallenge).toBe(createHash('sha256').update(codeVerifier).digest('base64url'));
+      expect(generatePkce().codeVerifier).not.toBe(codeVerifier);
+    });
+  });
+
+  describe('getAuthorizeUrl', () => {
+    it('should build the authorize url with the default settings', () => {
+      // Arrange
+      const hostedUi = new CognitoHostedUi({ ...config, logger });
+
+      // Act
+      const url = new URL(hostedUi.getAuthorizeUrl());
+
+      // Assert
+      expect(url.origin).toBe('https://myapp.auth.us-east-1.amazoncognito.com');
+      expect(url.pathname).toBe('/oauth2/authorize');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        response_type: 'code',
+        client_id: 'test-client-id',
+        redirect_uri: 'https://app.example.com/callback',
+        scope: 'openid email profile',
+      });
+    });
+
+    it('should add the pkce challenge, state and identity provider', () => {
+      // Arrange
+      const hostedUi = new CognitoHostedUi({
+        ...config,
+        domain: 'https://auth.example.com/',
+        logger,
+      });
+
+      // Act
+      const url = new URL(
+        hostedUi.getAuthorizeUrl({
+          state: 'csrf-state',
+          codeChallenge: 'code-challenge',
+          identityProvider: 'Google',
+          scopes: ['openid'],
+          nonce: 'nonce',
+        }),
+      );
+
+      // Assert
+      expect(url.origin).toBe('https://auth.example.com');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        response_type: 'code',
+        client_id: 'test-client-id',
+        redirect_uri: 'https://app.example.com/callback',
+        scope: 'openid',
+        state: 'csrf-state',
+        identity_provider: 'Google',
+        nonce: 'nonce',
+        code_challenge: 'code-challenge',
+        code_challenge_method: 'S256',
+      });
+    });
+  });
+
+  describe('exchangeCode', () => {
+    it('should exchange the code at the token endpoint', async () => {
+      // Arrange
+      const hostedUi = new CognitoHostedUi({ ...config, logger });
+
+      // Act
+      const result = await hostedUi.exchangeCode({ code: 'auth-code', codeVerifier: 'verifier' });
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        accessToken: 'access-token',
+        idToken: 'id-token',
+        refreshToken: 'refresh-token',
+        expiresIn: 3600,
+        tokenType: 'Bearer',
+      });
+      const [url, init] = fetchSpy.mock.calls[0];
+      expect(url).toBe('https://myapp.auth.us-east-1.amazoncognito.com/oauth2/token');
+      expect(init.method).toBe('POST');
+      expect(init.headers).toEqual({ 'Content-Type': 'application/x-www-form-urlencoded' });
+      expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+        client_id: 'test-client-id',
+        grant_type: 'authorization_code',
+        code: 'auth-code',
+        redirect_uri: 'https://app.example.com/callback',
+        code_verifier: 'verifier',
+      });
+    });
+
+    it('should authenticate confidential clients with basic auth', async () => {
+      // Arrange
+      const hostedUi = new CognitoHostedUi({ ...config, clientSecret: 'secret', logger });
+
+      // Act
+      await hostedUi.exchangeCode({ code: 'auth-code' });
+
+      // Assert
+      const [, init] = fetchSpy.mock.calls[0];
+      expect(init.headers.Authorization).toBe(
+        `Basic ${Buffer.from('test-client-id:secret').toString('base64')}`,
+      );
+    });
+
+    it('should report oauth errors', async () => {
+      // Arrange
+      fetchSpy.mockResolvedValue(tokenResponse(400, { error: 'invalid_grant' }));
+      const hostedUi = new CognitoHostedUi({ ...config, logger });
+
+      // Act
+      const result = await hostedUi.exchangeCode({ code: 'used-code' });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'invalid_grant',
+        errorCode: 'invalid_grant',
+      });
+      expect(logger.error).toHaveBeenCalled();
+    });
+
+    it('should report network errors', async () => {
+      // Arrange
+      fetchSpy.mockRejectedValue(new Error('fetch failed'));
+      const hostedUi = new CognitoHostedUi({ ...config, logger });
+
+      // Act
+      const result = await hostedUi.exchangeCode({ code: 'auth-code' });
+
+      // Assert
+      expect(result).toEqual({ success: false, error: 'fetch failed' });
+    });
+  });
+
+  describe('refreshToken', () => {
+    it('should refresh the tokens and keep the refresh token', async () => {
+      // Arrange
+      fetchSpy.mockResolvedValue(
+        tokenResponse(200, {
+          access_token: 'new-access-token',
+          id_token: 'new-id-token',
+          expires_in: 3600,
+          token_type: 'Bearer',
+        }),
+      );
+      const hostedUi = new CognitoHostedUi({ ...config, logger });
+
+      // Act
+      const result = await hostedUi.refreshToken('refresh-token');
+
+      // Assert
+      expect(result.refreshToken).toBe('refresh-token');
+      expect(result.accessToken).toBe('new-access-token');
+      const [, init] = fetchSpy.mock.calls[0];
+      expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+        client_id: 'test-client-id',
+        grant_type: 'refresh_token',
+        refresh_token: 'refresh-token',
+      });
+    });
+  });
+});
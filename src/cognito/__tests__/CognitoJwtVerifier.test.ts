@@ -0,0 +1,286 @@
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CognitoJwtVerifier, decodeJwt } from '../CognitoJwtVerifier';
+import { FileJwksSource, RemoteJwksSource, StaticJwksSource } from '../JwksSource';
+import { Jwk } from '../types';
+
+const ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_testpool';
+
+const createKey = (kid: string): { privateKey: KeyObject; jwk: Jwk } => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return {
+    privateKey,
+    jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' } as Jwk,
+  };
+};
+
+const signToken = (
+  payload: Record<string, unknown>,
+  privateKey: KeyObject,
+  header: Record<string, unknown> = { alg: 'RS256', kid: 'key-1' },
+): string => {
+  const encode = (value: unknown): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = sign('RSA-SHA256', Buffer.from(signingInput), privateKey);
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+describe('CognitoJwtVerifier', () => {
+  const key = createKey('key-1');
+  const now = Math.floor(Date.now() / 1000);
+
+  const accessClaims = {
+    sub: 'user-sub',
+    iss: ISSUER,
+    token_use: 'access',
+    client_id: 'test-client-id',
+    username: 'testuser',
+    iat: now,
+    exp: now + 3600,
+  };
+
+  const idClaims = {
+    sub: 'user-sub',
+    iss: ISSUER,
+    token_use: 'id',
+    aud: 'test-client-id',
+    'cognito:username': 'testuser',
+    email: 'test@example.com',
+    iat: now,
+    exp: now + 3600,
+  };
+
+  let verifier: CognitoJwtVerifier;
+
+  beforeEach(() => {
+    verifier = new CognitoJwtVerifier({
+      region: 'us-east-1',
+      userPoolId: 'us-east-1_testpool',
+      clientId: 'test-client-id',
+      jwksSource: new StaticJwksSource({ keys: [key.jwk] }),
+    });
+  });
+
+  it('should verify a valid access token', async () => {
+    const claims = await verifier.verify(signToken(accessClaims, key.privateKey), 'access');
+
+    expect(claims).toEqual(accessClaims);
+  });
+
+  it('should verify a valid id token', async () => {
+    const claims = await verifier.verify(signToken(idClaims, key.privateKey), 'id');
+
+    expect(claims['cognito:username']).toBe('testuser');
+    expect(claims.email).toBe('test@example.com');
+  });
+
+  it('should reject a token signed with another key', async () => {
+    const otherKey = createKey('key-1');
+
+    await expect(verifier.verify(signToken(accessClaims, otherKey.privateKey))).rejects.toThrow(
+      'invalid token signature',
+    );
+  });
+
+  it('should reject a tampered payload', async () => {
+    const [header, , signature] = signToken(accessClaims, key.privateKey).split('.');
+    const payload = Buffer.from(JSON.stringify({ ...accessClaims, sub: 'other' })).toString(
+      'base64url',
+    );
+
+    await expect(verifier.verify(`${header}.${payload}.${signature}`)).rejects.toThrow(
+      'invalid token signature',
+    );
+  });
+
+  it('should reject an expired token', async () => {
+    const token = signToken({ ...accessClaims, exp: now - 10 }, key.privateKey);
+
+    await expect(verifier.verify(token)).rejects.toThrow('token expired');
+  });
+
+  it('should accept a recently expired token within the clock tolerance', async () => {
+    const tolerantVerifier = new CognitoJwtVerifier({
+      region: 'us-east-1',
+      userPoolId: 'us-east-1_testpool',
+      clientId: 'test-client-id',
+      jwksSource: new StaticJwksSource([key.jwk]),
+      clockToleranceSeconds: 60,
+    });
+    const token = signToken({ ...accessClaims, exp: now - 10 }, key.privateKey);
+
+    await expect(tolerantVerifier.verify(token)).resolves.toBeDefined();
+  });
+
+  it('should reject a token from another issuer', async () => {
+    const token = signToken({ ...accessClaims, iss: 'https://evil.example.com' }, key.privateKey);
+
+    await expect(verifier.verify(token)).rejects.toThrow('invalid token issuer');
+  });
+
+  it('should reject a token for another client', async () => {
+    const accessToken = signToken({ ...accessClaims, client_id: 'other' }, key.privateKey);
+    const idToken = signToken({ ...idClaims, aud: 'other' }, key.privateKey);
+
+    await expect(verifier.verify(accessToken)).rejects.toThrow('invalid token client id');
+    await expect(verifier.verify(idToken)).rejects.toThrow('invalid token client id');
+  });
+
+  it('should reject a token with the wrong token use', async () => {
+    const token = signToken(idClaims, key.privateKey);
+
+    await expect(verifier.verify(token, 'access')).rejects.toThrow(
+      'expected access token but got id token',
+    );
+  });
+
+  it('should reject unsupported algorithms', async () => {
+    const token = signToken(accessClaims, key.privateKey, { alg: 'HS256', kid: 'key-1' });
+
+    await expect(verifier.verify(token)).rejects.toThrow('unsupported token algorithm: HS256');
+  });
+
+  it('should reject malformed tokens', async () => {
+    await expect(verifier.verify('not-a-jwt')).rejects.toThrow('malformed token');
+    await expect(verifier.verify('a.b.c')).rejects.toThrow('malformed token');
+  });
+
+  it('should refresh the key set when the key id is unknown', async () => {
+    const rotatedKey = createKey('key-2');
+    const getKeys = jest
+      .fn()
+      .mockResolvedValueOnce([key.jwk])
+      .mockResolvedValueOnce([key.jwk, rotatedKey.jwk]);
+    const rotatingVerifier = new CognitoJwtVerifier({
+      region: 'us-east-1',
+      userPoolId: 'us-east-1_testpool',
+      clientId: 'test-client-id',
+      jwksSource: { getKeys },
+    });
+    const token = signToken(accessClaims, rotatedKey.privateKey, { alg: 'RS256', kid: 'key-2' });
+
+    await expect(rotatingVerifier.verify(token)).resolves.toBeDefined();
+    expect(getKeys).toHaveBeenNthCalledWith(2, true);
+  });
+
+  it('should stop trusting a key removed from the key set', async () => {
+    const rotatedKey = createKey('key-2');
+    const getKeys = jest.fn().mockResolvedValueOnce([key.jwk]).mockResolvedValue([rotatedKey.jwk]);
+    const rotatingVerifier = new CognitoJwtVerifier({
+      region: 'us-east-1',
+      userPoolId: 'us-east-1_testpool',
+      clientId: 'test-client-id',
+      jwksSource: { getKeys },
+    });
+    const token = signToken(accessClaims, key.privateKey);
+
+    await expect(rotatingVerifier.verify(token)).resolves.toBeDefined();
+    await expect(rotatingVerifier.verify(token)).rejects.toThrow('no jwk found for key id key-1');
+  });
+
+  it('should verify against the new key when a key id is reused', async () => {
+    const replacedKey = createKey('key-1');
+    const getKeys = jest.fn().mockResolvedValueOnce([key.jwk]).mockResolvedValue([replacedKey.jwk]);
+    const rotatingVerifier = new CognitoJwtVerifier({
+      region: 'us-east-1',
+      userPoolId: 'us-east-1_testpool',
+      clientId: 'test-client-id',
+      jwksSource: { getKeys },
+    });
+
+    await rotatingVerifier.verify(signToken(accessClaims, key.privateKey));
+
+    await expect(rotatingVerifier.verify(signToken(accessClaims, key.privateKey))).rejects.toThrow(
+      'invalid token signature',
+    );
+    await expect(
+      rotatingVerifier.verify(signToken(accessClaims, replacedKey.privateKey)),
+    ).resolves.toBeDefined();
+  });
+
+  it('should reject a token whose key id is not in the key set', async () => {
+    const token = signToken(accessClaims, key.privateKey, { alg: 'RS256', kid: 'missing' });
+
+    await expect(verifier.verify(token)).rejects.toThrow('no jwk found for key id missing');
+  });
+
+  describe('decodeJwt', () => {
+    it('should decode header and payload without verifying', () => {
+      const decoded = decodeJwt(signToken(accessClaims, key.privateKey));
+
+      expect(decoded.header).toEqual({ alg: 'RS256', kid: 'key-1' });
+      expect(decoded.payload).toEqual(accessClaims);
+    });
+
+    it.each(['"x"', 'null', '[]'])('should reject the payload %s', (payload) => {
+      const [header, , signature] = signToken(accessClaims, key.privateKey).split('.');
+      const token = `${header}.${Buffer.from(payload).toString('base64url')}.${signature}`;
+
+      expect(() => decodeJwt(token)).toThrow('malformed token');
+    });
+  });
+});
+
+describe('JwksSource', () => {
+  const key = createKey('key-1');
+
+  describe('FileJwksSource', () => {
+    it('should read keys from a local file', async () => {
+      const file = path.join(os.tmpdir(), `jwks-${process.pid}.json`);
+      await fs.writeFile(file, JSON.stringify({ keys: [key.jwk] }));
+
+      try {
+        const source = new FileJwksSource(file);
+
+        await expect(source.getKeys()).resolves.toEqual([key.jwk]);
+      } finally {
+        await fs.unlink(file);
+      }
+    });
+  });
+
+  describe('RemoteJwksSource', () => {
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => ({ keys: [key.jwk] }),
+      } as Response);
+    });
+
+    it('should download and cache the key set', async () => {
+      const source = new RemoteJwksSource(`${ISSUER}/.well-known/jwks.json`);
+
+      await expect(source.getKeys()).resolves.toEqual([key.jwk]);
+      await expect(source.getKeys()).resolves.toEqual([key.jwk]);
+      // forced refreshes right after a download are throttled
+      await expect(source.getKeys(true)).resolves.toEqual([key.jwk]);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(fetchSpy).toHaveBeenCalledWith(`${ISSUER}/.well-known/jwks.json`);
+    });
+
+    it('should download again when the cache is stale', async () => {
+      const source = new RemoteJwksSource(`${ISSUER}/.well-known/jwks.json`, -1);
+
+      await source.getKeys();
+      await source.getKeys();
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw when the download fails', async () => {
+      fetchSpy.mockResolvedValue({ ok: false, status: 500 } as Response);
+      const source = new RemoteJwksSource(`${ISSUER}/.well-known/jwks.json`);
+
+      await expect(source.getKeys()).rejects.toThrow(
+        `failed to fetch jwks from ${ISSUER}/.well-known/jwks.json: 500`,
+      );
+    });
+  });
+});
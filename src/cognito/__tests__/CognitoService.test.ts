@@ -1,17 +1,71 @@
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import { PassThrough } from 'stream';
 import { CognitoService } from '../CognitoService';
+import { StaticJwksSource } from '../JwksSource';
+import { parseUserRecords } from '../UserRecords';
+import { Jwk } from '../types';
 import {
   CognitoIdentityProviderClient,
   AdminSetUserPasswordCommand,
   AdminCreateUserCommand,
   AdminDeleteUserCommand,
   AdminUpdateUserAttributesCommand,
+  AdminDeleteUserAttributesCommand,
+  GetUserAttributeVerificationCodeCommand,
+  VerifyUserAttributeCommand,
   AdminEnableUserCommand,
+  AdminDisableUserCommand,
+  AdminConfirmSignUpCommand,
+  AdminUserGlobalSignOutCommand,
+  GlobalSignOutCommand,
+  RevokeTokenCommand,
   AdminInitiateAuthCommand,
   AdminRespondToAuthChallengeCommand,
   InitiateAuthCommand,
   AdminGetUserCommand,
   GetUserCommand,
+  AssociateSoftwareTokenCommand,
+  VerifySoftwareTokenCommand,
+  AdminSetUserMFAPreferenceCommand,
+  UsernameExistsException,
+  NotAuthorizedException,
+  UserNotFoundException,
+  SignUpCommand,
+  ConfirmSignUpCommand,
+  ResendConfirmationCodeCommand,
+  ForgotPasswordCommand,
+  ConfirmForgotPasswordCommand,
+  ChangePasswordCommand,
+  CodeMismatchException,
+  LimitExceededException,
+  ListUsersCommand,
+  CreateGroupCommand,
+  GetGroupCommand,
+  UpdateGroupCommand,
+  DeleteGroupCommand,
+  ListGroupsCommand,
+  AdminAddUserToGroupCommand,
+  AdminRemoveUserFromGroupCommand,
+  AdminListGroupsForUserCommand,
+  ListUsersInGroupCommand,
+  CreateIdentityProviderCommand,
+  AdminLinkProviderForUserCommand,
+  AdminDisableProviderForUserCommand,
+  ConfirmDeviceCommand,
+  ListDevicesCommand,
+  AdminForgetDeviceCommand,
+  UpdateDeviceStatusCommand,
+  DescribeUserPoolCommand,
+  AdminListUserAuthEventsCommand,
+  AuthEventType,
+  AdminUpdateAuthEventFeedbackCommand,
 } from '@aws-sdk/client-cognito-identity-provider';
+import {
+  InvalidPasswordError,
+  NotAuthorizedError,
+  UserAlreadyExistsError,
+  UserNotFoundError,
+} from '../CognitoErrors';
 import { Logger } from '@nestjs/common';
 import { mockClient } from 'aws-sdk-client-mock';
 
@@ -274,6 +328,25 @@ describe('CognitoService', () => {
       });
     });
 
+    it('should leave the new email unverified when requested', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminUpdateUserAttributesCommand).resolves({});
+
+      // Act
+      await cognitoService.changeUserEmail({
+        username: 'testuser',
+        newEmail: 'newemail@example.com',
+        isVerified: false,
+      });
+
+      // Assert
+      const commandCalls = mockCognitoClient.commandCalls(AdminUpdateUserAttributesCommand);
+      expect(commandCalls[0]?.args[0].input.UserAttributes).toEqual([
+        { Name: 'email', Value: 'newemail@example.com' },
+        { Name: 'email_verified', Value: 'false' },
+      ]);
+    });
+
     it('should handle error when changing email', async () => {
       // Arrange
       mockCognitoClient.on(AdminUpdateUserAttributesCommand).rejects(new Error('Test error'));
@@ -315,6 +388,25 @@ describe('CognitoService', () => {
       });
     });
 
+    it('should leave the new phone number unverified when requested', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminUpdateUserAttributesCommand).resolves({});
+
+      // Act
+      await cognitoService.changePhoneNumber({
+        username: 'testuser',
+        newPhoneNumber: '+15555555555',
+        isVerified: false,
+      });
+
+      // Assert
+      const commandCalls = mockCognitoClient.commandCalls(AdminUpdateUserAttributesCommand);
+      expect(commandCalls[0]?.args[0].input.UserAttributes).toEqual([
+        { Name: 'phone_number', Value: '+15555555555' },
+        { Name: 'phone_number_verified', Value: 'false' },
+      ]);
+    });
+
     it('should handle error when changing phone number', async () => {
       // Arrange
       mockCognitoClient.on(AdminUpdateUserAttributesCommand).rejects(new Error('Test error'));
@@ -530,6 +622,135 @@ describe('CognitoService', () => {
       });
     });
 
+    it.each([
+      ['SMS_MFA', 'sms mfa code required'],
+      ['SOFTWARE_TOKEN_MFA', 'software token mfa code required'],
+      ['SELECT_MFA_TYPE', 'mfa type selection required'],
+      ['MFA_SETUP', 'mfa setup required'],
+      ['CUSTOM_CHALLENGE', 'custom challenge answer required'],
+      ['DEVICE_SRP_AUTH', 'device key, group key and password required'],
+    ] as const)('should return the session for %s challenge', async (challengeName, error) => {
+      // Arrange
+      mockCognitoClient.on(AdminInitiateAuthCommand).resolves({
+        ChallengeName: challengeName,
+        ChallengeParameters: { USER_ID_FOR_SRP: 'testuser' },
+        Session: 'session-string',
+      });
+
+      // Act
+      const result = await cognitoService.login({
+        username: 'testuser',
+        password: 'password',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        challengeName,
+        challengeParameters: { USER_ID_FOR_SRP: 'testuser' },
+        session: 'session-string',
+        error,
+      });
+    });
+
+    it('should report unsupported challenges', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminInitiateAuthCommand).resolves({
+        ChallengeName: 'PASSWORD_VERIFIER',
+        Session: 'session-string',
+      });
+
+      // Act
+      const result = await cognitoService.login({
+        username: 'testuser',
+        password: 'password',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'unsupported challenge: PASSWORD_VERIFIER',
+      });
+    });
+
+    it('should authenticate a remembered device instead of asking for mfa', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminInitiateAuthCommand).resolves({
+        ChallengeName: 'DEVICE_SRP_AUTH',
+        ChallengeParameters: { USER_ID_FOR_SRP: 'user-sub' },
+        Session: 'session-1',
+      });
+      mockCognitoClient
+        .on(AdminRespondToAuthChallengeCommand, { ChallengeName: 'DEVICE_SRP_AUTH' })
+        .resolves({
+          ChallengeName: 'DEVICE_PASSWORD_VERIFIER',
+          ChallengeParameters: {
+            USERNAME: 'user-sub',
+            SRP_B: 'abcdef0123456789',
+            SALT: '0123456789abcdef',
+            SECRET_BLOCK: 'c2VjcmV0LWJsb2Nr',
+          },
+          Session: 'session-2',
+        })
+        .on(AdminRespondToAuthChallengeCommand, { ChallengeName: 'DEVICE_PASSWORD_VERIFIER' })
+        .resolves({
+          AuthenticationResult: {
+            AccessToken: 'access-token',
+            IdToken: 'id-token',
+            RefreshToken: 'refresh-token',
+            ExpiresIn: 3600,
+            TokenType: 'Bearer',
+          },
+        });
+
+      // Act
+      const result = await cognitoService.login({
+        username: 'testuser',
+        password: 'password',
+        deviceKey: 'us-east-1_device-key',
+        deviceGroupKey: 'group-key',
+        devicePassword: 'device-password',
+      });
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({ success: true, accessToken: 'access-token' }),
+      );
+      expect(
+        mockCognitoClient.commandCalls(AdminInitiateAuthCommand)[0]?.args[0].input.AuthParameters,
+      ).toEqual({
+        USERNAME: 'testuser',
+        PASSWORD: 'password',
+        DEVICE_KEY: 'us-east-1_device-key',
+      });
+      const commandCalls = mockCognitoClient.commandCalls(AdminRespondToAuthChallengeCommand);
+      expect(commandCalls.length).toBe(2);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        ClientId: 'test-client-id',
+        ChallengeName: 'DEVICE_SRP_AUTH',
+        ChallengeResponses: {
+          USERNAME: 'user-sub',
+          DEVICE_KEY: 'us-east-1_device-key',
+          SRP_A: expect.stringMatching(/^[0-9a-f]+$/),
+        },
+        Session: 'session-1',
+      });
+      expect(commandCalls[1]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        ClientId: 'test-client-id',
+        ChallengeName: 'DEVICE_PASSWORD_VERIFIER',
+        ChallengeResponses: {
+          USERNAME: 'user-sub',
+          DEVICE_KEY: 'us-east-1_device-key',
+          PASSWORD_CLAIM_SECRET_BLOCK: 'c2VjcmV0LWJsb2Nr',
+          PASSWORD_CLAIM_SIGNATURE: expect.any(String),
+          TIMESTAMP: expect.stringMatching(/^\w{3} \w{3} \d{1,2} \d{2}:\d{2}:\d{2} UTC \d{4}$/),
+        },
+        Session: 'session-2',
+      });
+    });
+
     it('should handle error when logging in', async () => {
       // Arrange
       mockCognitoClient.on(AdminInitiateAuthCommand).rejects(new Error('Test error'));
@@ -647,6 +868,136 @@ describe('CognitoService', () => {
     });
   });
 
+  describe('respondToChallenge', () => {
+    const authenticationResult = {
+      AccessToken: 'access-token',
+      IdToken: 'id-token',
+      RefreshToken: 'refresh-token',
+      ExpiresIn: 3600,
+      TokenType: 'Bearer',
+    };
+
+    it.each([
+      [
+        { challengeName: 'SMS_MFA', code: '123456' },
+        { USERNAME: 'testuser', SMS_MFA_CODE: '123456' },
+      ],
+      [
+        { challengeName: 'SOFTWARE_TOKEN_MFA', code: '654321' },
+        { USERNAME: 'testuser', SOFTWARE_TOKEN_MFA_CODE: '654321' },
+      ],
+      [
+        { challengeName: 'SELECT_MFA_TYPE', mfaType: 'SOFTWARE_TOKEN_MFA' },
+        { USERNAME: 'testuser', ANSWER: 'SOFTWARE_TOKEN_MFA' },
+      ],
+      [{ challengeName: 'MFA_SETUP' }, { USERNAME: 'testuser' }],
+      [
+        { challengeName: 'CUSTOM_CHALLENGE', answer: 'answer' },
+        { USERNAME: 'testuser', ANSWER: 'answer' },
+      ],
+      [
+        {
+          challengeName: 'NEW_PASSWORD_REQUIRED',
+          newPassword: 'new-password',
+          userAttributes: { name: 'Test User' },
+        },
+        { USERNAME: 'testuser', NEW_PASSWORD: 'new-password', 'userAttributes.name': 'Test User' },
+      ],
+    ] as const)('should respond to %o', async (challenge, challengeResponses) => {
+      // Arrange
+      mockCognitoClient.on(AdminRespondToAuthChallengeCommand).resolves({
+        AuthenticationResult: authenticationResult,
+      });
+
+      // Act
+      const result = await cognitoService.respondToChallenge({
+        ...challenge,
+        username: 'testuser',
+        session: 'session-string',
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminRespondToAuthChallengeCommand);
+      expect(commandCalls.length).toBe(1);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        ClientId: 'test-client-id',
+        ChallengeName: challenge.challengeName,
+        ChallengeResponses: challengeResponses,
+        Session: 'session-string',
+      });
+    });
+
+    it('should pass client metadata with custom challenge answers', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminRespondToAuthChallengeCommand).resolves({
+        AuthenticationResult: authenticationResult,
+      });
+
+      // Act
+      await cognitoService.respondToChallenge({
+        challengeName: 'CUSTOM_CHALLENGE',
+        username: 'testuser',
+        session: 'session-string',
+        answer: 'answer',
+        clientMetadata: { locale: 'en' },
+      });
+
+      // Assert
+      const commandCalls = mockCognitoClient.commandCalls(AdminRespondToAuthChallengeCommand);
+      expect(commandCalls[0]?.args[0].input.ClientMetadata).toEqual({ locale: 'en' });
+    });
+
+    it('should return a follow-up challenge with its session', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminRespondToAuthChallengeCommand).resolves({
+        ChallengeName: 'SOFTWARE_TOKEN_MFA',
+        ChallengeParameters: {},
+        Session: 'next-session',
+      });
+
+      // Act
+      const result = await cognitoService.respondToChallenge({
+        challengeName: 'SELECT_MFA_TYPE',
+        username: 'testuser',
+        session: 'session-string',
+        mfaType: 'SOFTWARE_TOKEN_MFA',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        challengeName: 'SOFTWARE_TOKEN_MFA',
+        challengeParameters: {},
+        session: 'next-session',
+        error: 'software token mfa code required',
+      });
+    });
+
+    it('should handle error when responding to a challenge', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(AdminRespondToAuthChallengeCommand)
+        .rejects(new Error('Invalid code provided'));
+
+      // Act
+      const result = await cognitoService.respondToChallenge({
+        challengeName: 'SMS_MFA',
+        username: 'testuser',
+        session: 'session-string',
+        code: '000000',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid code provided',
+      });
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
   describe('getUserDetails', () => {
     it('should get user details successfully', async () => {
       // Arrange
@@ -816,4 +1167,2518 @@ describe('CognitoService', () => {
       });
     });
   });
+
+  describe('verifyJwt', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1' } as Jwk;
+    const now = Math.floor(Date.now() / 1000);
+
+    const signToken = (payload: Record<string, unknown>): string => {
+      const encode = (value: unknown): string =>
+        Buffer.from(JSON.stringify(value)).toString('base64url');
+      const signingInput = `${encode({ alg: 'RS256', kid: 'key-1' })}.${encode(payload)}`;
+      const signature = sign('RSA-SHA256', Buffer.from(signingInput), privateKey);
+      return `${signingInput}.${signature.toString('base64url')}`;
+    };
+
+    const idClaims = {
+      sub: 'user-sub',
+      iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_testpool',
+      token_use: 'id',
+      aud: 'test-client-id',
+      'cognito:username': 'testuser',
+      email: 'test@example.com',
+      email_verified: true,
+      iat: now,
+      exp: now + 3600,
+    };
+
+    beforeEach(() => {
+      cognitoService = new CognitoService({
+        ...config,
+        logger: mockLogger,
+        jwksSource: new StaticJwksSource([jwk]),
+      });
+    });
+
+    it('should verify an id token locally without calling cognito', async () => {
+      // Act
+      const result = await cognitoService.verifyJwt(signToken(idClaims), 'id');
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        username: 'testuser',
+        claims: idClaims,
+        attributes: {
+          sub: 'user-sub',
+          iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_testpool',
+          token_use: 'id',
+          aud: 'test-client-id',
+          'cognito:username': 'testuser',
+          email: 'test@example.com',
+        },
+      });
+      expect(mockCognitoClient.calls().length).toBe(0);
+    });
+
+    it('should verify an access token locally', async () => {
+      // Arrange
+      const accessClaims = {
+        sub: 'user-sub',
+        iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_testpool',
+        token_use: 'access',
+        client_id: 'test-client-id',
+        username: 'testuser',
+        iat: now,
+        exp: now + 3600,
+      };
+
+      // Act
+      const result = await cognitoService.verifyJwt(signToken(accessClaims), 'access');
+
+      // Assert
+      expect(result).toEqual({ success: true, username: 'testuser', claims: accessClaims });
+    });
+
+    it('should expose the cognito groups of the token owner', async () => {
+      // Arrange
+      const token = signToken({ ...idClaims, 'cognito:groups': ['admin', 'editors'] });
+
+      // Act
+      const result = await cognitoService.verifyJwt(token);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.groups).toEqual(['admin', 'editors']);
+      expect(result.attributes?.['cognito:groups']).toBeUndefined();
+    });
+
+    it('should handle an invalid token', async () => {
+      // Act
+      const result = await cognitoService.verifyJwt(signToken({ ...idClaims, exp: now - 10 }));
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'token expired',
+        errorCode: 'NotAuthorizedException',
+      });
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('associateSoftwareToken', () => {
+    it('should return the secret and an otpauth uri', async () => {
+      // Arrange
+      mockCognitoClient.on(AssociateSoftwareTokenCommand).resolves({ SecretCode: 'SECRETBASE32' });
+
+      // Act
+      const result = await cognitoService.associateSoftwareToken({
+        accessToken: 'access-token',
+        label: 'test@example.com',
+        issuer: 'My App',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        secretCode: 'SECRETBASE32',
+        otpauthUri: 'otpauth://totp/My%20App:test%40example.com?secret=SECRETBASE32&issuer=My+App',
+      });
+      const commandCalls = mockCognitoClient.commandCalls(AssociateSoftwareTokenCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({ AccessToken: 'access-token' });
+    });
+
+    it('should use the configured issuer and return the challenge session', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(AssociateSoftwareTokenCommand)
+        .resolves({ SecretCode: 'SECRETBASE32', Session: 'next-session' });
+      const service = new CognitoService({ ...config, logger: mockLogger, mfaIssuer: 'Issuer' });
+
+      // Act
+      const result = await service.associateSoftwareToken({
+        session: 'session-string',
+        label: 'testuser',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        secretCode: 'SECRETBASE32',
+        otpauthUri: 'otpauth://totp/Issuer:testuser?secret=SECRETBASE32&issuer=Issuer',
+        session: 'next-session',
+      });
+      const commandCalls = mockCognitoClient.commandCalls(AssociateSoftwareTokenCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({ Session: 'session-string' });
+    });
+
+    it('should build an otpauth uri without issuer', async () => {
+      // Arrange
+      mockCognitoClient.on(AssociateSoftwareTokenCommand).resolves({ SecretCode: 'SECRETBASE32' });
+
+      // Act
+      const result = await cognitoService.associateSoftwareToken({
+        accessToken: 'access-token',
+        label: 'testuser',
+      });
+
+      // Assert
+      expect(result.otpauthUri).toBe('otpauth://totp/testuser?secret=SECRETBASE32');
+    });
+
+    it('should handle missing secret code', async () => {
+      // Arrange
+      mockCognitoClient.on(AssociateSoftwareTokenCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.associateSoftwareToken({
+        accessToken: 'access-token',
+        label: 'testuser',
+      });
+
+      // Assert
+      expect(result).toEqual({ success: false, error: 'no secret code returned' });
+    });
+
+    it('should handle error when associating a software token', async () => {
+      // Arrange
+      mockCognitoClient.on(AssociateSoftwareTokenCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.associateSoftwareToken({
+        accessToken: 'access-token',
+        label: 'testuser',
+      });
+
+      // Assert
+      expect(result).toEqual({ success: false, error: 'Test error' });
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('verifySoftwareToken', () => {
+    it('should verify a software token successfully', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(VerifySoftwareTokenCommand)
+        .resolves({ Status: 'SUCCESS', Session: 'next-session' });
+
+      // Act
+      const result = await cognitoService.verifySoftwareToken({
+        session: 'session-string',
+        code: '123456',
+        friendlyDeviceName: 'phone',
+      });
+
+      // Assert
+      expect(result).toEqual({ success: true, session: 'next-session' });
+      const commandCalls = mockCognitoClient.commandCalls(VerifySoftwareTokenCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        Session: 'session-string',
+        UserCode: '123456',
+        FriendlyDeviceName: 'phone',
+      });
+    });
+
+    it('should report a rejected code', async () => {
+      // Arrange
+      mockCognitoClient.on(VerifySoftwareTokenCommand).resolves({ Status: 'ERROR' });
+
+      // Act
+      const result = await cognitoService.verifySoftwareToken({
+        accessToken: 'access-token',
+        code: '000000',
+      });
+
+      // Assert
+      expect(result).toEqual({ success: false, error: 'software token verification failed' });
+    });
+
+    it('should handle error when verifying a software token', async () => {
+      // Arrange
+      mockCognitoClient.on(VerifySoftwareTokenCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.verifySoftwareToken({
+        accessToken: 'access-token',
+        code: '000000',
+      });
+
+      // Assert
+      expect(result).toEqual({ success: false, error: 'Test error' });
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('mfa preferences', () => {
+    it('should enable software token mfa as preferred method', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminSetUserMFAPreferenceCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.enableSoftwareTokenMfa('testuser');
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminSetUserMFAPreferenceCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+        SoftwareTokenMfaSettings: { Enabled: true, PreferredMfa: true },
+      });
+    });
+
+    it('should disable every mfa method', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminSetUserMFAPreferenceCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.disableMfa('testuser');
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminSetUserMFAPreferenceCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+        SMSMfaSettings: { Enabled: false, PreferredMfa: false },
+        SoftwareTokenMfaSettings: { Enabled: false, PreferredMfa: false },
+      });
+    });
+
+    it('should handle error when setting mfa preferences', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminSetUserMFAPreferenceCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.setUserMfaPreference({
+        username: 'testuser',
+        sms: { enabled: true },
+      });
+
+      // Assert
+      expect(result).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should get the user mfa settings', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminGetUserCommand).resolves({
+        Username: 'testuser',
+        UserMFASettingList: ['SMS_MFA', 'SOFTWARE_TOKEN_MFA'],
+        PreferredMfaSetting: 'SOFTWARE_TOKEN_MFA',
+      });
+
+      // Act
+      const result = await cognitoService.getUserMfaSettings('testuser');
+
+      // Assert
+      expect(result).toEqual({
+        enabledMethods: ['SMS_MFA', 'SOFTWARE_TOKEN_MFA'],
+        preferredMethod: 'SOFTWARE_TOKEN_MFA',
+      });
+    });
+
+    it('should report no mfa methods when none are enabled', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminGetUserCommand).resolves({ Username: 'testuser' });
+
+      // Act
+      const result = await cognitoService.getUserMfaSettings('testuser');
+
+      // Assert
+      expect(result).toEqual({ enabledMethods: [] });
+    });
+
+    it('should handle error when getting mfa settings', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminGetUserCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.getUserMfaSettings('testuser');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('error handling', () => {
+    it('should expose the cognito exception name in error results', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(AdminInitiateAuthCommand)
+        .rejects(new NotAuthorizedException({ message: 'Incorrect password.', $metadata: {} }));
+
+      // Act
+      const result = await cognitoService.login({
+        username: 'testuser',
+        password: 'wrong',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'Incorrect password.',
+        errorCode: 'NotAuthorizedException',
+      });
+    });
+
+    describe('with throwOnError enabled', () => {
+      beforeEach(() => {
+        cognitoService = new CognitoService({ ...config, logger: mockLogger, throwOnError: true });
+      });
+
+      it('should throw typed errors from boolean methods', async () => {
+        // Arrange
+        mockCognitoClient
+          .on(AdminCreateUserCommand)
+          .rejects(new UsernameExistsException({ message: 'User exists.', $metadata: {} }));
+
+        // Act & Assert
+        await expect(
+          cognitoService.addUser({
+            username: 'testuser',
+            email: 'test@example.com',
+            isVerified: true,
+          }),
+        ).rejects.toThrow(UserAlreadyExistsError);
+        expect(mockLogger.error).toHaveBeenCalled();
+      });
+
+      it('should throw typed errors from nullable methods', async () => {
+        // Arrange
+        mockCognitoClient
+          .on(AdminGetUserCommand)
+          .rejects(new UserNotFoundException({ message: 'User does not exist.', $metadata: {} }));
+
+        // Act & Assert
+        await expect(cognitoService.getUserDetails('testuser')).rejects.toThrow(UserNotFoundError);
+      });
+
+      it('should throw typed errors from result methods', async () => {
+        // Arrange
+        mockCognitoClient
+          .on(AdminInitiateAuthCommand)
+          .rejects(new NotAuthorizedException({ message: 'Incorrect password.', $metadata: {} }));
+
+        // Act & Assert
+        await expect(
+          cognitoService.login({ username: 'testuser', password: 'wrong' }),
+        ).rejects.toMatchObject({
+          name: 'NotAuthorizedError',
+          code: 'NotAuthorizedException',
+          message: 'Incorrect password.',
+        });
+      });
+
+      it('should still return challenges as results', async () => {
+        // Arrange
+        mockCognitoClient.on(AdminInitiateAuthCommand).resolves({
+          ChallengeName: 'SMS_MFA',
+          Session: 'session-string',
+        });
+
+        // Act
+        const result = await cognitoService.login({ username: 'testuser', password: 'password' });
+
+        // Assert
+        expect(result.challengeName).toBe('SMS_MFA');
+      });
+
+      it('should throw not authorized errors for invalid jwts', async () => {
+        // Act & Assert
+        await expect(cognitoService.verifyJwt('not-a-jwt')).rejects.toThrow(NotAuthorizedError);
+      });
+    });
+  });
+
+  describe('self-service flows', () => {
+    const secretHash = (username: string): string =>
+      createHmac('sha256', 'test-client-secret')
+        .update(`${username}test-client-id`)
+        .digest('base64');
+
+    describe('signUp', () => {
+      it('should sign up a user successfully', async () => {
+        // Arrange
+        mockCognitoClient.on(SignUpCommand).resolves({
+          UserSub: 'user-sub',
+          UserConfirmed: false,
+          CodeDeliveryDetails: {
+            Destination: 't***@e***.com',
+            DeliveryMedium: 'EMAIL',
+            AttributeName: 'email',
+          },
+        });
+
+        // Act
+        const result = await cognitoService.signUp({
+          username: 'testuser',
+          password: 'Password123!',
+          email: 'test@example.com',
+          phoneNumber: '+1234567890',
+          additionalAttributes: { name: 'Test User' },
+        });
+
+        // Assert
+        expect(result).toEqual({
+          success: true,
+          userSub: 'user-sub',
+          userConfirmed: false,
+          codeDelivery: {
+            destination: 't***@e***.com',
+            deliveryMedium: 'EMAIL',
+            attributeName: 'email',
+          },
+        });
+        const commandCalls = mockCognitoClient.commandCalls(SignUpCommand);
+        expect(commandCalls[0]?.args[0].input).toEqual({
+          ClientId: 'test-client-id',
+          Username: 'testuser',
+          Password: 'Password123!',
+          UserAttributes: [
+            { Name: 'email', Value: 'test@example.com' },
+            { Name: 'phone_number', Value: '+1234567890' },
+            { Name: 'name', Value: 'Test User' },
+          ],
+        });
+      });
+
+      it('should compute the secret hash when the client has a secret', async () => {
+        // Arrange
+        mockCognitoClient.on(SignUpCommand).resolves({ UserSub: 'user-sub', UserConfirmed: true });
+        const service = new CognitoService({
+          ...config,
+          logger: mockLogger,
+          clientSecret: 'test-client-secret',
+        });
+
+        // Act
+        const result = await service.signUp({
+          username: 'testuser',
+          password: 'Password123!',
+          clientMetadata: { source: 'web' },
+        });
+
+        // Assert
+        expect(result).toEqual({ success: true, userSub: 'user-sub', userConfirmed: true });
+        const commandCalls = mockCognitoClient.commandCalls(SignUpCommand);
+        expect(commandCalls[0]?.args[0].input.SecretHash).toBe(secretHash('testuser'));
+        expect(commandCalls[0]?.args[0].input.ClientMetadata).toEqual({ source: 'web' });
+      });
+
+      it('should handle error when signing up', async () => {
+        // Arrange
+        mockCognitoClient.on(SignUpCommand).rejects(new Error('Test error'));
+
+        // Act
+        const result = await cognitoService.signUp({
+          username: 'testuser',
+          password: 'Password123!',
+        });
+
+        // Assert
+        expect(result).toEqual({ success: false, error: 'Test error' });
+        expect(mockLogger.error).toHaveBeenCalled();
+      });
+    });
+
+    describe('confirmSignUp', () => {
+      it('should confirm a sign up successfully', async () => {
+        // Arrange
+        mockCognitoClient.on(ConfirmSignUpCommand).resolves({});
+        const service = new CognitoService({
+          ...config,
+          logger: mockLogger,
+          clientSecret: 'test-client-secret',
+        });
+
+        // Act
+        const result = await service.confirmSignUp({ username: 'testuser', code: '123456' });
+
+        // Assert
+        expect(result).toBe(true);
+        const commandCalls = mockCognitoClient.commandCalls(ConfirmSignUpCommand);
+        expect(commandCalls[0]?.args[0].input).toEqual({
+          ClientId: 'test-client-id',
+          Username: 'testuser',
+          ConfirmationCode: '123456',
+          SecretHash: secretHash('testuser'),
+        });
+      });
+
+      it('should handle a wrong confirmation code', async () => {
+        // Arrange
+        mockCognitoClient
+          .on(ConfirmSignUpCommand)
+          .rejects(new CodeMismatchException({ message: 'Invalid code.', $metadata: {} }));
+
+        // Act
+        const result = await cognitoService.confirmSignUp({ username: 'testuser', code: '0' });
+
+        // Assert
+        expect(result).toBe(false);
+        expect(mockLogger.error).toHaveBeenCalled();
+      });
+    });
+
+    describe('resendConfirmationCode', () => {
+      it('should resend the confirmation code', async () => {
+        // Arrange
+        mockCognitoClient.on(ResendConfirmationCodeCommand).resolves({
+          CodeDeliveryDetails: { Destination: '+******7890', DeliveryMedium: 'SMS' },
+        });
+
+        // Act
+        const result = await cognitoService.resendConfirmationCode('testuser');
+
+        // Assert
+        expect(result).toEqual({
+          success: true,
+          codeDelivery: { destination: '+******7890', deliveryMedium: 'SMS' },
+        });
+        const commandCalls = mockCognitoClient.commandCalls(ResendConfirmationCodeCommand);
+        expect(commandCalls[0]?.args[0].input).toEqual({
+          ClientId: 'test-client-id',
+          Username: 'testuser',
+        });
+      });
+
+      it('should handle error when resending the confirmation code', async () => {
+        // Arrange
+        mockCognitoClient.on(ResendConfirmationCodeCommand).rejects(new Error('Test error'));
+
+        // Act
+        const result = await cognitoService.resendConfirmationCode('testuser');
+
+        // Assert
+        expect(result).toEqual({ success: false, error: 'Test error' });
+      });
+    });
+
+    describe('forgotPassword', () => {
+      it('should start the forgot password flow', async () => {
+        // Arrange
+        mockCognitoClient.on(ForgotPasswordCommand).resolves({
+          CodeDeliveryDetails: { Destination: 't***@e***.com', DeliveryMedium: 'EMAIL' },
+        });
+
+        // Act
+        const result = await cognitoService.forgotPassword('testuser');
+
+        // Assert
+        expect(result).toEqual({
+          success: true,
+          codeDelivery: { destination: 't***@e***.com', deliveryMedium: 'EMAIL' },
+        });
+      });
+
+      it('should handle error when starting the forgot password flow', async () => {
+        // Arrange
+        mockCognitoClient.on(ForgotPasswordCommand).rejects(new Error('Test error'));
+
+        // Act
+        const result = await cognitoService.forgotPassword('testuser');
+
+        // Assert
+        expect(result).toEqual({ success: false, error: 'Test error' });
+        expect(mockLogger.error).toHaveBeenCalled();
+      });
+    });
+
+    describe('confirmForgotPassword', () => {
+      it('should reset the password with the code', async () => {
+        // Arrange
+        mockCognitoClient.on(ConfirmForgotPasswordCommand).resolves({});
+
+        // Act
+        const result = await cognitoService.confirmForgotPassword({
+          username: 'testuser',
+          code: '123456',
+          newPassword: 'NewPassword123!',
+        });
+
+        // Assert
+        expect(result).toBe(true);
+        const commandCalls = mockCognitoClient.commandCalls(ConfirmForgotPasswordCommand);
+        expect(commandCalls[0]?.args[0].input).toEqual({
+          ClientId: 'test-client-id',
+          Username: 'testuser',
+          ConfirmationCode: '123456',
+          Password: 'NewPassword123!',
+        });
+      });
+
+      it('should handle error when resetting the password', async () => {
+        // Arrange
+        mockCognitoClient.on(ConfirmForgotPasswordCommand).rejects(new Error('Test error'));
+
+        // Act
+        const result = await cognitoService.confirmForgotPassword({
+          username: 'testuser',
+          code: '123456',
+          newPassword: 'NewPassword123!',
+        });
+
+        // Assert
+        expect(result).toBe(false);
+        expect(mockLogger.error).toHaveBeenCalled();
+      });
+    });
+
+    describe('changePassword', () => {
+      it('should change the password of a signed in user', async () => {
+        // Arrange
+        mockCognitoClient.on(ChangePasswordCommand).resolves({});
+
+        // Act
+        const result = await cognitoService.changePassword({
+          accessToken: 'access-token',
+          previousPassword: 'OldPassword123!',
+          proposedPassword: 'NewPassword123!',
+        });
+
+        // Assert
+        expect(result).toBe(true);
+        const commandCalls = mockCognitoClient.commandCalls(ChangePasswordCommand);
+        expect(commandCalls[0]?.args[0].input).toEqual({
+          AccessToken: 'access-token',
+          PreviousPassword: 'OldPassword123!',
+          ProposedPassword: 'NewPassword123!',
+        });
+      });
+
+      it('should handle error when changing the password', async () => {
+        // Arrange
+        mockCognitoClient.on(ChangePasswordCommand).rejects(new Error('Test error'));
+
+        // Act
+        const result = await cognitoService.changePassword({
+          accessToken: 'access-token',
+          previousPassword: 'OldPassword123!',
+          proposedPassword: 'NewPassword123!',
+        });
+
+        // Assert
+        expect(result).toBe(false);
+        expect(mockLogger.error).toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('client secret', () => {
+    const secretHash = (username: string): string =>
+      createHmac('sha256', 'test-client-secret')
+        .update(`${username}test-client-id`)
+        .digest('base64');
+
+    const authenticationResult = {
+      AccessToken: 'access-token',
+      IdToken: 'id-token',
+      RefreshToken: 'refresh-token',
+      ExpiresIn: 3600,
+      TokenType: 'Bearer',
+    };
+
+    const unsignedToken = (payload: Record<string, unknown>): string =>
+      [{ alg: 'RS256' }, payload, 'signature']
+        .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+        .join('.');
+
+    beforeEach(() => {
+      cognitoService = new CognitoService({
+        ...config,
+        logger: mockLogger,
+        clientSecret: 'test-client-secret',
+      });
+    });
+
+    it('should send the secret hash when logging in', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminInitiateAuthCommand).resolves({
+        AuthenticationResult: authenticationResult,
+      });
+
+      // Act
+      await cognitoService.login({ username: 'testuser', password: 'password' });
+
+      // Assert
+      const commandCalls = mockCognitoClient.commandCalls(AdminInitiateAuthCommand);
+      expect(commandCalls[0]?.args[0].input.AuthParameters).toEqual({
+        USERNAME: 'testuser',
+        PASSWORD: 'password',
+        SECRET_HASH: secretHash('testuser'),
+      });
+    });
+
+    it('should send the secret hash when responding to a challenge', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminRespondToAuthChallengeCommand).resolves({
+        AuthenticationResult: authenticationResult,
+      });
+
+      // Act
+      await cognitoService.respondToNewPasswordChallenge('testuser', 'new-password', 'session');
+
+      // Assert
+      const commandCalls = mockCognitoClient.commandCalls(AdminRespondToAuthChallengeCommand);
+      expect(commandCalls[0]?.args[0].input.ChallengeResponses).toEqual({
+        USERNAME: 'testuser',
+        NEW_PASSWORD: 'new-password',
+        SECRET_HASH: secretHash('testuser'),
+      });
+    });
+
+    it('should identify a user signed in with an alias by USER_ID_FOR_SRP', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminRespondToAuthChallengeCommand).resolves({
+        AuthenticationResult: authenticationResult,
+      });
+
+      // Act
+      await cognitoService.respondToChallenge({
+        challengeName: 'SOFTWARE_TOKEN_MFA',
+        username: 'test@example.com',
+        session: 'session',
+        challengeParameters: { USER_ID_FOR_SRP: 'testuser' },
+        code: '123456',
+      });
+
+      // Assert
+      const commandCalls = mockCognitoClient.commandCalls(AdminRespondToAuthChallengeCommand);
+      expect(commandCalls[0]?.args[0].input.ChallengeResponses).toEqual({
+        USERNAME: 'testuser',
+        SOFTWARE_TOKEN_MFA_CODE: '123456',
+        SECRET_HASH: secretHash('testuser'),
+      });
+    });
+
+    it('should resolve the refresh username from the id token', async () => {
+      // Arrange
+      mockCognitoClient.on(InitiateAuthCommand).resolves({
+        AuthenticationResult: authenticationResult,
+      });
+
+      // Act
+      const result = await cognitoService.refreshToken({
+        refreshToken: 'old-refresh-token',
+        idToken: unsignedToken({ sub: 'user-sub', 'cognito:username': 'testuser' }),
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(InitiateAuthCommand);
+      expect(commandCalls[0]?.args[0].input.AuthParameters).toEqual({
+        REFRESH_TOKEN: 'old-refresh-token',
+        SECRET_HASH: secretHash('testuser'),
+      });
+    });
+
+    it('should fall back to the id token sub', async () => {
+      // Arrange
+      mockCognitoClient.on(InitiateAuthCommand).resolves({
+        AuthenticationResult: authenticationResult,
+      });
+
+      // Act
+      await cognitoService.refreshToken({
+        refreshToken: 'old-refresh-token',
+        idToken: unsignedToken({ sub: 'user-sub' }),
+      });
+
+      // Assert
+      const commandCalls = mockCognitoClient.commandCalls(InitiateAuthCommand);
+      expect(commandCalls[0]?.args[0].input.AuthParameters?.SECRET_HASH).toBe(
+        secretHash('user-sub'),
+      );
+    });
+
+    it('should prefer an explicit refresh username', async () => {
+      // Arrange
+      mockCognitoClient.on(InitiateAuthCommand).resolves({
+        AuthenticationResult: authenticationResult,
+      });
+
+      // Act
+      await cognitoService.refreshToken({
+        refreshToken: 'old-refresh-token',
+        username: 'explicit-user',
+        idToken: unsignedToken({ sub: 'user-sub' }),
+      });
+
+      // Assert
+      const commandCalls = mockCognitoClient.commandCalls(InitiateAuthCommand);
+      expect(commandCalls[0]?.args[0].input.AuthParameters?.SECRET_HASH).toBe(
+        secretHash('explicit-user'),
+      );
+    });
+
+    it('should require a username to refresh tokens', async () => {
+      // Act
+      const result = await cognitoService.refreshToken({ refreshToken: 'old-refresh-token' });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'username or id token required to refresh tokens with a client secret',
+      });
+      expect(mockCognitoClient.commandCalls(InitiateAuthCommand).length).toBe(0);
+    });
+  });
+
+  describe('user listing', () => {
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+
+    const user = (username: string, email: string): Record<string, unknown> => ({
+      Username: username,
+      Enabled: true,
+      UserStatus: 'CONFIRMED',
+      UserCreateDate: createdAt,
+      UserLastModifiedDate: createdAt,
+      Attributes: [
+        { Name: 'email', Value: email },
+        { Name: 'email_verified', Value: 'true' },
+      ],
+    });
+
+    describe('listUsers', () => {
+      it('should list a page of users with a filter', async () => {
+        // Arrange
+        mockCognitoClient.on(ListUsersCommand).resolves({
+          Users: [user('user1', 'john@example.com')],
+          PaginationToken: 'next-page',
+        });
+
+        // Act
+        const result = await cognitoService.listUsers({
+          filter: 'email ^= "john"',
+          limit: 10,
+          attributesToGet: ['email'],
+        });
+
+        // Assert
+        expect(result).toEqual({
+          users: [
+            {
+              username: 'user1',
+              enabled: true,
+              status: 'CONFIRMED',
+              createdAt,
+              updatedAt: createdAt,
+              attributes: { email: 'john@example.com', email_verified: 'true' },
+            },
+          ],
+          paginationToken: 'next-page',
+        });
+        const commandCalls = mockCognitoClient.commandCalls(ListUsersCommand);
+        expect(commandCalls[0]?.args[0].input).toEqual({
+          UserPoolId: 'us-east-1_testpool',
+          Filter: 'email ^= "john"',
+          Limit: 10,
+          AttributesToGet: ['email'],
+        });
+      });
+
+      it('should handle an empty pool', async () => {
+        // Arrange
+        mockCognitoClient.on(ListUsersCommand).resolves({});
+
+        // Act
+        const result = await cognitoService.listUsers();
+
+        // Assert
+        expect(result).toEqual({ users: [] });
+      });
+
+      it('should handle error when listing users', async () => {
+        // Arrange
+        mockCognitoClient.on(ListUsersCommand).rejects(new Error('Test error'));
+
+        // Act
+        const result = await cognitoService.listUsers();
+
+        // Assert
+        expect(result).toBeNull();
+        expect(mockLogger.error).toHaveBeenCalled();
+      });
+    });
+
+    describe('iterateUsers', () => {
+      it('should follow the pagination tokens', async () => {
+        // Arrange
+        mockCognitoClient
+          .on(ListUsersCommand)
+          .resolvesOnce({ Users: [user('user1', 'a@example.com')], PaginationToken: 'page-2' })
+          .resolvesOnce({ Users: [user('user2', 'b@example.com')], PaginationToken: 'page-3' })
+          .resolvesOnce({ Users: [user('user3', 'c@example.com')] });
+
+        // Act
+        const usernames: string[] = [];
+        for await (const cognitoUser of cognitoService.iterateUsers({ limit: 1 })) {
+          usernames.push(cognitoUser.username);
+        }
+
+        // Assert
+        expect(usernames).toEqual(['user1', 'user2', 'user3']);
+        const commandCalls = mockCognitoClient.commandCalls(ListUsersCommand);
+        expect(commandCalls.map((call) => call.args[0].input.PaginationToken)).toEqual([
+          undefined,
+          'page-2',
+          'page-3',
+        ]);
+      });
+
+      it('should throw a typed error when a page fails', async () => {
+        // Arrange
+        mockCognitoClient.on(ListUsersCommand).rejects(new Error('Test error'));
+
+        // Act & Assert
+        await expect(cognitoService.iterateUsers().next()).rejects.toMatchObject({
+          name: 'CognitoError',
+          message: 'Test error',
+        });
+        expect(mockLogger.error).toHaveBeenCalled();
+      });
+    });
+
+    describe('findUserByEmail', () => {
+      it('should return the attributes of the matching user', async () => {
+        // Arrange
+        mockCognitoClient.on(ListUsersCommand).resolves({
+          Users: [user('user1', 'john@example.com')],
+        });
+
+        // Act
+        const result = await cognitoService.findUserByEmail('john@example.com');
+
+        // Assert
+        expect(result).toEqual({ email: 'john@example.com', email_verified: 'true' });
+        const commandCalls = mockCognitoClient.commandCalls(ListUsersCommand);
+        expect(commandCalls[0]?.args[0].input).toEqual({
+          UserPoolId: 'us-east-1_testpool',
+          Filter: 'email = "john@example.com"',
+          Limit: 1,
+        });
+      });
+
+      it('should escape quotes in the filter value', async () => {
+        // Arrange
+        mockCognitoClient.on(ListUsersCommand).resolves({ Users: [] });
+
+        // Act
+        const result = await cognitoService.findUserByEmail('a"b@example.com');
+
+        // Assert
+        expect(result).toBeNull();
+        const commandCalls = mockCognitoClient.commandCalls(ListUsersCommand);
+        expect(commandCalls[0]?.args[0].input.Filter).toBe('email = "a\\"b@example.com"');
+      });
+
+      it('should handle error when finding a user', async () => {
+        // Arrange
+        mockCognitoClient.on(ListUsersCommand).rejects(new Error('Test error'));
+
+        // Act
+        const result = await cognitoService.findUserByEmail('john@example.com');
+
+        // Assert
+        expect(result).toBeNull();
+        expect(mockLogger.error).toHaveBeenCalled();
+      });
+    });
+
+    describe('findUserByPhone', () => {
+      it('should filter by phone number', async () => {
+        // Arrange
+        mockCognitoClient.on(ListUsersCommand).resolves({
+          Users: [user('user1', 'john@example.com')],
+        });
+
+        // Act
+        const result = await cognitoService.findUserByPhone('+1234567890');
+
+        // Assert
+        expect(result).toEqual({ email: 'john@example.com', email_verified: 'true' });
+        const commandCalls = mockCognitoClient.commandCalls(ListUsersCommand);
+        expect(commandCalls[0]?.args[0].input.Filter).toBe('phone_number = "+1234567890"');
+      });
+    });
+  });
+
+  describe('groups', () => {
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+
+    it('should create a group', async () => {
+      // Arrange
+      mockCognitoClient.on(CreateGroupCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.createGroup({
+        groupName: 'admin',
+        description: 'Administrators',
+        precedence: 1,
+        roleArn: 'arn:aws:iam::123456789012:role/admin',
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(CreateGroupCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        GroupName: 'admin',
+        Description: 'Administrators',
+        Precedence: 1,
+        RoleArn: 'arn:aws:iam::123456789012:role/admin',
+      });
+    });
+
+    it('should handle error when creating a group', async () => {
+      // Arrange
+      mockCognitoClient.on(CreateGroupCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.createGroup({ groupName: 'admin' });
+
+      // Assert
+      expect(result).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should get a group', async () => {
+      // Arrange
+      mockCognitoClient.on(GetGroupCommand).resolves({
+        Group: { GroupName: 'admin', Precedence: 0, CreationDate: createdAt },
+      });
+
+      // Act
+      const result = await cognitoService.getGroup('admin');
+
+      // Assert
+      expect(result).toEqual({ groupName: 'admin', precedence: 0, createdAt });
+    });
+
+    it('should handle error when getting a group', async () => {
+      // Arrange
+      mockCognitoClient.on(GetGroupCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.getGroup('admin');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should update a group', async () => {
+      // Arrange
+      mockCognitoClient.on(UpdateGroupCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.updateGroup({ groupName: 'admin', description: '' });
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(UpdateGroupCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        GroupName: 'admin',
+        Description: '',
+      });
+    });
+
+    it('should delete a group', async () => {
+      // Arrange
+      mockCognitoClient.on(DeleteGroupCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.deleteGroup('admin');
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(DeleteGroupCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        GroupName: 'admin',
+      });
+    });
+
+    it('should list all groups across pages', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(ListGroupsCommand)
+        .resolvesOnce({ Groups: [{ GroupName: 'admin' }], NextToken: 'page-2' })
+        .resolvesOnce({ Groups: [{ GroupName: 'editors' }] });
+
+      // Act
+      const result = await cognitoService.listGroups();
+
+      // Assert
+      expect(result).toEqual([{ groupName: 'admin' }, { groupName: 'editors' }]);
+      const commandCalls = mockCognitoClient.commandCalls(ListGroupsCommand);
+      expect(commandCalls[1]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        NextToken: 'page-2',
+      });
+    });
+
+    it('should handle error when listing groups', async () => {
+      // Arrange
+      mockCognitoClient.on(ListGroupsCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.listGroups();
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should add a user to a group', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminAddUserToGroupCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.addUserToGroup('testuser', 'admin');
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminAddUserToGroupCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+        GroupName: 'admin',
+      });
+    });
+
+    it('should handle error when adding a user to a group', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminAddUserToGroupCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.addUserToGroup('testuser', 'admin');
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it('should remove a user from a group', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminRemoveUserFromGroupCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.removeUserFromGroup('testuser', 'admin');
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminRemoveUserFromGroupCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+        GroupName: 'admin',
+      });
+    });
+
+    it('should list the groups of a user', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(AdminListGroupsForUserCommand)
+        .resolvesOnce({ Groups: [{ GroupName: 'admin' }], NextToken: 'page-2' })
+        .resolvesOnce({ Groups: [{ GroupName: 'editors', Description: 'Editors' }] });
+
+      // Act
+      const result = await cognitoService.listGroupsForUser('testuser');
+
+      // Assert
+      expect(result).toEqual([
+        { groupName: 'admin' },
+        { groupName: 'editors', description: 'Editors' },
+      ]);
+    });
+
+    it('should handle error when listing the groups of a user', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminListGroupsForUserCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.listGroupsForUser('testuser');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should list the users of a group', async () => {
+      // Arrange
+      mockCognitoClient.on(ListUsersInGroupCommand).resolves({
+        Users: [
+          {
+            Username: 'testuser',
+            Enabled: true,
+            Attributes: [{ Name: 'email', Value: 'test@example.com' }],
+          },
+        ],
+      });
+
+      // Act
+      const result = await cognitoService.listUsersInGroup('admin');
+
+      // Assert
+      expect(result).toEqual([
+        { username: 'testuser', enabled: true, attributes: { email: 'test@example.com' } },
+      ]);
+      const commandCalls = mockCognitoClient.commandCalls(ListUsersInGroupCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        GroupName: 'admin',
+      });
+    });
+
+    it('should handle error when listing the users of a group', async () => {
+      // Arrange
+      mockCognitoClient.on(ListUsersInGroupCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.listUsersInGroup('admin');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('account state and sessions', () => {
+    it.each([
+      ['enableUser', AdminEnableUserCommand],
+      ['disableUser', AdminDisableUserCommand],
+      ['confirmUser', AdminConfirmSignUpCommand],
+      ['adminUserGlobalSignOut', AdminUserGlobalSignOutCommand],
+    ] as const)('%s should send the admin command', async (method, Command) => {
+      // Arrange
+      mockCognitoClient.on(Command).resolves({});
+
+      // Act
+      const result = await cognitoService[method]('testuser');
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(Command);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+      });
+    });
+
+    it.each([
+      ['enableUser', AdminEnableUserCommand],
+      ['disableUser', AdminDisableUserCommand],
+      ['confirmUser', AdminConfirmSignUpCommand],
+      ['adminUserGlobalSignOut', AdminUserGlobalSignOutCommand],
+    ] as const)('%s should handle errors', async (method, Command) => {
+      // Arrange
+      mockCognitoClient.on(Command).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService[method]('testuser');
+
+      // Assert
+      expect(result).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should sign out the current user', async () => {
+      // Arrange
+      mockCognitoClient.on(GlobalSignOutCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.globalSignOut('access-token');
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(GlobalSignOutCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({ AccessToken: 'access-token' });
+    });
+
+    it('should handle error when signing out the current user', async () => {
+      // Arrange
+      mockCognitoClient.on(GlobalSignOutCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.globalSignOut('access-token');
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it('should revoke a refresh token', async () => {
+      // Arrange
+      mockCognitoClient.on(RevokeTokenCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.revokeRefreshToken('refresh-token');
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(RevokeTokenCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        Token: 'refresh-token',
+        ClientId: 'test-client-id',
+      });
+    });
+
+    it('should send the client secret when revoking a refresh token', async () => {
+      // Arrange
+      cognitoService = new CognitoService({
+        ...config,
+        logger: mockLogger,
+        clientSecret: 'test-client-secret',
+      });
+      mockCognitoClient.on(RevokeTokenCommand).resolves({});
+
+      // Act
+      await cognitoService.revokeRefreshToken('refresh-token');
+
+      // Assert
+      const commandCalls = mockCognitoClient.commandCalls(RevokeTokenCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        Token: 'refresh-token',
+        ClientId: 'test-client-id',
+        ClientSecret: 'test-client-secret',
+      });
+    });
+
+    it('should throw a typed error when revoking fails in throwing mode', async () => {
+      // Arrange
+      cognitoService = new CognitoService({ ...config, logger: mockLogger, throwOnError: true });
+      mockCognitoClient
+        .on(RevokeTokenCommand)
+        .rejects(new NotAuthorizedException({ message: 'Invalid token', $metadata: {} }));
+
+      // Act & Assert
+      await expect(cognitoService.revokeRefreshToken('refresh-token')).rejects.toBeInstanceOf(
+        NotAuthorizedError,
+      );
+    });
+  });
+
+  describe('user attributes', () => {
+    it('should update standard and custom attributes', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminUpdateUserAttributesCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.updateUserAttributes({
+        username: 'testuser',
+        attributes: { given_name: 'John', 'custom:tenant': 'acme' },
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminUpdateUserAttributesCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+        UserAttributes: [
+          { Name: 'given_name', Value: 'John' },
+          { Name: 'custom:tenant', Value: 'acme' },
+        ],
+      });
+    });
+
+    it('should handle error when updating attributes', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminUpdateUserAttributesCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.updateUserAttributes({
+        username: 'testuser',
+        attributes: { 'custom:tenant': 'acme' },
+      });
+
+      // Assert
+      expect(result).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should delete attributes', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminDeleteUserAttributesCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.deleteUserAttributes({
+        username: 'testuser',
+        attributeNames: ['custom:tenant'],
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminDeleteUserAttributesCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+        UserAttributeNames: ['custom:tenant'],
+      });
+    });
+
+    it('should handle error when deleting attributes', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminDeleteUserAttributesCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.deleteUserAttributes({
+        username: 'testuser',
+        attributeNames: ['custom:tenant'],
+      });
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it('should send an attribute verification code', async () => {
+      // Arrange
+      mockCognitoClient.on(GetUserAttributeVerificationCodeCommand).resolves({
+        CodeDeliveryDetails: {
+          Destination: 'n***@example.com',
+          DeliveryMedium: 'EMAIL',
+          AttributeName: 'email',
+        },
+      });
+
+      // Act
+      const result = await cognitoService.getUserAttributeVerificationCode({
+        accessToken: 'access-token',
+        attributeName: 'email',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        codeDelivery: {
+          destination: 'n***@example.com',
+          deliveryMedium: 'EMAIL',
+          attributeName: 'email',
+        },
+      });
+      const commandCalls = mockCognitoClient.commandCalls(GetUserAttributeVerificationCodeCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        AccessToken: 'access-token',
+        AttributeName: 'email',
+      });
+    });
+
+    it('should handle error when sending an attribute verification code', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(GetUserAttributeVerificationCodeCommand)
+        .rejects(new LimitExceededException({ message: 'Limit exceeded', $metadata: {} }));
+
+      // Act
+      const result = await cognitoService.getUserAttributeVerificationCode({
+        accessToken: 'access-token',
+        attributeName: 'email',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'Limit exceeded',
+        errorCode: 'LimitExceededException',
+      });
+    });
+
+    it('should verify an attribute', async () => {
+      // Arrange
+      mockCognitoClient.on(VerifyUserAttributeCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.verifyUserAttribute({
+        accessToken: 'access-token',
+        attributeName: 'email',
+        code: '123456',
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(VerifyUserAttributeCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        AccessToken: 'access-token',
+        AttributeName: 'email',
+        Code: '123456',
+      });
+    });
+
+    it('should handle error when verifying an attribute', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(VerifyUserAttributeCommand)
+        .rejects(new CodeMismatchException({ message: 'Invalid code', $metadata: {} }));
+
+      // Act
+      const result = await cognitoService.verifyUserAttribute({
+        accessToken: 'access-token',
+        attributeName: 'email',
+        code: '000000',
+      });
+
+      // Assert
+      expect(result).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('bulk import', () => {
+    const records = [
+      { username: 'user1', email: 'user1@example.com', isVerified: true },
+      { username: 'user2', email: 'user2@example.com', isVerified: true },
+      { username: 'user3', email: 'user3@example.com', isVerified: true },
+    ];
+
+    it('should create every user and report the outcome of each record', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminCreateUserCommand).resolves({});
+      mockCognitoClient
+        .on(AdminCreateUserCommand, { Username: 'user2' })
+        .rejects(new UsernameExistsException({ message: 'User exists', $metadata: {} }));
+
+      // Act
+      const report = await cognitoService.importUsers(records, { concurrency: 2 });
+
+      // Assert
+      expect(report).toEqual({
+        total: 3,
+        succeeded: 2,
+        failed: 1,
+        results: [
+          { index: 0, username: 'user1', success: true, attempts: 1 },
+          {
+            index: 1,
+            username: 'user2',
+            success: false,
+            attempts: 1,
+            error: 'User exists',
+            errorCode: 'UsernameExistsException',
+          },
+          { index: 2, username: 'user3', success: true, attempts: 1 },
+        ],
+      });
+      expect(mockCognitoClient.commandCalls(AdminCreateUserCommand).length).toBe(3);
+    });
+
+    it('should retry throttled creations', async () => {
+      // Arrange
+      const throttled = new LimitExceededException({ message: 'Rate exceeded', $metadata: {} });
+      mockCognitoClient
+        .on(AdminCreateUserCommand)
+        .rejectsOnce(throttled)
+        .rejectsOnce(throttled)
+        .resolves({});
+
+      // Act
+      const report = await cognitoService.importUsers([records[0]!], { retryDelayMs: 0 });
+
+      // Assert
+      expect(report.succeeded).toBe(1);
+      expect(report.results[0]).toEqual({
+        index: 0,
+        username: 'user1',
+        success: true,
+        attempts: 3,
+      });
+    });
+
+    it('should give up after the maximum number of retries', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(AdminCreateUserCommand)
+        .rejects(new LimitExceededException({ message: 'Rate exceeded', $metadata: {} }));
+
+      // Act
+      const report = await cognitoService.importUsers([records[0]!], {
+        maxRetries: 2,
+        retryDelayMs: 0,
+      });
+
+      // Assert
+      expect(report.failed).toBe(1);
+      expect(report.results[0]?.attempts).toBe(3);
+      expect(report.results[0]?.errorCode).toBe('LimitExceededException');
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should report failures instead of throwing in throwing mode', async () => {
+      // Arrange
+      cognitoService = new CognitoService({ ...config, logger: mockLogger, throwOnError: true });
+      mockCognitoClient.on(AdminCreateUserCommand).rejects(new Error('Test error'));
+
+      // Act
+      const report = await cognitoService.importUsers(records);
+
+      // Assert
+      expect(report.failed).toBe(3);
+    });
+  });
+
+  describe('export', () => {
+    const collect = (stream: PassThrough): Promise<string> =>
+      new Promise((resolve) => {
+        let data = '';
+        stream.on('data', (chunk) => (data += chunk));
+        stream.on('end', () => resolve(data));
+      });
+
+    beforeEach(() => {
+      mockCognitoClient
+        .on(ListUsersCommand)
+        .resolvesOnce({
+          Users: [
+            {
+              Username: 'user1',
+              Enabled: true,
+              UserStatus: 'CONFIRMED',
+              Attributes: [
+                { Name: 'sub', Value: 'sub-1' },
+                { Name: 'email', Value: 'user1@example.com' },
+                { Name: 'email_verified', Value: 'true' },
+                { Name: 'phone_number', Value: '+15555555555' },
+                { Name: 'phone_number_verified', Value: 'true' },
+                { Name: 'custom:tenant', Value: 'acme, inc' },
+              ],
+            },
+          ],
+          PaginationToken: 'page-2',
+        })
+        .resolvesOnce({
+          Users: [
+            {
+              Username: 'user2',
+              Enabled: false,
+              Attributes: [
+                { Name: 'sub', Value: 'sub-2' },
+                { Name: 'email', Value: 'user2@example.com' },
+              ],
+            },
+          ],
+        });
+    });
+
+    it('should export all users as json lines', async () => {
+      // Arrange
+      const output = new PassThrough();
+      const data = collect(output);
+
+      // Act
+      const count = await cognitoService.exportUsers(output);
+      output.end();
+
+      // Assert
+      expect(count).toBe(2);
+      expect(
+        (await data)
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line)),
+      ).toEqual([
+        {
+          username: 'user1',
+          email: 'user1@example.com',
+          isVerified: true,
+          phoneNumber: '+15555555555',
+          additionalAttributes: { 'custom:tenant': 'acme, inc' },
+        },
+        { username: 'user2', email: 'user2@example.com', isVerified: false },
+      ]);
+    });
+
+    it('should export the requested attributes as csv', async () => {
+      // Arrange
+      const output = new PassThrough();
+      const data = collect(output);
+
+      // Act
+      await cognitoService.exportUsers(output, {
+        format: 'csv',
+        attributes: ['sub', 'email', 'custom:tenant'],
+        filter: 'status = "Enabled"',
+      });
+      output.end();
+
+      // Assert
+      expect(await data).toBe(
+        [
+          'username,email,phoneNumber,isVerified,custom:tenant',
+          'user1,user1@example.com,\'+15555555555,true,"acme, inc"',
+          'user2,user2@example.com,,false,',
+          '',
+        ].join('\n'),
+      );
+      const commandCalls = mockCognitoClient.commandCalls(ListUsersCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Filter: 'status = "Enabled"',
+        AttributesToGet: [
+          'email',
+          'email_verified',
+          'phone_number',
+          'phone_number_verified',
+          'sub',
+          'custom:tenant',
+        ],
+      });
+    });
+
+    it.each(['csv', 'jsonl'] as const)(
+      'should export %s files that can be imported again',
+      async (format) => {
+        // Arrange
+        mockCognitoClient.on(AdminCreateUserCommand).resolves({});
+        const output = new PassThrough();
+        const data = collect(output);
+
+        // Act
+        await cognitoService.exportUsers(output, { format, attributes: ['custom:tenant'] });
+        output.end();
+        const report = await cognitoService.importUsers(
+          parseUserRecords(await data, format, { unescapeFormulas: true }),
+        );
+
+        // Assert
+        expect(report).toEqual(expect.objectContaining({ total: 2, succeeded: 2 }));
+        const commandCalls = mockCognitoClient.commandCalls(AdminCreateUserCommand);
+        expect(commandCalls.map((call) => call.args[0].input.UserAttributes)).toEqual([
+          [
+            { Name: 'email', Value: 'user1@example.com' },
+            { Name: 'email_verified', Value: 'true' },
+            { Name: 'phone_number', Value: '+15555555555' },
+            { Name: 'phone_number_verified', Value: 'true' },
+            { Name: 'custom:tenant', Value: 'acme, inc' },
+          ],
+          [
+            { Name: 'email', Value: 'user2@example.com' },
+            { Name: 'email_verified', Value: 'false' },
+          ],
+        ]);
+      },
+    );
+
+    it('should throw when the users cannot be listed', async () => {
+      // Arrange
+      mockCognitoClient.on(ListUsersCommand).rejects(new Error('Test error'));
+
+      // Act & Assert
+      await expect(cognitoService.exportUsers(new PassThrough())).rejects.toThrow('Test error');
+    });
+  });
+
+  describe('custom auth', () => {
+    it('should start a custom authentication', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminInitiateAuthCommand).resolves({
+        ChallengeName: 'CUSTOM_CHALLENGE',
+        ChallengeParameters: { email: 't***@example.com' },
+        Session: 'custom-session',
+      });
+
+      // Act
+      const result = await cognitoService.startCustomAuth({
+        username: 'testuser',
+        clientMetadata: { locale: 'en' },
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        challengeName: 'CUSTOM_CHALLENGE',
+        challengeParameters: { email: 't***@example.com' },
+        session: 'custom-session',
+        error: 'custom challenge answer required',
+      });
+      const commandCalls = mockCognitoClient.commandCalls(AdminInitiateAuthCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        ClientId: 'test-client-id',
+        AuthFlow: 'CUSTOM_AUTH',
+        AuthParameters: { USERNAME: 'testuser' },
+        ClientMetadata: { locale: 'en' },
+      });
+    });
+
+    it('should handle error when starting a custom authentication', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(AdminInitiateAuthCommand)
+        .rejects(new UserNotFoundException({ message: 'User does not exist.', $metadata: {} }));
+
+      // Act
+      const result = await cognitoService.startCustomAuth({ username: 'testuser' });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'User does not exist.',
+        errorCode: 'UserNotFoundException',
+      });
+    });
+
+    it('should answer a custom challenge', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminRespondToAuthChallengeCommand).resolves({
+        AuthenticationResult: {
+          AccessToken: 'access-token',
+          IdToken: 'id-token',
+          RefreshToken: 'refresh-token',
+          ExpiresIn: 3600,
+          TokenType: 'Bearer',
+        },
+      });
+
+      // Act
+      const result = await cognitoService.answerCustomChallenge({
+        username: 'testuser',
+        session: 'custom-session',
+        answer: '123456',
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.accessToken).toBe('access-token');
+      const commandCalls = mockCognitoClient.commandCalls(AdminRespondToAuthChallengeCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        ClientId: 'test-client-id',
+        ChallengeName: 'CUSTOM_CHALLENGE',
+        ChallengeResponses: { USERNAME: 'testuser', ANSWER: '123456' },
+        Session: 'custom-session',
+      });
+    });
+
+    it('should return the next challenge after a wrong answer', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminRespondToAuthChallengeCommand).resolves({
+        ChallengeName: 'CUSTOM_CHALLENGE',
+        ChallengeParameters: {},
+        Session: 'next-session',
+      });
+
+      // Act
+      const result = await cognitoService.answerCustomChallenge({
+        username: 'testuser',
+        session: 'custom-session',
+        answer: '000000',
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.challengeName).toBe('CUSTOM_CHALLENGE');
+      expect(result.session).toBe('next-session');
+    });
+  });
+
+  describe('client configuration', () => {
+    it('should build the client with the credentials, endpoint and retry settings', async () => {
+      // Arrange
+      const credentials = { accessKeyId: 'access-key-id', secretAccessKey: 'secret-access-key' };
+
+      // Act
+      cognitoService = new CognitoService({
+        ...config,
+        credentials,
+        endpoint: 'http://localhost:9229',
+        maxAttempts: 5,
+      });
+
+      // Assert
+      const clientConfig = cognitoService['client'].config;
+      await expect(clientConfig.region()).resolves.toBe('us-east-1');
+      await expect(clientConfig.credentials()).resolves.toEqual(
+        expect.objectContaining(credentials),
+      );
+      await expect(clientConfig.maxAttempts()).resolves.toBe(5);
+      await expect(clientConfig.endpoint?.()).resolves.toEqual(
+        expect.objectContaining({ hostname: 'localhost', port: 9229, protocol: 'http:' }),
+      );
+    });
+
+    it('should use an injected client', async () => {
+      // Arrange
+      const client = new CognitoIdentityProviderClient({ region: 'eu-west-1' });
+      const send = jest.spyOn(client, 'send').mockResolvedValue({} as never);
+      cognitoService = new CognitoService({ ...config, logger: mockLogger, client });
+
+      // Act
+      const result = await cognitoService.removeUser('testuser');
+
+      // Assert
+      expect(result).toBe(true);
+      expect(send).toHaveBeenCalledWith(expect.any(AdminDeleteUserCommand));
+    });
+  });
+
+  describe('identity providers', () => {
+    it('should create an identity provider', async () => {
+      // Arrange
+      mockCognitoClient.on(CreateIdentityProviderCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.createIdentityProvider({
+        providerName: 'Google',
+        providerType: 'Google',
+        providerDetails: {
+          client_id: 'google-client-id',
+          client_secret: 'google-client-secret',
+          authorize_scopes: 'openid email profile',
+        },
+        attributeMapping: { email: 'email' },
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(CreateIdentityProviderCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        ProviderName: 'Google',
+        ProviderType: 'Google',
+        ProviderDetails: {
+          client_id: 'google-client-id',
+          client_secret: 'google-client-secret',
+          authorize_scopes: 'openid email profile',
+        },
+        AttributeMapping: { email: 'email' },
+      });
+    });
+
+    it('should handle error when creating an identity provider', async () => {
+      // Arrange
+      mockCognitoClient.on(CreateIdentityProviderCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.createIdentityProvider({
+        providerName: 'AcmeSaml',
+        providerType: 'SAML',
+        providerDetails: { MetadataURL: 'https://idp.example.com/metadata' },
+      });
+
+      // Assert
+      expect(result).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should link a federated user to an existing user', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminLinkProviderForUserCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.linkProviderForUser({
+        username: 'testuser',
+        providerName: 'Google',
+        providerAttributeValue: 'google-subject',
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminLinkProviderForUserCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        DestinationUser: { ProviderName: 'Cognito', ProviderAttributeValue: 'testuser' },
+        SourceUser: {
+          ProviderName: 'Google',
+          ProviderAttributeName: 'Cognito_Subject',
+          ProviderAttributeValue: 'google-subject',
+        },
+      });
+    });
+
+    it('should handle error when linking a federated user', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminLinkProviderForUserCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.linkProviderForUser({
+        username: 'testuser',
+        providerName: 'Google',
+        providerAttributeValue: 'google-subject',
+      });
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it('should disable a federated user', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminDisableProviderForUserCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.disableProviderForUser({
+        providerName: 'AcmeSaml',
+        providerAttributeName: 'email',
+        providerAttributeValue: 'john@acme.com',
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminDisableProviderForUserCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        User: {
+          ProviderName: 'AcmeSaml',
+          ProviderAttributeName: 'email',
+          ProviderAttributeValue: 'john@acme.com',
+        },
+      });
+    });
+
+    it('should handle error when disabling a federated user', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminDisableProviderForUserCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.disableProviderForUser({
+        providerName: 'Google',
+        providerAttributeValue: 'google-subject',
+      });
+
+      // Assert
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('devices', () => {
+    it('should return the new device metadata on login', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminInitiateAuthCommand).resolves({
+        AuthenticationResult: {
+          AccessToken: 'access-token',
+          IdToken: 'id-token',
+          RefreshToken: 'refresh-token',
+          ExpiresIn: 3600,
+          TokenType: 'Bearer',
+          NewDeviceMetadata: { DeviceKey: 'device-key', DeviceGroupKey: 'group-key' },
+        },
+      });
+
+      // Act
+      const result = await cognitoService.login({ username: 'testuser', password: 'password' });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.newDeviceMetadata).toEqual({
+        deviceKey: 'device-key',
+        deviceGroupKey: 'group-key',
+      });
+    });
+
+    it('should confirm a device with a generated verifier', async () => {
+      // Arrange
+      mockCognitoClient.on(ConfirmDeviceCommand).resolves({ UserConfirmationNecessary: true });
+
+      // Act
+      const result = await cognitoService.confirmDevice({
+        accessToken: 'access-token',
+        deviceKey: 'device-key',
+        deviceGroupKey: 'group-key',
+        deviceName: 'Firefox on Linux',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        devicePassword: expect.any(String),
+        userConfirmationNecessary: true,
+      });
+      const commandCalls = mockCognitoClient.commandCalls(ConfirmDeviceCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        AccessToken: 'access-token',
+        DeviceKey: 'device-key',
+        DeviceSecretVerifierConfig: {
+          PasswordVerifier: expect.any(String),
+          Salt: expect.any(String),
+        },
+        DeviceName: 'Firefox on Linux',
+      });
+    });
+
+    it('should handle error when confirming a device', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(ConfirmDeviceCommand)
+        .rejects(
+          new NotAuthorizedException({ message: 'Access Token has expired', $metadata: {} }),
+        );
+
+      // Act
+      const result = await cognitoService.confirmDevice({
+        accessToken: 'expired-token',
+        deviceKey: 'device-key',
+        deviceGroupKey: 'group-key',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'Access Token has expired',
+        errorCode: 'NotAuthorizedException',
+      });
+    });
+
+    it('should list every device of the user', async () => {
+      // Arrange
+      const createdAt = new Date('2024-01-01T00:00:00Z');
+      mockCognitoClient
+        .on(ListDevicesCommand)
+        .resolvesOnce({
+          Devices: [
+            {
+              DeviceKey: 'device-1',
+              DeviceAttributes: [
+                { Name: 'device_name', Value: 'Firefox on Linux' },
+                { Name: 'dev:device_remembered_status', Value: 'remembered' },
+              ],
+              DeviceCreateDate: createdAt,
+            },
+          ],
+          PaginationToken: 'next',
+        })
+        .resolvesOnce({
+          Devices: [
+            {
+              DeviceKey: 'device-2',
+              DeviceAttributes: [{ Name: 'dev:device_remembered_status', Value: 'not_remembered' }],
+            },
+          ],
+        });
+
+      // Act
+      const result = await cognitoService.listDevices('access-token');
+
+      // Assert
+      expect(result).toEqual([
+        {
+          deviceKey: 'device-1',
+          deviceName: 'Firefox on Linux',
+          remembered: true,
+          attributes: {
+            device_name: 'Firefox on Linux',
+            'dev:device_remembered_status': 'remembered',
+          },
+          createdAt,
+        },
+        {
+          deviceKey: 'device-2',
+          remembered: false,
+          attributes: { 'dev:device_remembered_status': 'not_remembered' },
+        },
+      ]);
+      const commandCalls = mockCognitoClient.commandCalls(ListDevicesCommand);
+      expect(commandCalls[1]?.args[0].input).toEqual({
+        AccessToken: 'access-token',
+        Limit: 60,
+        PaginationToken: 'next',
+      });
+    });
+
+    it('should handle error when listing devices', async () => {
+      // Arrange
+      mockCognitoClient.on(ListDevicesCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.listDevices('access-token');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should forget a device of a user', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminForgetDeviceCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.forgetDevice('testuser', 'device-key');
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(AdminForgetDeviceCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+        DeviceKey: 'device-key',
+      });
+    });
+
+    it('should handle error when forgetting a device', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminForgetDeviceCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.forgetDevice('testuser', 'device-key');
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it.each([
+      [true, 'remembered'],
+      [false, 'not_remembered'],
+    ])('should update the device status (remembered: %s)', async (remembered, status) => {
+      // Arrange
+      mockCognitoClient.on(UpdateDeviceStatusCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.updateDeviceStatus({
+        accessToken: 'access-token',
+        deviceKey: 'device-key',
+        remembered,
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      const commandCalls = mockCognitoClient.commandCalls(UpdateDeviceStatusCommand);
+      expect(commandCalls[0]?.args[0].input).toEqual({
+        AccessToken: 'access-token',
+        DeviceKey: 'device-key',
+        DeviceRememberedStatus: status,
+      });
+    });
+
+    it('should handle error when updating the device status', async () => {
+      // Arrange
+      mockCognitoClient.on(UpdateDeviceStatusCommand).rejects(new Error('Test error'));
+
+      // Act
+      const result = await cognitoService.updateDeviceStatus({
+        accessToken: 'access-token',
+        deviceKey: 'device-key',
+        remembered: true,
+      });
+
+      // Assert
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('password policy', () => {
+    it('should load the password policy of the user pool', async () => {
+      // Arrange
+      mockCognitoClient.on(DescribeUserPoolCommand).resolves({
+        UserPool: {
+          Policies: {
+            PasswordPolicy: {
+              MinimumLength: 12,
+              RequireUppercase: true,
+              RequireLowercase: true,
+              RequireNumbers: true,
+              RequireSymbols: false,
+            },
+          },
+        },
+      });
+
+      // Act
+      const policy = await cognitoService.getPasswordPolicy();
+
+      // Assert
+      expect(policy?.rules.minimumLength).toBe(12);
+      expect(policy?.validate('NoSymbols123').valid).toBe(true);
+      expect(mockCognitoClient.commandCalls(DescribeUserPoolCommand)[0]?.args[0].input).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+      });
+    });
+
+    it('should return null when the user pool cannot be described', async () => {
+      // Arrange
+      mockCognitoClient.on(DescribeUserPoolCommand).rejects(new Error('Test error'));
+
+      // Act
+      const policy = await cognitoService.getPasswordPolicy();
+
+      // Assert
+      expect(policy).toBeNull();
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should reject a password violating the configured policy without calling cognito', async () => {
+      // Arrange
+      const strictService = new CognitoService({
+        ...config,
+        logger: mockLogger,
+        throwOnError: true,
+        passwordPolicy: { minimumLength: 12 },
+      });
+
+      // Act & Assert
+      await expect(
+        strictService.setUserPassword({
+          username: 'testuser',
+          password: 'Sh0rt-Pwd',
+          permanent: true,
+        }),
+      ).rejects.toThrow(InvalidPasswordError);
+      await expect(
+        strictService.addUser({
+          username: 'testuser',
+          email: 'test@example.com',
+          temporaryPassword: 'weak',
+          isVerified: true,
+        }),
+      ).rejects.toThrow('password must be at least 12 characters long');
+      expect(mockCognitoClient.commandCalls(AdminSetUserPasswordCommand)).toHaveLength(0);
+      expect(mockCognitoClient.commandCalls(AdminCreateUserCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('auth events', () => {
+    const signInEvent = (
+      eventId: string,
+      creationDate: Date,
+      eventResponse: 'Pass' | 'Fail',
+      riskDecision: 'NoRisk' | 'Block' = 'NoRisk',
+      ipAddress = '203.0.113.10',
+    ): AuthEventType => ({
+      EventId: eventId,
+      EventType: 'SignIn',
+      CreationDate: creationDate,
+      EventResponse: eventResponse,
+      EventRisk: {
+        RiskDecision: riskDecision,
+        RiskLevel: riskDecision === 'Block' ? 'High' : 'Low',
+      },
+      ChallengeResponses: [
+        {
+          ChallengeName: 'Password',
+          ChallengeResponse: eventResponse === 'Pass' ? 'Success' : 'Failure',
+        },
+      ],
+      EventContextData: {
+        IpAddress: ipAddress,
+        DeviceName: 'Firefox',
+        City: 'Milan',
+        Country: 'Italy',
+      },
+    });
+
+    it('should list a page of typed auth events', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminListUserAuthEventsCommand).resolves({
+        AuthEvents: [
+          {
+            ...signInEvent('event-1', new Date('2026-10-18T10:00:00Z'), 'Fail', 'Block'),
+            EventFeedback: { FeedbackValue: 'Invalid', Provider: 'Admin' },
+          },
+        ],
+        NextToken: 'next-token',
+      });
+
+      // Act
+      const result = await cognitoService.listAuthEvents({ username: 'testuser', limit: 10 });
+
+      // Assert
+      expect(result).toEqual({
+        events: [
+          {
+            eventId: 'event-1',
+            eventType: 'SignIn',
+            createdAt: new Date('2026-10-18T10:00:00Z'),
+            outcome: 'Fail',
+            riskLevel: 'High',
+            riskDecision: 'Block',
+            challenges: [{ challengeName: 'Password', success: false }],
+            ipAddress: '203.0.113.10',
+            deviceName: 'Firefox',
+            city: 'Milan',
+            country: 'Italy',
+            feedback: 'Invalid',
+          },
+        ],
+        paginationToken: 'next-token',
+      });
+      expect(
+        mockCognitoClient.commandCalls(AdminListUserAuthEventsCommand)[0]?.args[0].input,
+      ).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+        MaxResults: 10,
+      });
+    });
+
+    it('should return null when the events cannot be listed', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(AdminListUserAuthEventsCommand)
+        .rejects(new UserNotFoundException({ message: 'User does not exist.', $metadata: {} }));
+
+      // Act
+      const result = await cognitoService.listAuthEvents({ username: 'unknown' });
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should send the feedback on an auth event', async () => {
+      // Arrange
+      mockCognitoClient.on(AdminUpdateAuthEventFeedbackCommand).resolves({});
+
+      // Act
+      const result = await cognitoService.updateAuthEventFeedback({
+        username: 'testuser',
+        eventId: 'event-1',
+        feedback: 'valid',
+      });
+
+      // Assert
+      expect(result).toBe(true);
+      expect(
+        mockCognitoClient.commandCalls(AdminUpdateAuthEventFeedbackCommand)[0]?.args[0].input,
+      ).toEqual({
+        UserPoolId: 'us-east-1_testpool',
+        Username: 'testuser',
+        EventId: 'event-1',
+        FeedbackValue: 'Valid',
+      });
+    });
+
+    it('should summarize the failed logins since a date', async () => {
+      // Arrange
+      mockCognitoClient
+        .on(AdminListUserAuthEventsCommand)
+        .resolvesOnce({
+          AuthEvents: [
+            signInEvent(
+              'event-4',
+              new Date('2026-10-18T12:00:00Z'),
+              'Fail',
+              'Block',
+              '198.51.100.7',
+            ),
+            signInEvent('event-3', new Date('2026-10-18T11:00:00Z'), 'Pass'),
+          ],
+          NextToken: 'next-token',
+        })
+        .resolvesOnce({
+          AuthEvents: [
+            signInEvent('event-2', new Date('2026-10-18T10:00:00Z'), 'Fail'),
+            signInEvent('event-1', new Date('2026-10-17T10:00:00Z'), 'Fail'),
+          ],
+          NextToken: 'older-token',
+        });
+
+      // Act
+      const result = await cognitoService.getFailedLoginSummary('testuser', {
+        since: new Date('2026-10-18T00:00:00Z'),
+      });
+
+      // Assert
+      expect(result).toEqual({
+        username: 'testuser',
+        failedAttempts: 2,
+        blockedAttempts: 1,
+        highRiskAttempts: 1,
+        lastFailedAt: new Date('2026-10-18T12:00:00Z'),
+        ipAddresses: ['198.51.100.7', '203.0.113.10'],
+        events: [
+          expect.objectContaining({ eventId: 'event-4' }),
+          expect.objectContaining({ eventId: 'event-2' }),
+        ],
+      });
+      expect(mockCognitoClient.commandCalls(AdminListUserAuthEventsCommand)).toHaveLength(2);
+    });
+  });
 });
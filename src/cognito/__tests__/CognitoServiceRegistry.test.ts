@@ -0,0 +1,275 @@
+import { Logger } from '@nestjs/common';
+
+import { InvalidParameterError, NotAuthorizedError } from '../CognitoErrors';
+import { CognitoServiceRegistry } from '../CognitoServiceRegistry';
+import { InMemoryCognitoService } from '../InMemoryCognitoService';
+import { CognitoTenantConfig } from '../types';
+
+// token with the given issuer and no valid signature
+const unsignedToken = (iss: string): string =>
+  [{ alg: 'RS256', kid: 'key' }, { iss, token_use: 'access' }, 'signature']
+    .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+    .join('.');
+
+describe('CognitoServiceRegistry', () => {
+  const mockLogger = { error: jest.fn() } as unknown as Logger;
+  let tenantPool: InMemoryCognitoService;
+  let accessToken: string;
+
+  const tenantConfig = (): CognitoTenantConfig => ({
+    region: tenantPool.userPool.region,
+    userPoolId: tenantPool.userPool.userPoolId,
+    clientId: tenantPool.userPool.clientId,
+    enableCognitoEmail: false,
+    jwksSource: tenantPool.userPool.jwksSource,
+  });
+
+  beforeAll(async () => {
+    // one pool for the suite, generating its signing key is slow
+    tenantPool = new InMemoryCognitoService({ userPoolId: 'us-east-1_acme', logger: mockLogger });
+    await tenantPool.addUser({
+      username: 'john',
+      email: 'john@acme.example.com',
+      temporaryPassword: 'Temp-Passw0rd',
+      isVerified: true,
+    });
+    await tenantPool.setUserPassword({
+      username: 'john',
+      password: 'Str0ng-Password',
+      permanent: true,
+    });
+    const result = await tenantPool.login({ username: 'john', password: 'Str0ng-Password' });
+    accessToken = result.accessToken || '';
+  });
+
+  describe('get', () => {
+    it('should resolve each tenant once and cache its service', async () => {
+      // Arrange
+      const resolveTenant = jest.fn().mockResolvedValue(tenantConfig());
+      const registry = new CognitoServiceRegistry({ resolveTenant, logger: mockLogger });
+
+      // Act
+      const [first, second] = await Promise.all([registry.get('acme'), registry.get('acme')]);
+
+      // Assert
+      expect(first).toBe(second);
+      expect(resolveTenant).toHaveBeenCalledTimes(1);
+      expect(resolveTenant).toHaveBeenCalledWith('acme');
+      expect(registry.has('acme')).toBe(true);
+    });
+
+    it('should share the sdk client of a region', async () => {
+      // Arrange
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: (tenantId): CognitoTenantConfig => ({
+          ...tenantConfig(),
+          region: tenantId === 'globex' ? 'eu-west-1' : 'us-east-1',
+          userPoolId: `pool-${tenantId}`,
+        }),
+        logger: mockLogger,
+      });
+
+      // Act
+      const acme = await registry.get('acme');
+      const initech = await registry.get('initech');
+      const globex = await registry.get('globex');
+
+      // Assert
+      expect(Reflect.get(acme, 'client')).toBe(Reflect.get(initech, 'client'));
+      expect(Reflect.get(acme, 'client')).not.toBe(Reflect.get(globex, 'client'));
+    });
+
+    it('should resolve a tenant again after a failure or an eviction', async () => {
+      // Arrange
+      const resolveTenant = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('database unavailable'))
+        .mockResolvedValue(tenantConfig());
+      const registry = new CognitoServiceRegistry({ resolveTenant, logger: mockLogger });
+
+      // Act & Assert
+      await expect(registry.get('acme')).rejects.toThrow('database unavailable');
+      expect(registry.has('acme')).toBe(false);
+
+      const service = await registry.get('acme');
+      registry.evict('acme');
+      expect(await registry.get('acme')).not.toBe(service);
+      expect(resolveTenant).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not route tokens to a tenant evicted while resolving', async () => {
+      // Arrange
+      let resolve: (config: CognitoTenantConfig) => void = () => undefined;
+      const config = new Promise<CognitoTenantConfig>((done) => (resolve = done));
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: jest.fn().mockReturnValue(config),
+        logger: mockLogger,
+      });
+
+      // Act
+      const pending = registry.get('acme');
+      registry.evict('acme');
+      resolve(tenantConfig());
+      await pending;
+      const result = await registry.verifyJwt(accessToken);
+
+      // Assert
+      expect(registry.has('acme')).toBe(false);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a tenant sharing the user pool of another loaded tenant', async () => {
+      // Arrange
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: tenantConfig,
+        logger: mockLogger,
+      });
+      await registry.get('acme');
+
+      // Act & Assert
+      await expect(registry.get('initech')).rejects.toThrow(
+        new InvalidParameterError('user pool us-east-1_acme is already used by tenant acme', ''),
+      );
+      expect(registry.has('initech')).toBe(false);
+    });
+
+    it('should reject the second of two tenants resolving the same user pool at once', async () => {
+      // Arrange
+      const resolvers: Record<string, (config: CognitoTenantConfig) => void> = {};
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: jest.fn(
+          (tenantId: string) =>
+            new Promise<CognitoTenantConfig>((done) => (resolvers[tenantId] = done)),
+        ),
+        logger: mockLogger,
+      });
+
+      // Act
+      const acme = registry.get('acme');
+      const initech = registry.get('initech');
+      resolvers.initech?.(tenantConfig());
+      resolvers.acme?.(tenantConfig());
+      const results = await Promise.allSettled([acme, initech]);
+      const result = await registry.verifyJwt(accessToken);
+
+      // Assert
+      expect(results.map(({ status }) => status)).toEqual(['rejected', 'fulfilled']);
+      await expect(acme).rejects.toThrow(
+        new InvalidParameterError('user pool us-east-1_acme is already used by tenant initech', ''),
+      );
+      expect(registry.has('acme')).toBe(false);
+      expect(result.tenantId).toBe('initech');
+    });
+  });
+
+  describe('verifyJwt', () => {
+    it('should verify a token with the service of a loaded tenant', async () => {
+      // Arrange
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: tenantConfig,
+        logger: mockLogger,
+      });
+      await registry.get('acme');
+
+      // Act
+      const result = await registry.verifyJwt(accessToken, 'access');
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({ success: true, username: 'john', tenantId: 'acme' }),
+      );
+    });
+
+    it('should look up the tenant of a token issuer not loaded yet', async () => {
+      // Arrange
+      const resolveTenantId = jest.fn().mockResolvedValue('acme');
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: tenantConfig,
+        resolveTenantId,
+        logger: mockLogger,
+      });
+
+      // Act
+      const result = await registry.verifyJwt(accessToken);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.tenantId).toBe('acme');
+      expect(resolveTenantId).toHaveBeenCalledWith({
+        region: 'us-east-1',
+        userPoolId: 'us-east-1_acme',
+      });
+    });
+
+    it('should reject a token of an unknown issuer', async () => {
+      // Arrange
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: tenantConfig,
+        logger: mockLogger,
+      });
+
+      // Act
+      const result = await registry.verifyJwt(accessToken);
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: 'unknown token issuer: https://cognito-idp.us-east-1.amazonaws.com/us-east-1_acme',
+        errorCode: 'NotAuthorizedException',
+      });
+    });
+
+    it('should not look up an issuer without a tenant again', async () => {
+      // Arrange
+      const resolveTenantId = jest.fn().mockResolvedValue(undefined);
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: tenantConfig,
+        resolveTenantId,
+        logger: mockLogger,
+        maxUnknownIssuers: 1,
+      });
+      const issuer = (userPoolId: string): string =>
+        `https://cognito-idp.us-east-1.amazonaws.com/${userPoolId}`;
+
+      // Act
+      await registry.verifyJwt(unsignedToken(issuer('us-east-1_forged1')));
+      await registry.verifyJwt(unsignedToken(issuer('us-east-1_forged1')));
+      await registry.verifyJwt(unsignedToken(issuer('us-east-1_forged2')));
+      await registry.verifyJwt(unsignedToken(issuer('us-east-1_forged1')));
+
+      // Assert
+      expect(resolveTenantId).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not look up an issuer whose pool id does not match its region', async () => {
+      // Arrange
+      const resolveTenantId = jest.fn().mockResolvedValue('acme');
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: tenantConfig,
+        resolveTenantId,
+        logger: mockLogger,
+      });
+
+      // Act
+      const result = await registry.verifyJwt(
+        unsignedToken('https://cognito-idp.us-east-1.amazonaws.com/eu-west-1_acme'),
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(resolveTenantId).not.toHaveBeenCalled();
+    });
+
+    it('should throw typed errors in throwing mode', async () => {
+      // Arrange
+      const registry = new CognitoServiceRegistry({
+        resolveTenant: tenantConfig,
+        logger: mockLogger,
+        throwOnError: true,
+      });
+
+      // Act & Assert
+      await expect(registry.verifyJwt('not-a-token')).rejects.toThrow(NotAuthorizedError);
+    });
+  });
+});
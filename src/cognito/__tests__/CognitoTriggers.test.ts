@@ -0,0 +1,611 @@
+import {
+  createCreateAuthChallengeHandler,
+  createCustomMessageHandler,
+  createDefineAuthChallengeHandler,
+  createPostAuthenticationHandler,
+  createPreAuthenticationHandler,
+  createPreSignUpHandler,
+  createPreTokenGenerationHandler,
+  createUserMigrationHandler,
+  createVerifyAuthChallengeResponseHandler,
+} from '../CognitoTriggers';
+import { EmailSender } from '../../email/EmailSender';
+import { LoggerService } from '../../logger/LoggerService';
+import { OtpService } from '../../otp/OtpService';
+import {
+  ChallengeResult,
+  CreateAuthChallengeTriggerEvent,
+  DefineAuthChallengeTriggerEvent,
+  VerifyAuthChallengeResponseTriggerEvent,
+  CustomMessageTriggerEvent,
+  PostAuthenticationTriggerEvent,
+  PreAuthenticationTriggerEvent,
+  PreSignUpTriggerEvent,
+  PreTokenGenerationTriggerEvent,
+  UserMigrationTriggerEvent,
+} from '../types';
+
+const baseEvent = {
+  version: '1',
+  region: 'us-east-1',
+  userPoolId: 'us-east-1_testpool',
+  userName: 'testuser',
+  callerContext: { awsSdkVersion: 'aws-sdk-unknown-unknown', clientId: 'test-client-id' },
+};
+
+describe('CognitoTriggers', () => {
+  let logger: LoggerService;
+
+  beforeEach(() => {
+    logger = { debug: jest.fn(), error: jest.fn() } as unknown as LoggerService;
+  });
+
+  describe('createUserMigrationHandler', () => {
+    const event = (
+      triggerSource: UserMigrationTriggerEvent['triggerSource'],
+    ): UserMigrationTriggerEvent => ({
+      ...baseEvent,
+      triggerSource,
+      request: { password: 'legacy-password' },
+      response: {},
+    });
+
+    it('should migrate a user on sign in with a confirmed status and no welcome message', async () => {
+      // Arrange
+      const migrate = jest.fn().mockResolvedValue({
+        userAttributes: { email: 'test@example.com', email_verified: 'true' },
+      });
+      const handler = createUserMigrationHandler(migrate, { logger });
+
+      // Act
+      const result = await handler(event('UserMigration_Authentication'));
+
+      // Assert
+      expect(migrate).toHaveBeenCalledWith(
+        expect.objectContaining({ request: { password: 'legacy-password' } }),
+      );
+      expect(result.response).toEqual({
+        userAttributes: { email: 'test@example.com', email_verified: 'true' },
+        finalUserStatus: 'CONFIRMED',
+        messageAction: 'SUPPRESS',
+      });
+    });
+
+    it('should not force the status of users migrated by a password reset', async () => {
+      // Arrange
+      const handler = createUserMigrationHandler(
+        async () => ({ userAttributes: { email: 'test@example.com' } }),
+        { logger },
+      );
+
+      // Act
+      const result = await handler(event('UserMigration_ForgotPassword'));
+
+      // Assert
+      expect(result.response.finalUserStatus).toBeUndefined();
+    });
+
+    it('should fail when the user is unknown', async () => {
+      // Arrange
+      const handler = createUserMigrationHandler(async () => null, { logger });
+
+      // Act & Assert
+      await expect(handler(event('UserMigration_Authentication'))).rejects.toThrow(
+        'user not found',
+      );
+      expect(logger.error).toHaveBeenCalled();
+    });
+
+    it('should reject a sub attribute', async () => {
+      // Arrange
+      const handler = createUserMigrationHandler(
+        async () => ({ userAttributes: { sub: 'legacy-id' } }),
+        { logger },
+      );
+
+      // Act & Assert
+      await expect(handler(event('UserMigration_Authentication'))).rejects.toThrow(
+        'the sub attribute of a migrated user cannot be set',
+      );
+    });
+
+    it('should reject events of other triggers', async () => {
+      // Arrange
+      const handler = createUserMigrationHandler(async () => null, { logger });
+      const otherEvent = {
+        ...event('UserMigration_Authentication'),
+        triggerSource: 'PreSignUp_SignUp',
+      } as unknown as UserMigrationTriggerEvent;
+
+      // Act & Assert
+      await expect(handler(otherEvent)).rejects.toThrow('invalid trigger event: PreSignUp_SignUp');
+    });
+  });
+
+  describe('createPreSignUpHandler', () => {
+    const event = (userAttributes: Record<string, string>): PreSignUpTriggerEvent => ({
+      ...baseEvent,
+      triggerSource: 'PreSignUp_SignUp',
+      request: { userAttributes },
+      response: { autoConfirmUser: false, autoVerifyEmail: false, autoVerifyPhone: false },
+    });
+
+    it('should fill the response with the decision and false defaults', async () => {
+      // Arrange
+      const handler = createPreSignUpHandler(
+        async () => ({ autoConfirmUser: true, autoVerifyEmail: true }),
+        { logger },
+      );
+
+      // Act
+      const result = await handler(event({ email: 'test@example.com' }));
+
+      // Assert
+      expect(result.response).toEqual({
+        autoConfirmUser: true,
+        autoVerifyEmail: true,
+        autoVerifyPhone: false,
+      });
+    });
+
+    it('should reject verifying a missing attribute', async () => {
+      // Arrange
+      const handler = createPreSignUpHandler(async () => ({ autoVerifyPhone: true }), { logger });
+
+      // Act & Assert
+      await expect(handler(event({ email: 'test@example.com' }))).rejects.toThrow(
+        'autoVerifyPhone requires a phone_number attribute',
+      );
+    });
+
+    it('should propagate the rejection of the sign up', async () => {
+      // Arrange
+      const handler = createPreSignUpHandler(
+        async () => {
+          throw new Error('email domain not allowed');
+        },
+        { logger },
+      );
+
+      // Act & Assert
+      await expect(handler(event({ email: 'test@example.com' }))).rejects.toThrow(
+        'email domain not allowed',
+      );
+    });
+  });
+
+  describe('authentication handlers', () => {
+    it('should run the pre authentication check', async () => {
+      // Arrange
+      const check = jest.fn().mockResolvedValue(undefined);
+      const handler = createPreAuthenticationHandler(check, { logger });
+      const event: PreAuthenticationTriggerEvent = {
+        ...baseEvent,
+        triggerSource: 'PreAuthentication_Authentication',
+        request: { userAttributes: { email: 'test@example.com' } },
+        response: {},
+      };
+
+      // Act
+      const result = await handler(event);
+
+      // Assert
+      expect(result).toBe(event);
+      expect(check).toHaveBeenCalledWith(event);
+    });
+
+    it('should run the post authentication handler', async () => {
+      // Arrange
+      const handle = jest.fn().mockResolvedValue(undefined);
+      const handler = createPostAuthenticationHandler(handle, { logger });
+      const event: PostAuthenticationTriggerEvent = {
+        ...baseEvent,
+        triggerSource: 'PostAuthentication_Authentication',
+        request: { userAttributes: {}, newDeviceUsed: true },
+        response: {},
+      };
+
+      // Act
+      await handler(event);
+
+      // Assert
+      expect(handle).toHaveBeenCalledWith(event);
+      expect(logger.debug).toHaveBeenCalledWith('PostAuthentication_Authentication for testuser');
+    });
+  });
+
+  describe('createPreTokenGenerationHandler', () => {
+    const event = (): PreTokenGenerationTriggerEvent => ({
+      ...baseEvent,
+      triggerSource: 'TokenGeneration_Authentication',
+      request: {
+        userAttributes: { 'custom:tenant': 'acme' },
+        groupConfiguration: { groupsToOverride: [], iamRolesToOverride: [] },
+      },
+      response: {},
+    });
+
+    it('should set the claims override details', async () => {
+      // Arrange
+      const handler = createPreTokenGenerationHandler(
+        async (trigger) => ({
+          claimsToAddOrOverride: { tenant: trigger.request.userAttributes['custom:tenant']! },
+          claimsToSuppress: ['email'],
+        }),
+        { logger },
+      );
+
+      // Act
+      const result = await handler(event());
+
+      // Assert
+      expect(result.response).toEqual({
+        claimsOverrideDetails: {
+          claimsToAddOrOverride: { tenant: 'acme' },
+          claimsToSuppress: ['email'],
+        },
+      });
+    });
+
+    it.each(['sub', 'cognito:groups'])('should reject changing the %s claim', async (claim) => {
+      // Arrange
+      const handler = createPreTokenGenerationHandler(
+        async () => ({ claimsToAddOrOverride: { [claim]: 'value' } }),
+        { logger },
+      );
+
+      // Act & Assert
+      await expect(handler(event())).rejects.toThrow(`the ${claim} claim cannot be changed`);
+    });
+  });
+
+  describe('createCustomMessageHandler', () => {
+    const event = (
+      triggerSource: CustomMessageTriggerEvent['triggerSource'],
+    ): CustomMessageTriggerEvent => ({
+      ...baseEvent,
+      triggerSource,
+      request: { userAttributes: {}, codeParameter: '{####}', usernameParameter: '{username}' },
+      response: {},
+    });
+
+    it('should set the messages', async () => {
+      // Arrange
+      const handler = createCustomMessageHandler(
+        async () => ({ emailSubject: 'Your code', emailMessage: 'Your code is {####}' }),
+        { logger },
+      );
+
+      // Act
+      const result = await handler(event('CustomMessage_ForgotPassword'));
+
+      // Assert
+      expect(result.response).toEqual({
+        emailSubject: 'Your code',
+        emailMessage: 'Your code is {####}',
+      });
+    });
+
+    it('should keep the default messages when nothing is returned', async () => {
+      // Arrange
+      const handler = createCustomMessageHandler(async () => undefined, { logger });
+
+      // Act
+      const result = await handler(event('CustomMessage_SignUp'));
+
+      // Assert
+      expect(result.response).toEqual({});
+    });
+
+    it('should reject a message without the code placeholder', async () => {
+      // Arrange
+      const handler = createCustomMessageHandler(async () => ({ smsMessage: 'Welcome!' }), {
+        logger,
+      });
+
+      // Act & Assert
+      await expect(handler(event('CustomMessage_SignUp'))).rejects.toThrow(
+        'the message must contain the code placeholder {####}',
+      );
+    });
+
+    it('should require the username placeholder in admin create user messages', async () => {
+      // Arrange
+      const handler = createCustomMessageHandler(
+        async () => ({ emailMessage: 'Your temporary password is {####}' }),
+        { logger },
+      );
+
+      // Act & Assert
+      await expect(handler(event('CustomMessage_AdminCreateUser'))).rejects.toThrow(
+        'the message must contain the username placeholder {username}',
+      );
+    });
+  });
+
+  describe('passwordless email code flow', () => {
+    const wrongAnswer: ChallengeResult = {
+      challengeName: 'CUSTOM_CHALLENGE',
+      challengeResult: false,
+    };
+
+    describe('createDefineAuthChallengeHandler', () => {
+      const event = (
+        session: ChallengeResult[],
+        userNotFound = false,
+      ): DefineAuthChallengeTriggerEvent => ({
+        ...baseEvent,
+        triggerSource: 'DefineAuthChallenge_Authentication',
+        request: { userAttributes: {}, session, userNotFound },
+        response: { issueTokens: false, failAuthentication: false },
+      });
+
+      it.each([
+        [
+          'present a custom challenge first',
+          [],
+          { challengeName: 'CUSTOM_CHALLENGE', issueTokens: false, failAuthentication: false },
+        ],
+        [
+          'present another challenge after a wrong answer',
+          [wrongAnswer],
+          { challengeName: 'CUSTOM_CHALLENGE', issueTokens: false, failAuthentication: false },
+        ],
+        [
+          'issue the tokens after a correct answer',
+          [wrongAnswer, { challengeName: 'CUSTOM_CHALLENGE', challengeResult: true }],
+          { issueTokens: true, failAuthentication: false },
+        ],
+        [
+          'fail after too many wrong answers',
+          [wrongAnswer, wrongAnswer, wrongAnswer],
+          { issueTokens: false, failAuthentication: true },
+        ],
+        [
+          'fail when another challenge was used',
+          [{ challengeName: 'SRP_A', challengeResult: true }],
+          { issueTokens: false, failAuthentication: true },
+        ],
+      ])('should %s', async (_case, session, expected) => {
+        // Arrange
+        const handler = createDefineAuthChallengeHandler({ logger });
+
+        // Act
+        const result = await handler(event(session as ChallengeResult[]));
+
+        // Assert
+        expect(result.response).toEqual(expected);
+      });
+
+      it.each([
+        [
+          'present custom challenges to unknown users',
+          [wrongAnswer],
+          { challengeName: 'CUSTOM_CHALLENGE', issueTokens: false, failAuthentication: false },
+        ],
+        [
+          'fail for unknown users after too many wrong answers',
+          [wrongAnswer, wrongAnswer, wrongAnswer],
+          { issueTokens: false, failAuthentication: true },
+        ],
+      ])('should %s', async (_case, session, expected) => {
+        // Arrange
+        const handler = createDefineAuthChallengeHandler({ logger });
+
+        // Act
+        const result = await handler(event(session as ChallengeResult[], true));
+
+        // Assert
+        expect(result.response).toEqual(expected);
+      });
+    });
+
+    describe('createCreateAuthChallengeHandler', () => {
+      let otpService: OtpService;
+      let emailSender: EmailSender;
+
+      const event = (
+        session: ChallengeResult[],
+        userNotFound = false,
+        userName = baseEvent.userName,
+      ): CreateAuthChallengeTriggerEvent => ({
+        ...baseEvent,
+        userName,
+        triggerSource: 'CreateAuthChallenge_Authentication',
+        request: {
+          userAttributes: userNotFound ? {} : { email: 'john@example.com' },
+          challengeName: 'CUSTOM_CHALLENGE',
+          session,
+          userNotFound,
+        },
+        response: { publicChallengeParameters: {}, privateChallengeParameters: {} },
+      });
+
+      beforeEach(() => {
+        otpService = new OtpService();
+        jest
+          .spyOn(otpService, 'createOtp')
+          .mockReturnValue({ otp: '123456', hash: 'otp-hash', expiresAt: new Date() });
+        emailSender = { send: jest.fn().mockResolvedValue({}) };
+      });
+
+      it('should email a new code and keep only its hash', async () => {
+        // Arrange
+        const handler = createCreateAuthChallengeHandler({
+          otpService,
+          emailSender,
+          from: 'noreply@example.com',
+          logger,
+        });
+
+        // Act
+        const result = await handler(event([]));
+
+        // Assert
+        expect(emailSender.send).toHaveBeenCalledWith({
+          to: 'john@example.com',
+          from: 'noreply@example.com',
+          subject: 'Your sign in code',
+          text: 'Your sign in code is 123456',
+        });
+        expect(result.response.publicChallengeParameters).toEqual({ email: 'j***@example.com' });
+        expect(result.response.privateChallengeParameters).toEqual({
+          hash: 'otp-hash',
+          createdAt: expect.any(String),
+        });
+        expect(JSON.stringify(result.response)).not.toContain('123456');
+      });
+
+      it('should use the email builder', async () => {
+        // Arrange
+        const handler = createCreateAuthChallengeHandler({
+          otpService,
+          emailSender,
+          from: 'noreply@example.com',
+          buildEmail: (code) => ({ subject: 'Sign in', html: `<b>${code}</b>` }),
+          logger,
+        });
+
+        // Act
+        await handler(event([]));
+
+        // Assert
+        expect(emailSender.send).toHaveBeenCalledWith(
+          expect.objectContaining({ subject: 'Sign in', html: '<b>123456</b>' }),
+        );
+      });
+
+      it('should reuse the code of the previous attempt', async () => {
+        // Arrange
+        const handler = createCreateAuthChallengeHandler({
+          otpService,
+          emailSender,
+          from: 'noreply@example.com',
+          logger,
+        });
+        const first = await handler(event([]));
+        (emailSender.send as jest.Mock).mockClear();
+
+        // Act
+        const result = await handler(
+          event([{ ...wrongAnswer, challengeMetadata: first.response.challengeMetadata! }]),
+        );
+
+        // Assert
+        expect(emailSender.send).not.toHaveBeenCalled();
+        expect(result.response.privateChallengeParameters).toEqual(
+          first.response.privateChallengeParameters,
+        );
+      });
+
+      it('should not send any email to unknown users', async () => {
+        // Arrange
+        const handler = createCreateAuthChallengeHandler({
+          otpService,
+          emailSender,
+          from: 'noreply@example.com',
+          logger,
+        });
+
+        // Act
+        const result = await handler(event([], true));
+
+        // Assert
+        expect(emailSender.send).not.toHaveBeenCalled();
+        expect(result.response.publicChallengeParameters).toEqual({ email: 't***@gmail.com' });
+        expect(result.response.privateChallengeParameters.hash).not.toBe('otp-hash');
+      });
+
+      it('should challenge unknown users like existing ones', async () => {
+        // Arrange
+        const defineHandler = createDefineAuthChallengeHandler({ logger });
+        const createHandler = createCreateAuthChallengeHandler({
+          otpService,
+          emailSender,
+          from: 'noreply@example.com',
+          unknownUserEmailDomain: 'example.com',
+          logger,
+        });
+
+        // Act
+        const defined = await defineHandler({
+          ...baseEvent,
+          userName: 'jane@example.org',
+          triggerSource: 'DefineAuthChallenge_Authentication',
+          request: { userAttributes: {}, session: [], userNotFound: true },
+          response: { issueTokens: false, failAuthentication: false },
+        });
+        const created = await createHandler(event([], true, 'jane@example.org'));
+        const retried = await createHandler(
+          event(
+            [{ ...wrongAnswer, challengeMetadata: created.response.challengeMetadata! }],
+            true,
+            'jane@example.org',
+          ),
+        );
+
+        // Assert
+        expect(defined.response).toEqual({
+          challengeName: 'CUSTOM_CHALLENGE',
+          issueTokens: false,
+          failAuthentication: false,
+        });
+        expect(created.response.publicChallengeParameters).toEqual({ email: 'j***@example.org' });
+        expect(retried.response).toEqual(created.response);
+        expect(emailSender.send).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('createVerifyAuthChallengeResponseHandler', () => {
+      const otpService = new OtpService();
+      const { otp, hash } = otpService.createOtp();
+
+      const event = (
+        challengeAnswer: string,
+        createdAt = new Date(),
+      ): VerifyAuthChallengeResponseTriggerEvent => ({
+        ...baseEvent,
+        triggerSource: 'VerifyAuthChallengeResponse_Authentication',
+        request: {
+          userAttributes: {},
+          privateChallengeParameters: { hash, createdAt: createdAt.toISOString() },
+          challengeAnswer,
+        },
+        response: { answerCorrect: false },
+      });
+
+      it('should accept the emailed code', async () => {
+        // Arrange
+        const handler = createVerifyAuthChallengeResponseHandler({ otpService, logger });
+
+        // Act
+        const result = await handler(event(otp));
+
+        // Assert
+        expect(result.response.answerCorrect).toBe(true);
+      });
+
+      it('should reject a wrong code', async () => {
+        // Arrange
+        const handler = createVerifyAuthChallengeResponseHandler({ otpService, logger });
+
+        // Act
+        const result = await handler(event(otp === '000000' ? '111111' : '000000'));
+
+        // Assert
+        expect(result.response.answerCorrect).toBe(false);
+      });
+
+      it('should reject an expired code', async () => {
+        // Arrange
+        const handler = createVerifyAuthChallengeResponseHandler({ otpService, logger });
+
+        // Act
+        const result = await handler(event(otp, new Date(Date.now() - 60 * 60 * 1000)));
+
+        // Assert
+        expect(result.response.answerCorrect).toBe(false);
+      });
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { createDiffieHellman, createHash, createHmac, getDiffieHellman, randomBytes } from 'crypto';
+
+import {
+  computeDevicePasswordClaim,
+  formatSrpTimestamp,
+  generateDeviceSrpKeys,
+  generateDeviceVerifier,
+} from '../DeviceVerifier';
+
+const N = BigInt(`0x${getDiffieHellman('modp15').getPrime('hex')}`);
+const g = BigInt(2);
+
+const modPow = (base: bigint, exponent: bigint): bigint => {
+  let result = BigInt(1);
+  let b = base % N;
+  let e = exponent;
+  while (e > BigInt(0)) {
+    if (e & BigInt(1)) result = (result * b) % N;
+    b = (b * b) % N;
+    e >>= BigInt(1);
+  }
+  return result;
+};
+
+const padHex = (value: bigint): string => {
+  const hex = value.toString(16);
+  const even = hex.length % 2 ? `0${hex}` : hex;
+  return /^[89a-f]/.test(even) ? `00${even}` : even;
+};
+
+const hashHex = (hex: string): bigint =>
+  BigInt(`0x${createHash('sha256').update(Buffer.from(hex, 'hex')).digest('hex')}`);
+
+const fromBase64 = (value: string): bigint =>
+  BigInt(`0x${Buffer.from(value, 'base64').toString('hex')}`);
+
+describe('generateDeviceVerifier', () => {
+  it('should generate the srp verifier of the device password', () => {
+    // Act
+    const { devicePassword, passwordVerifier, salt } = generateDeviceVerifier(
+      'group-key',
+      'us-east-1_device-key',
+    );
+
+    // Assert
+    const saltBytes = Buffer.from(salt, 'base64');
+    const passwordHash = createHash('sha256')
+      .update(`group-keyus-east-1_device-key:${devicePassword}`)
+      .digest();
+    const x = createHash('sha256')
+      .update(Buffer.concat([saltBytes, passwordHash]))
+      .digest();
+    const dh = createDiffieHellman(getDiffieHellman('modp15').getPrime(), Buffer.from([2]));
+    dh.setPrivateKey(x);
+    const expected = dh.generateKeys();
+
+    expect(BigInt(`0x${Buffer.from(passwordVerifier, 'base64').toString('hex')}`)).toBe(
+      BigInt(`0x${expected.toString('hex')}`),
+    );
+    expect(Buffer.from(devicePassword, 'base64')).toHaveLength(40);
+  });
+
+  it('should never start the verifier or salt with the high bit set', () => {
+    for (let i = 0; i < 20; i++) {
+      const { passwordVerifier, salt } = generateDeviceVerifier('group-key', 'device-key');
+
+      expect(Buffer.from(passwordVerifier, 'base64')[0]).toBeLessThan(0x80);
+      expect(Buffer.from(salt, 'base64')[0]).toBeLessThan(0x80);
+    }
+  });
+
+  it('should use a new password and salt for every device', () => {
+    const first = generateDeviceVerifier('group-key', 'device-key');
+    const second = generateDeviceVerifier('group-key', 'device-key');
+
+    expect(second.devicePassword).not.toBe(first.devicePassword);
+    expect(second.salt).not.toBe(first.salt);
+  });
+});
+
+describe('computeDevicePasswordClaim', () => {
+  it('should sign the secret block with the key shared with cognito', () => {
+    // Arrange
+    const { devicePassword, passwordVerifier, salt } = generateDeviceVerifier(
+      'group-key',
+      'us-east-1_device-key',
+    );
+    const srpKeys = generateDeviceSrpKeys();
+    const secretBlock = randomBytes(64).toString('base64');
+    const timestamp = 'Tue Sep 5 08:09:40 UTC 2023';
+
+    // server side of srp-6a, knowing only the verifier
+    const v = fromBase64(passwordVerifier);
+    const b = BigInt(`0x${randomBytes(128).toString('hex')}`) % N;
+    const k = hashHex(padHex(N) + padHex(g));
+    const B = (k * v + modPow(g, b)) % N;
+    const A = BigInt(`0x${srpKeys.srpA}`);
+    const u = hashHex(padHex(A) + padHex(B));
+    const S = modPow((A * modPow(v, u)) % N, b);
+    const prk = createHmac('sha256', Buffer.from(padHex(u), 'hex'))
+      .update(Buffer.from(padHex(S), 'hex'))
+      .digest();
+    const key = createHmac('sha256', prk)
+      .update(Buffer.from('Caldera Derived Key\u0001', 'utf8'))
+      .digest()
+      .subarray(0, 16);
+    const expected = createHmac('sha256', key)
+      .update(
+        Buffer.concat([
+          Buffer.from('group-keyus-east-1_device-key', 'utf8'),
+          Buffer.from(secretBlock, 'base64'),
+          Buffer.from(timestamp, 'utf8'),
+        ]),
+      )
+      .digest('base64');
+
+    // Act
+    const signature = computeDevicePasswordClaim({
+      deviceGroupKey: 'group-key',
+      deviceKey: 'us-east-1_device-key',
+      devicePassword,
+      srpKeys,
+      srpB: B.toString(16),
+      salt: Buffer.from(salt, 'base64').toString('hex'),
+      secretBlock,
+      timestamp,
+    });
+
+    // Assert
+    expect(signature).toBe(expected);
+  });
+
+  it('should reject an SRP_B that is a multiple of N', () => {
+    expect(() =>
+      computeDevicePasswordClaim({
+        deviceGroupKey: 'group-key',
+        deviceKey: 'device-key',
+        devicePassword: 'password',
+        srpKeys: generateDeviceSrpKeys(),
+        srpB: N.toString(16),
+        salt: 'abcd',
+        secretBlock: 'c2VjcmV0',
+        timestamp: 'Tue Sep 5 08:09:40 UTC 2023',
+      }),
+    ).toThrow('invalid srp challenge: SRP_B is zero');
+  });
+});
+
+describe('formatSrpTimestamp', () => {
+  it('should format the date in utc without padding the day', () => {
+    expect(formatSrpTimestamp(new Date(Date.UTC(2023, 8, 5, 8, 9, 40)))).toBe(
+      'Tue Sep 5 08:09:40 UTC 2023',
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import { AdminForgetDeviceCommand } from '@aws-sdk/client-cognito-identity-provider';
+import { Logger } from '@nestjs/common';
+
+import { InMemoryCognitoService } from '../InMemoryCognitoService';
+
+describe('InMemoryCognitoService', () => {
+  const mockLogger = { error: jest.fn() } as unknown as Logger;
+  let cognitoService: InMemoryCognitoService;
+
+  const user = {
+    username: 'john',
+    email: 'john@example.com',
+    temporaryPassword: 'Temp-Passw0rd',
+    isVerified: true,
+  };
+
+  const signIn = async (): Promise<{ accessToken: string; refreshToken: string }> => {
+    await cognitoService.addUser(user);
+    await cognitoService.setUserPassword({
+      username: 'john',
+      password: 'Str0ng-Password',
+      permanent: true,
+    });
+    const result = await cognitoService.login({ username: 'john', password: 'Str0ng-Password' });
+    return { accessToken: result.accessToken || '', refreshToken: result.refreshToken || '' };
+  };
+
+  beforeAll(() => {
+    // one pool for the suite, generating its signing key is slow
+    cognitoService = new InMemoryCognitoService({ logger: mockLogger });
+  });
+
+  beforeEach(() => {
+    cognitoService.userPool.reset();
+  });
+
+  describe('users', () => {
+    it('should create, update and remove a user', async () => {
+      // Act & Assert
+      await expect(cognitoService.addUser(user)).resolves.toBe(true);
+      await expect(
+        cognitoService.updateUserAttributes({
+          username: 'john',
+          attributes: { 'custom:tenant': 'acme' },
+        }),
+      ).resolves.toBe(true);
+
+      expect(await cognitoService.getUserDetails('john')).toEqual({
+        sub: expect.any(String),
+        email: 'john@example.com',
+        email_verified: 'true',
+        'custom:tenant': 'acme',
+      });
+
+      await expect(cognitoService.removeUser('john')).resolves.toBe(true);
+      expect(await cognitoService.getUserDetails('john')).toBeNull();
+    });
+
+    it('should reject a duplicate username', async () => {
+      // Arrange
+      await cognitoService.addUser(user);
+
+      // Act
+      const result = await cognitoService.addUser(user);
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it('should find users with a filter expression', async () => {
+      // Arrange
+      await cognitoService.addUser(user);
+      await cognitoService.addUser({ ...user, username: 'jane', email: 'jane@example.com' });
+
+      // Act
+      const found = await cognitoService.findUserByEmail('jane@example.com');
+      const page = await cognitoService.listUsers({ filter: 'email ^= "j"', limit: 1 });
+
+      // Assert
+      expect(found?.email).toBe('jane@example.com');
+      expect(page?.users).toHaveLength(1);
+      expect(page?.paginationToken).toBeDefined();
+    });
+
+    it('should unescape quotes and backslashes of filter values', async () => {
+      // Arrange
+      await cognitoService.addUser({ ...user, email: '"john\\doe"@example.com' });
+
+      // Act
+      const found = await cognitoService.findUserByEmail('"john\\doe"@example.com');
+      const page = await cognitoService.listUsers({ filter: 'email ^= "\\"john\\\\"' });
+
+      // Assert
+      expect(found?.email).toBe('"john\\doe"@example.com');
+      expect(page?.users).toHaveLength(1);
+      await expect(cognitoService.listUsers({ filter: 'email = "a"b"' })).resolves.toBeNull();
+    });
+
+    it('should enforce the password policy', async () => {
+      // Arrange
+      const strictService = new InMemoryCognitoService({
+        passwordPolicy: { minimumLength: 12 },
+        throwOnError: true,
+        logger: mockLogger,
+      });
+      await strictService.addUser(user);
+
+      // Act & Assert
+      await expect(
+        strictService.setUserPassword({ username: 'john', password: 'Sh0rt-Pwd', permanent: true }),
+      ).rejects.toThrow(
+        'Password does not conform to policy: password must be at least 12 characters long',
+      );
+      await expect(
+        strictService.setUserPassword({
+          username: 'john',
+          password: 'n0-uppercase-password',
+          permanent: true,
+        }),
+      ).rejects.toThrow('password must contain an uppercase letter');
+    });
+  });
+
+  describe('authentication', () => {
+    it('should ask for a new password after a temporary password login', async () => {
+      // Arrange
+      await cognitoService.addUser(user);
+
+      // Act
+      const challenge = await cognitoService.login({
+        username: 'john',
+        password: 'Temp-Passw0rd',
+      });
+      const result = await cognitoService.respondToNewPasswordChallenge(
+        'john',
+        'New-Passw0rd',
+        challenge.session || '',
+      );
+
+      // Assert
+      expect(challenge).toMatchObject({ success: false, challengeName: 'NEW_PASSWORD_REQUIRED' });
+      expect(result).toEqual({
+        success: true,
+        accessToken: expect.any(String),
+        idToken: expect.any(String),
+        refreshToken: expect.any(String),
+        expiresIn: 3600,
+        tokenType: 'Bearer',
+      });
+      const login = await cognitoService.login({ username: 'john', password: 'New-Passw0rd' });
+      expect(login.success).toBe(true);
+    });
+
+    it('should reject a wrong password or a disabled user', async () => {
+      // Arrange
+      await signIn();
+
+      // Act
+      const wrongPassword = await cognitoService.login({ username: 'john', password: 'nope' });
+      await cognitoService.disableUser('john');
+      const disabled = await cognitoService.login({
+        username: 'john',
+        password: 'Str0ng-Password',
+      });
+
+      // Assert
+      expect(wrongPassword).toEqual({
+        success: false,
+        error: 'Incorrect username or password.',
+        errorCode: 'NotAuthorizedException',
+      });
+      expect(disabled.error).toBe('User is disabled.');
+    });
+
+    it('should issue tokens verified locally with the groups of the user', async () => {
+      // Arrange
+      await cognitoService.addUser(user);
+      await cognitoService.createGroup({ groupName: 'admin' });
+      await cognitoService.addUserToGroup('john', 'admin');
+      await cognitoService.setUserPassword({
+        username: 'john',
+        password: 'Str0ng-Password',
+        permanent: true,
+      });
+      const login = await cognitoService.login({ username: 'john', password: 'Str0ng-Password' });
+
+      // Act
+      const access = await cognitoService.verifyJwt(login.accessToken || '', 'access');
+      const id = await cognitoService.verifyJwt(login.idToken || '', 'id');
+
+      // Assert
+      expect(access).toMatchObject({ success: true, username: 'john', groups: ['admin'] });
+      expect(id.attributes).toMatchObject({
+        email: 'john@example.com',
+        'cognito:username': 'john',
+      });
+      expect(id.claims?.email_verified).toBe(true);
+    });
+
+    it('should refresh the tokens until the user signs out', async () => {
+      // Arrange
+      const { accessToken, refreshToken } = await signIn();
+
+      // Act
+      const refreshed = await cognitoService.refreshToken({ refreshToken });
+      await cognitoService.globalSignOut(accessToken);
+      const afterSignOut = await cognitoService.refreshToken({ refreshToken });
+
+      // Assert
+      expect(refreshed).toMatchObject({ success: true, refreshToken });
+      expect(refreshed.accessToken).not.toBe(accessToken);
+      expect(afterSignOut.errorCode).toBe('NotAuthorizedException');
+      expect((await cognitoService.verifyToken(accessToken)).success).toBe(false);
+    });
+
+    it('should resolve the user of an access token and change its password', async () => {
+      // Arrange
+      const { accessToken } = await signIn();
+
+      // Act
+      const verified = await cognitoService.verifyToken(accessToken);
+      const changed = await cognitoService.changePassword({
+        accessToken,
+        previousPassword: 'Str0ng-Password',
+        proposedPassword: 'Changed-Passw0rd',
+      });
+
+      // Assert
+      expect(verified).toMatchObject({ success: true, username: 'john' });
+      expect(changed).toBe(true);
+      const login = await cognitoService.login({ username: 'john', password: 'Changed-Passw0rd' });
+      expect(login.success).toBe(true);
+    });
+
+    it('should require a confirmation after a self-service sign up', async () => {
+      // Arrange
+      await cognitoService.signUp({
+        username: 'jane',
+        password: 'Str0ng-Password',
+        email: 'jane@example.com',
+      });
+
+      // Act
+      const unconfirmed = await cognitoService.login({
+        username: 'jane',
+        password: 'Str0ng-Password',
+      });
+      await cognitoService.confirmUser('jane');
+      const confirmed = await cognitoService.login({
+        username: 'jane',
+        password: 'Str0ng-Password',
+      });
+
+      // Assert
+      expect(unconfirmed.errorCode).toBe('UserNotConfirmedException');
+      expect(confirmed.success).toBe(true);
+    });
+  });
+
+  it('should reject the commands it does not support', async () => {
+    await expect(
+      cognitoService.userPool.send(
+        new AdminForgetDeviceCommand({ UserPoolId: 'pool', Username: 'john', DeviceKey: 'key' }),
+      ),
+    ).rejects.toThrow('unsupported command: AdminForgetDeviceCommand');
+  });
+});
@@ -0,0 +1,110 @@
+import { DEFAULT_PASSWORD_POLICY, PasswordPolicy } from '../PasswordPolicy';
+
+describe('PasswordPolicy', () => {
+  describe('validate', () => {
+    it('should accept a password satisfying every rule', () => {
+      // Arrange
+      const policy = new PasswordPolicy();
+
+      // Act
+      const result = policy.validate('Str0ng-Password');
+
+      // Assert
+      expect(result).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should report one error per violated rule', () => {
+      // Arrange
+      const policy = new PasswordPolicy({ minimumLength: 10 });
+
+      // Act
+      const result = policy.validate(' short ');
+
+      // Assert
+      expect(result).toEqual({
+        valid: false,
+        errors: [
+          'password must be at least 10 characters long',
+          'password must contain an uppercase letter',
+          'password must contain a number',
+          'password must not start or end with a space',
+        ],
+      });
+    });
+
+    it('should skip the rules the policy does not require', () => {
+      // Arrange
+      const policy = new PasswordPolicy({
+        requireUppercase: false,
+        requireNumbers: false,
+        requireSymbols: false,
+      });
+
+      // Act
+      const result = policy.validate('lowercaseonly');
+
+      // Assert
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe('fromCognito', () => {
+    it('should map the described policy of the user pool', () => {
+      // Act
+      const policy = PasswordPolicy.fromCognito({
+        MinimumLength: 12,
+        RequireUppercase: true,
+        RequireLowercase: true,
+        RequireNumbers: true,
+        RequireSymbols: false,
+        TemporaryPasswordValidityDays: 3,
+      });
+
+      // Assert
+      expect(policy.rules).toEqual({
+        minimumLength: 12,
+        requireUppercase: true,
+        requireLowercase: true,
+        requireNumbers: true,
+        requireSymbols: false,
+        temporaryPasswordValidityDays: 3,
+      });
+    });
+
+    it('should fall back to the default policy', () => {
+      // Act
+      const policy = PasswordPolicy.fromCognito(undefined);
+
+      // Assert
+      expect(policy.rules).toEqual(DEFAULT_PASSWORD_POLICY);
+    });
+  });
+
+  describe('generate', () => {
+    it('should generate passwords satisfying the policy', () => {
+      // Arrange
+      const policy = new PasswordPolicy({ minimumLength: 20 });
+
+      for (let i = 0; i < 50; i++) {
+        // Act
+        const password = policy.generate();
+
+        // Assert
+        expect(password).toHaveLength(20);
+        expect(policy.validate(password).errors).toEqual([]);
+      }
+    });
+
+    it('should generate passwords of the requested length', () => {
+      // Arrange
+      const policy = new PasswordPolicy();
+
+      // Act
+      const password = policy.generate(32);
+
+      // Assert
+      expect(password).toHaveLength(32);
+      expect(policy.generate(32)).not.toBe(password);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { parseCsv, parseUserRecords, toCsvLine } from '../UserRecords';
+
+describe('UserRecords', () => {
+  describe('parseCsv', () => {
+    it('should parse quoted cells with commas, quotes and line breaks', () => {
+      // Arrange
+      const content = 'a,b,c\r\n"1,5","say ""hi""","line\nbreak"\n\n';
+
+      // Act
+      const rows = parseCsv(content);
+
+      // Assert
+      expect(rows).toEqual([
+        ['a', 'b', 'c'],
+        ['1,5', 'say "hi"', 'line\nbreak'],
+      ]);
+    });
+
+    it('should reject an unterminated quoted cell', () => {
+      expect(() => parseCsv('a,"b')).toThrow('invalid csv: unterminated quoted cell');
+    });
+  });
+
+  describe('toCsvLine', () => {
+    it('should quote cells only when needed', () => {
+      expect(toCsvLine(['plain', 'with,comma', 'with "quote"', ''])).toBe(
+        'plain,"with,comma","with ""quote""",',
+      );
+    });
+
+    it('should prefix cells evaluated as formulas by spreadsheets', () => {
+      expect(toCsvLine(['=1+1', '+123', '-1', '@SUM(A1)', 'a=b'])).toBe(
+        "'=1+1,'+123,'-1,'@SUM(A1),a=b",
+      );
+    });
+
+    it('should produce lines parsed back to the same cells', () => {
+      const cells = ['a,b', '"c"', 'd\ne'];
+
+      expect(parseCsv(toCsvLine(cells))).toEqual([cells]);
+    });
+  });
+
+  describe('parseUserRecords', () => {
+    it('should map csv columns to user records', () => {
+      // Arrange
+      const content = [
+        'username,email,phoneNumber,isVerified,custom:tenant',
+        'john,john@example.com,+15555555555,true,acme',
+        'jane,jane@example.com,,false,',
+      ].join('\n');
+
+      // Act
+      const records = parseUserRecords(content, 'csv');
+
+      // Assert
+      expect(records).toEqual([
+        {
+          username: 'john',
+          email: 'john@example.com',
+          phoneNumber: '+15555555555',
+          isVerified: true,
+          additionalAttributes: { 'custom:tenant': 'acme' },
+        },
+        { username: 'jane', email: 'jane@example.com', isVerified: false },
+      ]);
+    });
+
+    it('should remove the formula prefix of exported cells', () => {
+      // Arrange
+      const content = [
+        toCsvLine(['username', 'email', 'phoneNumber']),
+        toCsvLine(['john', 'john@example.com', '+1234567890']),
+      ].join('\n');
+
+      // Act
+      const records = parseUserRecords(content, 'csv', { unescapeFormulas: true });
+
+      // Assert
+      expect(records[0]?.phoneNumber).toBe('+1234567890');
+    });
+
+    it('should keep a leading quote of cells by default', () => {
+      // Arrange
+      const content = ['username,email,nickname', "john,john@example.com,'-foo"].join('\n');
+
+      // Act
+      const records = parseUserRecords(content, 'csv');
+
+      // Assert
+      expect(records[0]?.additionalAttributes).toEqual({ nickname: "'-foo" });
+    });
+
+    it('should reject a csv header without username or email', () => {
+      expect(() => parseUserRecords('name,mail\njohn,john@example.com', 'csv')).toThrow(
+        'invalid csv: the header must contain the username and email columns',
+      );
+    });
+
+    it('should parse json records', () => {
+      // Arrange
+      const record = { username: 'john', email: 'john@example.com', isVerified: true };
+
+      // Act
+      const records = parseUserRecords(JSON.stringify([record]), 'json');
+
+      // Assert
+      expect(records).toEqual([record]);
+    });
+
+    it('should parse json lines', () => {
+      // Arrange
+      const john = { username: 'john', email: 'john@example.com', isVerified: true };
+      const jane = { username: 'jane', email: 'jane@example.com', isVerified: false };
+
+      // Act
+      const records = parseUserRecords(
+        `${JSON.stringify(john)}\n\n${JSON.stringify(jane)}\n`,
+        'jsonl',
+      );
+
+      // Assert
+      expect(records).toEqual([john, jane]);
+    });
+
+    it('should reject json content that is not an array', () => {
+      expect(() => parseUserRecords('{"username":"john"}', 'json')).toThrow(
+        'invalid json: expected an array of user records',
+      );
+    });
+
+    it.each([
+      ['[null]', 'invalid json: user record 0 is not an object'],
+      ['[{"username":"john"}]', 'invalid json: user record 0 needs a username and an email'],
+      [
+        '[{"username":"john","email":"john@example.com"},{"username":"","email":"x@example.com"}]',
+        'invalid json: user record 1 needs a username and an email',
+      ],
+      [
+        '[{"username":"john","email":"john@example.com","isVerified":"yes"}]',
+        'invalid json: user record 0 has fields of the wrong type',
+      ],
+      [
+        '[{"username":"john","email":"john@example.com","additionalAttributes":{"custom:age":3}}]',
+        'invalid json: user record 0 has fields of the wrong type',
+      ],
+    ])('should reject the invalid json records %s', (content, message) => {
+      expect(() => parseUserRecords(content, 'json')).toThrow(message);
+    });
+  });
+});
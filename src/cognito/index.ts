@@ -1,2 +1,17 @@
+export * from './CognitoAdminService';
 export * from './CognitoService';
+export * from './CognitoServiceRegistry';
+export * from './CognitoAuthGuard';
+export * from './CognitoDecorators';
+export * from './CognitoModule';
+export * from './CognitoHostedUi';
+export * from './CognitoJwtVerifier';
+export * from './CognitoErrors';
+export * from './CognitoTriggers';
+export * from './DeviceVerifier';
+export * from './InMemoryCognitoClient';
+export * from './InMemoryCognitoService';
+export * from './JwksSource';
+export * from './PasswordPolicy';
+export * from './UserRecords';
 export * from './types';
@@ -1,4 +1,43 @@
-import { Logger } from '@nestjs/common';
+import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
+import { AwsCredentialIdentity, AwsCredentialIdentityProvider } from '@aws-sdk/types';
+import { InjectionToken, Logger, ModuleMetadata, OptionalFactoryDependency } from '@nestjs/common';
+
+/**
+ * json web key as published in a cognito user pool jwks document
+ */
+export interface Jwk {
+  /** key type (cognito publishes "RSA" keys) */
+  kty: string;
+  /** key id referenced by the "kid" header of the token */
+  kid: string;
+  /** signing algorithm (cognito publishes "RS256") */
+  alg?: string;
+  /** public key use (usually "sig") */
+  use?: string;
+  /** rsa modulus (base64url) */
+  n?: string;
+  /** rsa exponent (base64url) */
+  e?: string;
+}
+
+/**
+ * json web key set document
+ */
+export interface JwksDocument {
+  /** keys contained in the set */
+  keys: Jwk[];
+}
+
+/**
+ * source of the json web keys used to verify token signatures
+ */
+export interface JwksSource {
+  /**
+   * get the keys of the set
+   * @param forceRefresh - bypass any cached copy (used when a token references an unknown kid)
+   */
+  getKeys(forceRefresh?: boolean): Promise<Jwk[]>;
+}
 
 /**
  * configuration options for the cognito service
@@ -10,10 +49,28 @@ export interface CognitoServiceConfig {
   userPoolId: string;
   /** cognito app client id */
   clientId: string;
+  /** optional cognito app client secret (required if the app client has a secret) */
+  clientSecret?: string;
   /** whether to allow cognito to send emails */
   enableCognitoEmail: boolean;
   /** optional logger instance (will create new if not provided) */
   logger?: Logger;
+  /** optional jwks source for local token verification (defaults to the user pool jwks url) */
+  jwksSource?: JwksSource;
+  /** optional issuer shown by authenticator apps for totp mfa (e.g. the application name) */
+  mfaIssuer?: string;
+  /** throw typed cognito errors instead of returning false/null/error results (default false) */
+  throwOnError?: boolean;
+  /** optional credentials or credential provider (defaults to the aws default provider chain) */
+  credentials?: AwsCredentialIdentity | AwsCredentialIdentityProvider;
+  /** optional endpoint of the cognito api (e.g. a local emulator such as cognito-local) */
+  endpoint?: string;
+  /** optional maximum number of attempts of each request, retries included (sdk default 3) */
+  maxAttempts?: number;
+  /** optional pre-built client, the region, credentials, endpoint and retry settings are then ignored */
+  client?: CognitoIdentityProviderClient;
+  /** optional password policy of the user pool, to reject admin-set passwords without a round trip */
+  passwordPolicy?: Partial<UserPoolPasswordPolicy>;
 }
 
 /**
@@ -34,6 +91,251 @@ export interface CreateUserParams {
   additionalAttributes?: Record<string, string>;
 }
 
+/**
+ * parameters for a self-service sign up
+ */
+export interface SignUpParams {
+  /** username for the new user */
+  username: string;
+  /** password for the new user */
+  password: string;
+  /** optional email address */
+  email?: string;
+  /** optional phone number */
+  phoneNumber?: string;
+  /** any additional attributes to set */
+  additionalAttributes?: Record<string, string>;
+  /** optional metadata passed to the lambda triggers */
+  clientMetadata?: Record<string, string>;
+}
+
+/**
+ * where a confirmation or verification code was sent
+ */
+export interface CodeDeliveryDetails {
+  /** masked destination (e.g. "a***@e***.com") */
+  destination?: string;
+  /** delivery medium */
+  deliveryMedium?: 'SMS' | 'EMAIL';
+  /** attribute the code was sent to */
+  attributeName?: string;
+}
+
+/**
+ * result of a self-service sign up
+ */
+export interface SignUpResult {
+  /** whether the operation was successful */
+  success: boolean;
+  /** sub (unique id) of the new user */
+  userSub?: string;
+  /** whether the user is already confirmed (e.g. by a pre sign-up trigger) */
+  userConfirmed?: boolean;
+  /** where the confirmation code was sent */
+  codeDelivery?: CodeDeliveryDetails;
+  /** error message if the operation failed */
+  error?: string;
+  /** aws sdk exception name if the operation failed with a cognito exception */
+  errorCode?: string;
+}
+
+/**
+ * result of operations that send a code to the user
+ */
+export interface CodeDeliveryResult {
+  /** whether the operation was successful */
+  success: boolean;
+  /** where the code was sent */
+  codeDelivery?: CodeDeliveryDetails;
+  /** error message if the operation failed */
+  error?: string;
+  /** aws sdk exception name if the operation failed with a cognito exception */
+  errorCode?: string;
+}
+
+/**
+ * parameters for confirming a sign up
+ */
+export interface ConfirmSignUpParams {
+  /** username of the user */
+  username: string;
+  /** confirmation code received by the user */
+  code: string;
+}
+
+/**
+ * parameters for confirming a forgotten password reset
+ */
+export interface ConfirmForgotPasswordParams {
+  /** username of the user */
+  username: string;
+  /** code received by the user */
+  code: string;
+  /** new password */
+  newPassword: string;
+}
+
+/**
+ * parameters for a user changing their own password
+ */
+export interface ChangePasswordParams {
+  /** access token of the user */
+  accessToken: string;
+  /** current password */
+  previousPassword: string;
+  /** new password */
+  proposedPassword: string;
+}
+
+/**
+ * user of the user pool
+ */
+export interface CognitoUser {
+  /** username of the user */
+  username: string;
+  /** whether the user is enabled */
+  enabled: boolean;
+  /** user status (e.g. "CONFIRMED", "FORCE_CHANGE_PASSWORD") */
+  status?: string;
+  /** creation date */
+  createdAt?: Date;
+  /** last modification date */
+  updatedAt?: Date;
+  /** user attributes as key-value pairs */
+  attributes: Record<string, string>;
+}
+
+/**
+ * parameters for listing users
+ */
+export interface ListUsersParams {
+  /** cognito filter expression (e.g. `email ^= "john"`) */
+  filter?: string;
+  /** maximum number of users in a page (max 60) */
+  limit?: number;
+  /** token of the page to get */
+  paginationToken?: string;
+  /** attributes to return (all if omitted) */
+  attributesToGet?: string[];
+}
+
+/**
+ * page of users
+ */
+export interface ListUsersResult {
+  /** users of the page */
+  users: CognitoUser[];
+  /** token of the next page, if any */
+  paginationToken?: string;
+}
+
+/**
+ * format of the user records of a bulk import
+ */
+export type UserImportFormat = 'csv' | 'json' | 'jsonl';
+
+/**
+ * options of the parsing of user records
+ */
+export interface ParseUserRecordsOptions {
+  /**
+   * remove the quote that `exportUsers` prefixes to csv cells evaluated as formulas, only for files
+   * written by the export as a hand-made value could start with a quote (defaults to false)
+   */
+  unescapeFormulas?: boolean;
+}
+
+/**
+ * options of a bulk user import
+ */
+export interface ImportUsersOptions {
+  /** maximum number of users created in parallel (defaults to 5) */
+  concurrency?: number;
+  /** maximum number of retries of a throttled user creation (defaults to 5) */
+  maxRetries?: number;
+  /** delay before the first retry in milliseconds, doubled on each retry (defaults to 200) */
+  retryDelayMs?: number;
+}
+
+/**
+ * outcome of the import of a single user record
+ */
+export interface ImportUserResult {
+  /** position of the record in the imported records */
+  index: number;
+  /** username of the record */
+  username: string;
+  /** whether the user was created */
+  success: boolean;
+  /** number of attempts made */
+  attempts: number;
+  /** error message if the creation failed */
+  error?: string;
+  /** aws sdk exception name if the creation failed with a cognito exception */
+  errorCode?: string;
+}
+
+/**
+ * report of a bulk user import
+ */
+export interface ImportUsersReport {
+  /** number of records */
+  total: number;
+  /** number of users created */
+  succeeded: number;
+  /** number of records that failed */
+  failed: number;
+  /** outcome of each record, in the order of the records */
+  results: ImportUserResult[];
+}
+
+/**
+ * options of a user export
+ */
+export interface ExportUsersOptions {
+  /** output format (defaults to "jsonl") */
+  format?: 'csv' | 'jsonl';
+  /** cognito filter expression selecting the exported users */
+  filter?: string;
+  /**
+   * additional attributes to export besides email, phone number and their verification, all
+   * attributes if omitted (csv exports need them listed as the columns must be known upfront)
+   */
+  attributes?: string[];
+}
+
+/**
+ * group of the user pool
+ */
+export interface CognitoGroup {
+  /** name of the group */
+  groupName: string;
+  /** optional description */
+  description?: string;
+  /** precedence used to pick the iam role when a user is in several groups (lower wins) */
+  precedence?: number;
+  /** optional iam role assumed by the group members through identity pools */
+  roleArn?: string;
+  /** creation date */
+  createdAt?: Date;
+  /** last modification date */
+  updatedAt?: Date;
+}
+
+/**
+ * parameters for creating or updating a group
+ */
+export interface GroupParams {
+  /** name of the group */
+  groupName: string;
+  /** optional description */
+  description?: string;
+  /** optional precedence (lower wins) */
+  precedence?: number;
+  /** optional iam role assumed by the group members */
+  roleArn?: string;
+}
+
 /**
  * parameters for updating a user's email
  */
@@ -42,6 +344,8 @@ export interface UpdateEmailParams {
   username: string;
   /** new email address */
   newEmail: string;
+  /** whether the new email is marked as verified (defaults to true) */
+  isVerified?: boolean;
 }
 
 /**
@@ -52,6 +356,46 @@ export interface UpdatePhoneNumberParams {
   username: string;
   /** new phone number */
   newPhoneNumber: string;
+  /** whether the new phone number is marked as verified (defaults to true) */
+  isVerified?: boolean;
+}
+
+/**
+ * parameters for updating arbitrary user attributes
+ */
+export interface UpdateUserAttributesParams {
+  /** username of the user */
+  username: string;
+  /** attributes to set, standard or custom (e.g. "custom:tenant") */
+  attributes: Record<string, string>;
+}
+
+/**
+ * parameters for deleting user attributes
+ */
+export interface DeleteUserAttributesParams {
+  /** username of the user */
+  username: string;
+  /** names of the attributes to delete */
+  attributeNames: string[];
+}
+
+/**
+ * parameters for requesting an attribute verification code
+ */
+export interface AttributeVerificationCodeParams {
+  /** access token of the user */
+  accessToken: string;
+  /** attribute to verify ("email" or "phone_number") */
+  attributeName: string;
+}
+
+/**
+ * parameters for verifying an attribute with a code
+ */
+export interface VerifyUserAttributeParams extends AttributeVerificationCodeParams {
+  /** verification code received by the user */
+  code: string;
 }
 
 /**
@@ -74,6 +418,12 @@ export interface LoginParams {
   username: string;
   /** password of the user */
   password: string;
+  /** key of a remembered device, which skips mfa when its group key and password are given too */
+  deviceKey?: string;
+  /** group key of the remembered device */
+  deviceGroupKey?: string;
+  /** password kept on the remembered device since `confirmDevice` */
+  devicePassword?: string;
 }
 
 /**
@@ -82,8 +432,105 @@ export interface LoginParams {
 export interface RefreshTokenParams {
   /** refresh token */
   refreshToken: string;
+  /** id token of the session, used to resolve the username when the client has a secret */
+  idToken?: string;
+  /** username of the user, used when the client has a secret (takes precedence over idToken) */
+  username?: string;
+}
+
+/**
+ * name of an authentication challenge supported by the service
+ */
+export type AuthChallengeName =
+  | 'NEW_PASSWORD_REQUIRED'
+  | 'SMS_MFA'
+  | 'SOFTWARE_TOKEN_MFA'
+  | 'SELECT_MFA_TYPE'
+  | 'MFA_SETUP'
+  | 'CUSTOM_CHALLENGE'
+  | 'DEVICE_SRP_AUTH'
+  | 'DEVICE_PASSWORD_VERIFIER';
+
+/**
+ * common parameters for responding to an authentication challenge
+ */
+interface ChallengeResponseBase {
+  /** username of the user */
+  username: string;
+  /** session string returned with the challenge */
+  session: string;
+  /** parameters returned with the challenge, their USER_ID_FOR_SRP replaces an alias used as username */
+  challengeParameters?: Record<string, string>;
+}
+
+/**
+ * response to the new password required challenge
+ */
+export interface NewPasswordChallengeResponse extends ChallengeResponseBase {
+  challengeName: 'NEW_PASSWORD_REQUIRED';
+  /** new password */
+  newPassword: string;
+  /** optional required attributes requested by the challenge */
+  userAttributes?: Record<string, string>;
+}
+
+/**
+ * response to the sms mfa challenge
+ */
+export interface SmsMfaChallengeResponse extends ChallengeResponseBase {
+  challengeName: 'SMS_MFA';
+  /** code received by sms */
+  code: string;
+}
+
+/**
+ * response to the software token (totp) mfa challenge
+ */
+export interface SoftwareTokenMfaChallengeResponse extends ChallengeResponseBase {
+  challengeName: 'SOFTWARE_TOKEN_MFA';
+  /** code generated by the authenticator app */
+  code: string;
+}
+
+/**
+ * response to the mfa type selection challenge
+ */
+export interface SelectMfaTypeChallengeResponse extends ChallengeResponseBase {
+  challengeName: 'SELECT_MFA_TYPE';
+  /** selected mfa type */
+  mfaType: 'SMS_MFA' | 'SOFTWARE_TOKEN_MFA';
+}
+
+/**
+ * response to the mfa setup challenge
+ * (the session must be the one returned by the software token verification)
+ */
+export interface MfaSetupChallengeResponse extends ChallengeResponseBase {
+  challengeName: 'MFA_SETUP';
+}
+
+/**
+ * response to a custom challenge
+ */
+export interface CustomChallengeResponse extends ChallengeResponseBase {
+  challengeName: 'CUSTOM_CHALLENGE';
+  /** answer to the challenge */
+  answer: string;
+  /** optional metadata passed to the lambda triggers */
+  clientMetadata?: Record<string, string>;
 }
 
+/**
+ * parameters for responding to an authentication challenge, discriminated by challenge name
+ */
+export type RespondToChallengeParams =
+  | NewPasswordChallengeResponse
+  | SmsMfaChallengeResponse
+  | SoftwareTokenMfaChallengeResponse
+  | SelectMfaTypeChallengeResponse
+  | MfaSetupChallengeResponse
+  | CustomChallengeResponse;
+
 /**
  * result of authentication operations
  */
@@ -101,16 +548,1178 @@ export interface AuthResult {
   /** whether the operation was successful */
   success: boolean;
   /** challenge name if further action is required */
-  challengeName?: string;
+  challengeName?: AuthChallengeName;
   /** challenge parameters if further action is required */
   challengeParameters?: Record<string, string>;
+  /** session string to pass back when responding to the challenge */
+  session?: string;
   /** error message if the operation failed */
   error?: string;
+  /** aws sdk exception name (or oauth error code for the hosted ui) if the operation failed */
+  errorCode?: string;
+  /** keys of the device to confirm when device tracking is enabled and the device is new */
+  newDeviceMetadata?: NewDeviceMetadata;
 }
 
-export interface VerifyTokenResult {
-  success: boolean;
+/**
+ * type of cognito token
+ */
+export type CognitoTokenUse = 'access' | 'id';
+
+/**
+ * claims contained in a cognito access or id token
+ */
+export interface CognitoJwtClaims {
+  /** subject (user id) */
+  sub: string;
+  /** issuer (user pool url) */
+  iss: string;
+  /** type of the token */
+  token_use: CognitoTokenUse;
+  /** expiration time (seconds since epoch) */
+  exp: number;
+  /** issued at time (seconds since epoch) */
+  iat: number;
+  /** authentication time (seconds since epoch) */
+  auth_time?: number;
+  /** token id */
+  jti?: string;
+  /** app client id (access tokens) */
+  client_id?: string;
+  /** audience, the app client id (id tokens) */
+  aud?: string;
+  /** username (access tokens) */
   username?: string;
-  attributes?: Record<string, string>;
+  /** username (id tokens) */
+  'cognito:username'?: string;
+  /** space separated scopes (access tokens) */
+  scope?: string;
+  /** groups the user belongs to */
+  'cognito:groups'?: string[];
+  /** any other claim, including user attributes in id tokens */
+  [claim: string]: unknown;
+}
+
+/**
+ * configuration options for the local jwt verifier
+ */
+export interface CognitoJwtVerifierConfig {
+  /** aws region */
+  region: string;
+  /** cognito user pool id */
+  userPoolId: string;
+  /** accepted app client id(s) */
+  clientId: string | string[];
+  /** optional jwks source (defaults to the user pool jwks url) */
+  jwksSource?: JwksSource;
+  /** optional clock tolerance in seconds applied to the expiration check */
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * parameters for associating a software token (totp authenticator app) with a user.
+ * provide the access token of a signed in user, or the session of an MFA_SETUP challenge
+ */
+export interface AssociateSoftwareTokenParams {
+  /** access token of the user */
+  accessToken?: string;
+  /** session of the MFA_SETUP challenge */
+  session?: string;
+  /** account label shown by the authenticator app (e.g. the user's email) */
+  label: string;
+  /** optional issuer shown by the authenticator app (defaults to the configured mfa issuer) */
+  issuer?: string;
+}
+
+/**
+ * result of associating a software token
+ */
+export interface AssociateSoftwareTokenResult {
+  /** whether the operation was successful */
+  success: boolean;
+  /** base32 secret to enter manually in the authenticator app */
+  secretCode?: string;
+  /** otpauth:// uri to render as a qr code */
+  otpauthUri?: string;
+  /** session to use for the verification (MFA_SETUP challenge only) */
+  session?: string;
+  /** error message if the operation failed */
+  error?: string;
+  /** aws sdk exception name if the operation failed with a cognito exception */
+  errorCode?: string;
+}
+
+/**
+ * parameters for verifying a software token.
+ * provide the access token of a signed in user, or the session returned by the association
+ */
+export interface VerifySoftwareTokenParams {
+  /** access token of the user */
+  accessToken?: string;
+  /** session returned by the association (MFA_SETUP challenge only) */
+  session?: string;
+  /** code generated by the authenticator app */
+  code: string;
+  /** optional name of the authenticator device */
+  friendlyDeviceName?: string;
+}
+
+/**
+ * result of verifying a software token
+ */
+export interface VerifySoftwareTokenResult {
+  /** whether the code was accepted */
+  success: boolean;
+  /** session to answer the MFA_SETUP challenge with (MFA_SETUP challenge only) */
+  session?: string;
+  /** error message if the operation failed */
+  error?: string;
+  /** aws sdk exception name if the operation failed with a cognito exception */
+  errorCode?: string;
+}
+
+/**
+ * preference for a single mfa method
+ */
+export interface MfaMethodPreference {
+  /** whether the method is enabled */
+  enabled: boolean;
+  /** whether the method is the preferred one */
+  preferred?: boolean;
+}
+
+/**
+ * parameters for setting a user's mfa preferences (admin side)
+ */
+export interface SetMfaPreferenceParams {
+  /** username of the user */
+  username: string;
+  /** sms mfa preference (unchanged if omitted) */
+  sms?: MfaMethodPreference;
+  /** software token (totp) mfa preference (unchanged if omitted) */
+  softwareToken?: MfaMethodPreference;
+}
+
+/**
+ * mfa method name as reported by cognito
+ */
+export type MfaMethod = 'SMS_MFA' | 'SOFTWARE_TOKEN_MFA';
+
+/**
+ * mfa settings of a user
+ */
+export interface UserMfaSettings {
+  /** enabled mfa methods */
+  enabledMethods: MfaMethod[];
+  /** preferred mfa method, if any */
+  preferredMethod?: MfaMethod;
+}
+
+/**
+ * keys of a new device returned by the authentication when device tracking is enabled
+ */
+export interface NewDeviceMetadata {
+  /** device key */
+  deviceKey: string;
+  /** device group key */
+  deviceGroupKey: string;
+}
+
+/**
+ * secret verifier of a device, generated on the device when confirming it
+ */
+export interface DeviceSecretVerifier {
+  /** random password to keep on the device to authenticate it later */
+  devicePassword: string;
+  /** base64 srp password verifier sent to cognito */
+  passwordVerifier: string;
+  /** base64 salt sent to cognito */
+  salt: string;
+}
+
+/**
+ * ephemeral srp keys of the authentication of a remembered device
+ */
+export interface DeviceSrpKeys {
+  /** hex public value sent as SRP_A */
+  srpA: string;
+  /** hex secret value, never sent */
+  secret: string;
+}
+
+/**
+ * parameters of the password claim answering the device password verifier challenge
+ */
+export interface DevicePasswordClaimParams {
+  /** device group key of the device */
+  deviceGroupKey: string;
+  /** device key of the device */
+  deviceKey: string;
+  /** password kept on the device since its confirmation */
+  devicePassword: string;
+  /** srp keys sent with the device srp auth challenge response */
+  srpKeys: DeviceSrpKeys;
+  /** hex SRP_B challenge parameter */
+  srpB: string;
+  /** hex SALT challenge parameter */
+  salt: string;
+  /** base64 SECRET_BLOCK challenge parameter */
+  secretBlock: string;
+  /** TIMESTAMP sent with the claim, see `formatSrpTimestamp` */
+  timestamp: string;
+}
+
+/**
+ * parameters for confirming a new device
+ */
+export interface ConfirmDeviceParams {
+  /** access token of the user */
+  accessToken: string;
+  /** device key from the new device metadata */
+  deviceKey: string;
+  /** device group key from the new device metadata */
+  deviceGroupKey: string;
+  /** optional name of the device (e.g. the user agent) */
+  deviceName?: string;
+}
+
+/**
+ * result of confirming a new device
+ */
+export interface ConfirmDeviceResult {
+  /** whether the operation was successful */
+  success: boolean;
+  /** password to keep on the device to authenticate it later (if successful) */
+  devicePassword?: string;
+  /** whether the user must decide if the device is remembered (user opt-in pools) */
+  userConfirmationNecessary?: boolean;
+  /** error message if the operation failed */
   error?: string;
+  /** aws sdk exception name if the operation failed with a cognito exception */
+  errorCode?: string;
+}
+
+/**
+ * device tracked for a user
+ */
+export interface CognitoDevice {
+  /** device key */
+  deviceKey: string;
+  /** device name, if provided when confirming it */
+  deviceName?: string;
+  /** whether the device is remembered (absent when the user never decided) */
+  remembered?: boolean;
+  /** raw device attributes */
+  attributes: Record<string, string>;
+  /** creation date */
+  createdAt?: Date;
+  /** last modification date */
+  updatedAt?: Date;
+  /** last authentication date */
+  lastAuthenticatedAt?: Date;
+}
+
+/**
+ * parameters for remembering or forgetting a device
+ */
+export interface UpdateDeviceStatusParams {
+  /** access token of the user */
+  accessToken: string;
+  /** key of the device */
+  deviceKey: string;
+  /** whether the device is remembered */
+  remembered: boolean;
+}
+
+/**
+ * parameters for listing the authentication events of a user
+ */
+export interface ListAuthEventsParams {
+  /** username of the user */
+  username: string;
+  /** maximum number of events in a page (max 60) */
+  limit?: number;
+  /** token of the page to get */
+  paginationToken?: string;
+}
+
+/**
+ * outcome of a challenge of an authentication event
+ */
+export interface AuthEventChallenge {
+  /** name of the challenge (e.g. Password, Mfa, DeviceSrp) */
+  challengeName: string;
+  /** whether the challenge was answered correctly */
+  success: boolean;
+}
+
+/**
+ * authentication event of a user (advanced security features must be enabled on the user pool)
+ */
+export interface CognitoAuthEvent {
+  /** id of the event */
+  eventId: string;
+  /** type of the event (e.g. SignIn, SignUp, ForgotPassword, PasswordChange) */
+  eventType: string;
+  /** date of the event */
+  createdAt?: Date;
+  /** outcome of the event (Pass, Fail or InProgress) */
+  outcome?: string;
+  /** risk level assessed by cognito (Low, Medium or High) */
+  riskLevel?: string;
+  /** risk decision taken by cognito (NoRisk, AccountTakeover or Block) */
+  riskDecision?: string;
+  /** whether the credentials were detected as compromised */
+  compromisedCredentialsDetected?: boolean;
+  /** outcome of each challenge of the event */
+  challenges: AuthEventChallenge[];
+  /** ip address of the client */
+  ipAddress?: string;
+  /** name of the device of the client (e.g. the browser) */
+  deviceName?: string;
+  /** city of the client */
+  city?: string;
+  /** country of the client */
+  country?: string;
+  /** feedback given on the event, if any */
+  feedback?: 'Valid' | 'Invalid';
+}
+
+/**
+ * page of authentication events, most recent first
+ */
+export interface ListAuthEventsResult {
+  /** events of the page */
+  events: CognitoAuthEvent[];
+  /** token of the next page, if any */
+  paginationToken?: string;
+}
+
+/**
+ * parameters for giving feedback on an authentication event
+ */
+export interface AuthEventFeedbackParams {
+  /** username of the user */
+  username: string;
+  /** id of the event */
+  eventId: string;
+  /** whether the event was legitimate ("valid") or not ("invalid") */
+  feedback: 'valid' | 'invalid';
+}
+
+/**
+ * options of the summary of the recent failed logins of a user
+ */
+export interface FailedLoginSummaryOptions {
+  /** only consider events after this date (defaults to 24 hours ago) */
+  since?: Date;
+  /** maximum number of events to scan (defaults to 100) */
+  maxEvents?: number;
+}
+
+/**
+ * summary of the recent failed logins of a user
+ */
+export interface FailedLoginSummary {
+  /** username of the user */
+  username: string;
+  /** number of failed sign in events */
+  failedAttempts: number;
+  /** number of sign in events blocked by cognito */
+  blockedAttempts: number;
+  /** number of failed sign in events assessed as high risk */
+  highRiskAttempts: number;
+  /** date of the most recent failed sign in */
+  lastFailedAt?: Date;
+  /** distinct ip addresses of the failed sign ins */
+  ipAddresses: string[];
+  /** the failed sign in events, most recent first */
+  events: CognitoAuthEvent[];
+}
+
+/**
+ * password policy of a user pool
+ */
+export interface UserPoolPasswordPolicy {
+  /** minimum length of the password */
+  minimumLength: number;
+  /** whether an uppercase letter is required */
+  requireUppercase: boolean;
+  /** whether a lowercase letter is required */
+  requireLowercase: boolean;
+  /** whether a number is required */
+  requireNumbers: boolean;
+  /** whether a symbol is required */
+  requireSymbols: boolean;
+  /** optional number of days a temporary password can be used */
+  temporaryPasswordValidityDays?: number;
+}
+
+/**
+ * result of validating a password against a password policy
+ */
+export interface PasswordValidationResult {
+  /** whether the password satisfies the policy */
+  valid: boolean;
+  /** one message per violated rule */
+  errors: string[];
+}
+
+/**
+ * configuration of the in-memory user pool
+ */
+export interface InMemoryCognitoClientConfig {
+  /** optional aws region used in the token issuer (default "us-east-1") */
+  region?: string;
+  /** optional user pool id used in the token issuer (default "us-east-1_inmemory") */
+  userPoolId?: string;
+  /** optional app client id of the issued tokens (default "in-memory-client") */
+  clientId?: string;
+  /** optional password policy, merged with the cognito default policy */
+  passwordPolicy?: Partial<UserPoolPasswordPolicy>;
+  /** optional validity of the access and id tokens in seconds (default 3600) */
+  tokenValiditySeconds?: number;
+}
+
+/**
+ * configuration of the in-memory cognito service
+ */
+export interface InMemoryCognitoServiceConfig extends InMemoryCognitoClientConfig {
+  /** optional logger instance (will create new if not provided) */
+  logger?: Logger;
+  /** throw typed cognito errors instead of returning false/null/error results (default false) */
+  throwOnError?: boolean;
+}
+
+export interface VerifyTokenResult {
+  success: boolean;
+  username?: string;
+  attributes?: Record<string, string>;
+  /** verified token claims (local verification only) */
+  claims?: CognitoJwtClaims;
+  /** groups of the token owner from the "cognito:groups" claim (local verification only) */
+  groups?: string[];
+  error?: string;
+  /** aws sdk exception name if the verification failed with a cognito exception */
+  errorCode?: string;
+}
+
+/**
+ * fields shared by all cognito lambda trigger events
+ */
+export interface CognitoTriggerEvent<TSource extends string, TRequest, TResponse> {
+  /** version of the event format */
+  version: string;
+  /** aws region of the user pool */
+  region: string;
+  /** id of the user pool */
+  userPoolId: string;
+  /** username of the user */
+  userName: string;
+  /** caller information */
+  callerContext: {
+    /** version of the aws sdk that made the request */
+    awsSdkVersion: string;
+    /** id of the app client */
+    clientId: string;
+  };
+  /** name of the event that invoked the trigger */
+  triggerSource: TSource;
+  /** trigger specific request */
+  request: TRequest;
+  /** trigger specific response, filled by the handler */
+  response: TResponse;
+}
+
+/**
+ * lambda handler of a cognito trigger, cognito expects the event back with its response filled
+ */
+export type CognitoTriggerHandler<TEvent> = (event: TEvent) => Promise<TEvent>;
+
+/**
+ * user migration trigger event
+ */
+export type UserMigrationTriggerEvent = CognitoTriggerEvent<
+  'UserMigration_Authentication' | 'UserMigration_ForgotPassword',
+  {
+    /** password entered by the user (authentication only) */
+    password?: string;
+    /** validation data sent by the client */
+    validationData?: Record<string, string>;
+    /** metadata sent by the client */
+    clientMetadata?: Record<string, string>;
+  },
+  UserMigrationResponse
+>;
+
+/**
+ * response of the user migration trigger
+ */
+export interface UserMigrationResponse {
+  /** attributes of the migrated user ("sub" cannot be set) */
+  userAttributes?: Record<string, string>;
+  /** status of the migrated user (defaults to "CONFIRMED") */
+  finalUserStatus?: 'CONFIRMED' | 'RESET_REQUIRED';
+  /** "SUPPRESS" to skip the welcome message (the default) or "RESEND" */
+  messageAction?: 'SUPPRESS' | 'RESEND';
+  /** where to send the welcome message */
+  desiredDeliveryMediums?: Array<'EMAIL' | 'SMS'>;
+  /** move the email or phone alias from an existing user */
+  forceAliasCreation?: boolean;
+  /** enable sms mfa for the migrated user */
+  enableSMSMFA?: boolean;
+}
+
+/**
+ * pre sign-up trigger event
+ */
+export type PreSignUpTriggerEvent = CognitoTriggerEvent<
+  'PreSignUp_SignUp' | 'PreSignUp_AdminCreateUser' | 'PreSignUp_ExternalProvider',
+  {
+    /** attributes of the new user */
+    userAttributes: Record<string, string>;
+    /** validation data sent by the client */
+    validationData?: Record<string, string>;
+    /** metadata sent by the client */
+    clientMetadata?: Record<string, string>;
+  },
+  PreSignUpResponse
+>;
+
+/**
+ * response of the pre sign-up trigger
+ */
+export interface PreSignUpResponse {
+  /** confirm the user without a confirmation code */
+  autoConfirmUser: boolean;
+  /** mark the email as verified (requires an email attribute) */
+  autoVerifyEmail: boolean;
+  /** mark the phone number as verified (requires a phone_number attribute) */
+  autoVerifyPhone: boolean;
+}
+
+/**
+ * pre authentication trigger event
+ */
+export type PreAuthenticationTriggerEvent = CognitoTriggerEvent<
+  'PreAuthentication_Authentication',
+  {
+    /** attributes of the user */
+    userAttributes: Record<string, string>;
+    /** validation data sent by the client */
+    validationData?: Record<string, string>;
+    /** true when the user does not exist (with user existence errors prevention) */
+    userNotFound?: boolean;
+  },
+  Record<string, never>
+>;
+
+/**
+ * post authentication trigger event
+ */
+export type PostAuthenticationTriggerEvent = CognitoTriggerEvent<
+  'PostAuthentication_Authentication',
+  {
+    /** attributes of the user */
+    userAttributes: Record<string, string>;
+    /** whether the user signed in from a new device */
+    newDeviceUsed: boolean;
+    /** metadata sent by the client */
+    clientMetadata?: Record<string, string>;
+  },
+  Record<string, never>
+>;
+
+/**
+ * pre token generation trigger event
+ */
+export type PreTokenGenerationTriggerEvent = CognitoTriggerEvent<
+  | 'TokenGeneration_HostedAuth'
+  | 'TokenGeneration_Authentication'
+  | 'TokenGeneration_NewPasswordChallenge'
+  | 'TokenGeneration_AuthenticateDevice'
+  | 'TokenGeneration_RefreshTokens',
+  {
+    /** attributes of the user */
+    userAttributes: Record<string, string>;
+    /** groups and roles of the user */
+    groupConfiguration: {
+      groupsToOverride: string[];
+      iamRolesToOverride: string[];
+      preferredRole?: string | null;
+    };
+    /** metadata sent by the client */
+    clientMetadata?: Record<string, string>;
+  },
+  {
+    claimsOverrideDetails?: ClaimsOverrideDetails;
+  }
+>;
+
+/**
+ * changes of the id token claims made by the pre token generation trigger
+ */
+export interface ClaimsOverrideDetails {
+  /** claims to add or override */
+  claimsToAddOrOverride?: Record<string, string>;
+  /** claims to remove */
+  claimsToSuppress?: string[];
+  /** groups and roles to put in the token instead of the user's */
+  groupOverrideDetails?: {
+    groupsToOverride?: string[];
+    iamRolesToOverride?: string[];
+    preferredRole?: string;
+  };
+}
+
+/**
+ * custom message trigger event
+ */
+export type CustomMessageTriggerEvent = CognitoTriggerEvent<
+  | 'CustomMessage_SignUp'
+  | 'CustomMessage_AdminCreateUser'
+  | 'CustomMessage_ResendCode'
+  | 'CustomMessage_ForgotPassword'
+  | 'CustomMessage_UpdateUserAttribute'
+  | 'CustomMessage_VerifyUserAttribute'
+  | 'CustomMessage_Authentication',
+  {
+    /** attributes of the user */
+    userAttributes: Record<string, string>;
+    /** placeholder of the code, must appear in the messages (e.g. "{####}") */
+    codeParameter: string;
+    /** placeholder of the username, must appear in admin create user messages */
+    usernameParameter?: string | null;
+    /** placeholder of the verification link */
+    linkParameter?: string;
+    /** metadata sent by the client */
+    clientMetadata?: Record<string, string>;
+  },
+  CustomMessageResponse
+>;
+
+/**
+ * response of the custom message trigger
+ */
+export interface CustomMessageResponse {
+  /** sms message */
+  smsMessage?: string | null;
+  /** email message (html allowed) */
+  emailMessage?: string | null;
+  /** email subject */
+  emailSubject?: string | null;
+}
+
+/**
+ * outcome of a previous challenge of a custom authentication
+ */
+export interface ChallengeResult {
+  /** name of the challenge ("CUSTOM_CHALLENGE", "SRP_A", "PASSWORD_VERIFIER"...) */
+  challengeName: string;
+  /** whether the challenge was answered correctly */
+  challengeResult: boolean;
+  /** metadata set by the create auth challenge trigger */
+  challengeMetadata?: string;
+}
+
+/**
+ * define auth challenge trigger event
+ */
+export type DefineAuthChallengeTriggerEvent = CognitoTriggerEvent<
+  'DefineAuthChallenge_Authentication',
+  {
+    /** attributes of the user */
+    userAttributes: Record<string, string>;
+    /** challenges answered so far */
+    session: ChallengeResult[];
+    /** metadata sent by the client */
+    clientMetadata?: Record<string, string>;
+    /** true when the user does not exist (with user existence errors prevention) */
+    userNotFound?: boolean;
+  },
+  {
+    /** next challenge to present */
+    challengeName?: string;
+    /** whether to issue the tokens */
+    issueTokens: boolean;
+    /** whether to end the authentication with a failure */
+    failAuthentication: boolean;
+  }
+>;
+
+/**
+ * create auth challenge trigger event
+ */
+export type CreateAuthChallengeTriggerEvent = CognitoTriggerEvent<
+  'CreateAuthChallenge_Authentication',
+  {
+    /** attributes of the user */
+    userAttributes: Record<string, string>;
+    /** name of the challenge to create */
+    challengeName: string;
+    /** challenges answered so far */
+    session: ChallengeResult[];
+    /** metadata sent by the client */
+    clientMetadata?: Record<string, string>;
+    /** true when the user does not exist (with user existence errors prevention) */
+    userNotFound?: boolean;
+  },
+  {
+    /** parameters returned to the client */
+    publicChallengeParameters: Record<string, string>;
+    /** parameters passed to the verify auth challenge response trigger */
+    privateChallengeParameters: Record<string, string>;
+    /** metadata kept in the session of the next triggers */
+    challengeMetadata?: string;
+  }
+>;
+
+/**
+ * verify auth challenge response trigger event
+ */
+export type VerifyAuthChallengeResponseTriggerEvent = CognitoTriggerEvent<
+  'VerifyAuthChallengeResponse_Authentication',
+  {
+    /** attributes of the user */
+    userAttributes: Record<string, string>;
+    /** parameters set by the create auth challenge trigger */
+    privateChallengeParameters: Record<string, string>;
+    /** answer sent by the client */
+    challengeAnswer: string;
+    /** metadata sent by the client */
+    clientMetadata?: Record<string, string>;
+    /** true when the user does not exist (with user existence errors prevention) */
+    userNotFound?: boolean;
+  },
+  {
+    /** whether the answer is correct */
+    answerCorrect: boolean;
+  }
+>;
+
+/**
+ * parameters for starting a custom authentication
+ */
+export interface StartCustomAuthParams {
+  /** username of the user */
+  username: string;
+  /** optional metadata passed to the lambda triggers */
+  clientMetadata?: Record<string, string>;
+}
+
+/**
+ * parameters for answering a custom challenge
+ */
+export interface AnswerCustomChallengeParams {
+  /** username of the user */
+  username: string;
+  /** session returned with the challenge */
+  session: string;
+  /** answer to the challenge (e.g. the code received by email) */
+  answer: string;
+  /** optional metadata passed to the lambda triggers */
+  clientMetadata?: Record<string, string>;
+}
+
+/**
+ * user authenticated by the cognito auth guard, available with the `@CurrentUser()` decorator
+ */
+export interface CognitoAuthUser {
+  /** username of the user */
+  username: string;
+  /** groups of the user from the "cognito:groups" claim */
+  groups: string[];
+  /** verified token claims */
+  claims: CognitoJwtClaims;
+}
+
+/**
+ * options of the cognito auth guard
+ */
+export interface CognitoAuthGuardOptions {
+  /** token use accepted as bearer credential (default "access") */
+  tokenUse?: CognitoTokenUse;
+}
+
+/**
+ * options of the cognito module
+ */
+export interface CognitoModuleOptions extends CognitoAuthGuardOptions {
+  /** register the module globally so the guard can be used in every module (default false) */
+  isGlobal?: boolean;
+}
+
+/**
+ * options of the cognito module with an asynchronous configuration
+ */
+export interface CognitoModuleAsyncOptions extends CognitoModuleOptions {
+  /** modules exporting the providers injected in the factory */
+  imports?: ModuleMetadata['imports'];
+  /** providers injected in the factory */
+  inject?: Array<InjectionToken | OptionalFactoryDependency>;
+  /** factory of the cognito service configuration */
+  useFactory: (...args: never[]) => CognitoServiceConfig | Promise<CognitoServiceConfig>;
+}
+
+/**
+ * configuration of the cognito hosted ui oauth helpers
+ */
+export interface CognitoHostedUiConfig {
+  /** hosted ui domain (e.g. "myapp.auth.us-east-1.amazoncognito.com" or "https://auth.example.com") */
+  domain: string;
+  /** cognito app client id */
+  clientId: string;
+  /** optional cognito app client secret (required if the app client has a secret) */
+  clientSecret?: string;
+  /** default callback url registered on the app client */
+  redirectUri: string;
+  /** default scopes (defaults to openid, email and profile) */
+  scopes?: string[];
+  /** optional logger instance (will create new if not provided) */
+  logger?: Logger;
+}
+
+/**
+ * pkce code verifier and its challenge
+ */
+export interface PkcePair {
+  /** secret kept by the client until the code exchange */
+  codeVerifier: string;
+  /** s256 challenge sent in the authorize url */
+  codeChallenge: string;
+}
+
+/**
+ * parameters of a hosted ui authorize url
+ */
+export interface AuthorizeUrlParams {
+  /** opaque value returned to the callback, to protect against csrf */
+  state?: string;
+  /** pkce challenge (s256) */
+  codeChallenge?: string;
+  /** identity provider to redirect to directly (e.g. "Google" or a saml provider name) */
+  identityProvider?: string;
+  /** scopes overriding the configured ones */
+  scopes?: string[];
+  /** callback url overriding the configured one */
+  redirectUri?: string;
+  /** nonce copied in the id token */
+  nonce?: string;
+}
+
+/**
+ * parameters for exchanging an authorization code
+ */
+export interface ExchangeCodeParams {
+  /** authorization code received by the callback */
+  code: string;
+  /** pkce code verifier matching the challenge of the authorize url */
+  codeVerifier?: string;
+  /** callback url used in the authorize url, if not the configured one */
+  redirectUri?: string;
+}
+
+/**
+ * type of a federated identity provider
+ */
+export type IdentityProviderType =
+  | 'SAML'
+  | 'OIDC'
+  | 'Google'
+  | 'Facebook'
+  | 'LoginWithAmazon'
+  | 'SignInWithApple';
+
+/**
+ * parameters for creating an identity provider
+ */
+export interface CreateIdentityProviderParams {
+  /** name of the provider, used in the authorize urls (e.g. "Google" or "AcmeSaml") */
+  providerName: string;
+  /** type of the provider */
+  providerType: IdentityProviderType;
+  /** provider settings (e.g. client_id, client_secret and authorize_scopes, or MetadataURL for saml) */
+  providerDetails: Record<string, string>;
+  /** mapping of user pool attributes to provider attributes (e.g. { email: 'email' }) */
+  attributeMapping?: Record<string, string>;
+  /** optional identifiers of the provider (e.g. email domains for saml) */
+  idpIdentifiers?: string[];
+}
+
+/**
+ * federated user of an identity provider
+ */
+export interface ProviderUserParams {
+  /** name of the identity provider */
+  providerName: string;
+  /** attribute identifying the user (defaults to "Cognito_Subject", the provider subject) */
+  providerAttributeName?: string;
+  /** value of the attribute (e.g. the google subject) */
+  providerAttributeValue: string;
+}
+
+/**
+ * parameters for linking a federated user to an existing user
+ */
+export interface LinkProviderForUserParams extends ProviderUserParams {
+  /** username of the existing user pool user */
+  username: string;
+}
+
+/**
+ * configuration options for the cognito admin service
+ */
+export interface CognitoAdminServiceConfig {
+  /** aws region of the user pools */
+  region: string;
+  /** optional logger instance (will create new if not provided) */
+  logger?: Logger;
+  /** throw typed cognito errors instead of returning false/null results (default false) */
+  throwOnError?: boolean;
+  /** optional credentials or credential provider (defaults to the aws default provider chain) */
+  credentials?: AwsCredentialIdentity | AwsCredentialIdentityProvider;
+  /** optional endpoint of the cognito api (e.g. a local emulator such as cognito-local) */
+  endpoint?: string;
+  /** optional maximum number of attempts of each request, retries included (sdk default 3) */
+  maxAttempts?: number;
+  /** optional pre-built client, the region is still used by the created services */
+  client?: CognitoIdentityProviderClient;
+}
+
+/**
+ * attributes that can be used as username or verified automatically
+ */
+export type UserPoolContactAttribute = 'email' | 'phone_number';
+
+/**
+ * custom attribute of a user pool, read and written as "custom:<name>"
+ */
+export interface CustomAttributeDefinition {
+  /** name of the attribute without the "custom:" prefix */
+  name: string;
+  /** type of the attribute (default "String") */
+  type?: 'String' | 'Number' | 'Boolean' | 'DateTime';
+  /** whether the attribute can be changed after sign up (default true) */
+  mutable?: boolean;
+}
+
+/**
+ * parameters for creating a user pool
+ */
+export interface CreateUserPoolParams {
+  /** name of the user pool */
+  poolName: string;
+  /** optional password policy, merged with the cognito default policy */
+  passwordPolicy?: Partial<UserPoolPasswordPolicy>;
+  /** optional mfa configuration (default "OFF") */
+  mfaConfiguration?: 'OFF' | 'ON' | 'OPTIONAL';
+  /** optional attributes users sign in with instead of a username */
+  usernameAttributes?: UserPoolContactAttribute[];
+  /** optional attributes verified with a code on sign up */
+  autoVerifiedAttributes?: UserPoolContactAttribute[];
+  /** optional custom attributes of the users */
+  customAttributes?: CustomAttributeDefinition[];
+  /** whether the user pool is protected against deletion */
+  deletionProtection?: boolean;
+  /** optional tags of the user pool (e.g. the tenant id) */
+  tags?: Record<string, string>;
+}
+
+/**
+ * parameters for updating a user pool, omitted settings are kept
+ */
+export interface UpdateUserPoolParams {
+  /** id of the user pool */
+  userPoolId: string;
+  /** optional password policy, merged with the current policy */
+  passwordPolicy?: Partial<UserPoolPasswordPolicy>;
+  /** optional mfa configuration */
+  mfaConfiguration?: 'OFF' | 'ON' | 'OPTIONAL';
+  /** optional attributes verified with a code on sign up */
+  autoVerifiedAttributes?: UserPoolContactAttribute[];
+  /** whether the user pool is protected against deletion */
+  deletionProtection?: boolean;
+  /** optional tags of the user pool, replacing the current tags */
+  tags?: Record<string, string>;
+}
+
+/**
+ * user pool summary
+ */
+export interface CognitoUserPool {
+  /** id of the user pool */
+  id: string;
+  /** name of the user pool */
+  name: string;
+  /** arn of the user pool */
+  arn?: string;
+  /** password policy of the user pool */
+  passwordPolicy: UserPoolPasswordPolicy;
+  /** mfa configuration */
+  mfaConfiguration?: string;
+  /** attributes users sign in with instead of a username */
+  usernameAttributes: string[];
+  /** attributes verified with a code on sign up */
+  autoVerifiedAttributes: string[];
+  /** whether the user pool is protected against deletion */
+  deletionProtection: boolean;
+  /** estimated number of users */
+  estimatedNumberOfUsers?: number;
+  /** tags of the user pool */
+  tags: Record<string, string>;
+  /** creation date */
+  creationDate?: Date;
+  /** last modification date */
+  lastModifiedDate?: Date;
+}
+
+/**
+ * validity of the tokens issued to an app client, in seconds
+ */
+export interface AppClientTokenValidity {
+  /** validity of the access tokens (5 minutes to 1 day) */
+  accessTokenSeconds?: number;
+  /** validity of the id tokens (5 minutes to 1 day) */
+  idTokenSeconds?: number;
+  /** validity of the refresh tokens (1 hour to 10 years) */
+  refreshTokenSeconds?: number;
+}
+
+/**
+ * oauth flow allowed to an app client
+ */
+export type AppClientOAuthFlow = 'code' | 'implicit' | 'client_credentials';
+
+/**
+ * settings of an app client
+ */
+export interface AppClientSettings {
+  /** optional validity of the issued tokens */
+  tokenValidity?: AppClientTokenValidity;
+  /** optional authentication flows (e.g. ALLOW_USER_PASSWORD_AUTH, ALLOW_REFRESH_TOKEN_AUTH) */
+  explicitAuthFlows?: string[];
+  /** optional oauth flows of the hosted ui, enabling them on the app client */
+  allowedOAuthFlows?: AppClientOAuthFlow[];
+  /** optional oauth scopes (e.g. openid, email, profile) */
+  allowedOAuthScopes?: string[];
+  /** optional allowed redirect urls after sign in */
+  callbackUrls?: string[];
+  /** optional allowed redirect urls after sign out */
+  logoutUrls?: string[];
+  /** optional identity providers of the hosted ui (e.g. COGNITO, Google) */
+  supportedIdentityProviders?: string[];
+  /** optional attributes the app client can read */
+  readAttributes?: string[];
+  /** optional attributes the app client can write */
+  writeAttributes?: string[];
+  /** whether unknown users get the same errors as wrong passwords (default true) */
+  preventUserExistenceErrors?: boolean;
+  /** whether refresh tokens can be revoked (default true) */
+  enableTokenRevocation?: boolean;
+}
+
+/**
+ * parameters for creating an app client
+ */
+export interface CreateAppClientParams extends AppClientSettings {
+  /** id of the user pool */
+  userPoolId: string;
+  /** name of the app client */
+  clientName: string;
+  /** whether the app client has a secret (server side apps) */
+  generateSecret?: boolean;
+}
+
+/**
+ * parameters for updating an app client, omitted settings are kept
+ */
+export interface UpdateAppClientParams extends AppClientSettings {
+  /** id of the user pool */
+  userPoolId: string;
+  /** id of the app client */
+  clientId: string;
+  /** optional new name of the app client */
+  clientName?: string;
+}
+
+/**
+ * app client summary
+ */
+export interface CognitoAppClient
+  extends Required<
+    Omit<AppClientSettings, 'preventUserExistenceErrors' | 'enableTokenRevocation'>
+  > {
+  /** id of the user pool */
+  userPoolId: string;
+  /** id of the app client */
+  clientId: string;
+  /** name of the app client */
+  clientName: string;
+  /** secret of the app client, if it has one */
+  clientSecret?: string;
+  /** validity of the issued tokens */
+  tokenValidity: Required<AppClientTokenValidity>;
+  /** whether unknown users get the same errors as wrong passwords */
+  preventUserExistenceErrors: boolean;
+  /** whether refresh tokens can be revoked */
+  enableTokenRevocation: boolean;
+}
+
+/**
+ * configuration of a service bound to one tenant user pool and app client,
+ * the region and client settings come from the admin service
+ */
+export type TenantCognitoServiceConfig = Omit<
+  CognitoServiceConfig,
+  'region' | 'client' | 'credentials' | 'endpoint' | 'maxAttempts'
+>;
+
+/**
+ * configuration of the cognito service of a tenant, the client settings come from the registry
+ */
+export interface CognitoTenantConfig extends TenantCognitoServiceConfig {
+  /** aws region of the tenant user pool */
+  region: string;
+}
+
+/**
+ * user pool referenced by the issuer of a token
+ */
+export interface TokenIssuerPool {
+  /** aws region of the user pool */
+  region: string;
+  /** id of the user pool */
+  userPoolId: string;
+}
+
+/**
+ * configuration options for the cognito service registry
+ */
+export interface CognitoServiceRegistryConfig {
+  /** resolve the configuration of a tenant (e.g. from a database), called once per cached tenant */
+  resolveTenant: (tenantId: string) => CognitoTenantConfig | Promise<CognitoTenantConfig>;
+  /** optional lookup of the tenant owning a user pool, to verify tokens of tenants not loaded yet */
+  resolveTenantId?: (pool: TokenIssuerPool) => string | undefined | Promise<string | undefined>;
+  /** how long an issuer without a tenant is not looked up again, in milliseconds (default 5 minutes) */
+  unknownIssuerTtlMs?: number;
+  /** maximum number of issuers without a tenant remembered, the oldest are dropped (default 1000) */
+  maxUnknownIssuers?: number;
+  /** optional logger instance (will create new if not provided) */
+  logger?: Logger;
+  /** throw typed cognito errors instead of returning false/null/error results (default false) */
+  throwOnError?: boolean;
+  /** optional credentials or credential provider shared by all tenants */
+  credentials?: AwsCredentialIdentity | AwsCredentialIdentityProvider;
+  /** optional endpoint of the cognito api (e.g. a local emulator such as cognito-local) */
+  endpoint?: string;
+  /** optional maximum number of attempts of each request, retries included (sdk default 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * result of a token verification routed to the tenant of the token issuer
+ */
+export interface TenantVerifyTokenResult extends VerifyTokenResult {
+  /** id of the tenant owning the token (if its issuer is known) */
+  tenantId?: string;
 }
@@ -1,97 +1,178 @@
-import * as aws from 'aws-sdk';
+import {
+  GetAccountCommand,
+  MessageTag,
+  SendEmailCommand,
+  SendEmailCommandInput,
+  SESv2Client,
+} from '@aws-sdk/client-sesv2';
 import * as nodemailer from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
 import { EmailSender } from './EmailSender';
-import { EmailData, AwsConfig } from './types';
-import { SendEmailRequest } from 'aws-sdk/clients/ses';
+import { EmailData, AwsConfig, SesSendOptions } from './types';
 
-// aws ses implementation
+// normalize a single address or a list of addresses
+const toAddressList = (addresses: string | string[]): string[] =>
+  Array.isArray(addresses) ? addresses : [addresses];
+
+// headers set by nodemailer for each priority, a normal priority adds none
+const PRIORITY_HEADERS: Record<NonNullable<EmailData['priority']>, Record<string, string>> = {
+  high: { 'X-Priority': '1 (Highest)', 'X-MSMail-Priority': 'High', Importance: 'High' },
+  normal: {},
+  low: { 'X-Priority': '5 (Lowest)', 'X-MSMail-Priority': 'Low', Importance: 'Low' },
+};
+
+// aws ses (v2 api) implementation
 export class AwsSender extends EmailSender {
-  private ses: aws.SES;
+  private ses: SESv2Client;
+  // sending options applied to every email
+  private defaults: SesSendOptions;
 
   constructor(config: AwsConfig) {
     super();
-    // create ses service object
-    this.ses = new aws.SES({
-      apiVersion: '2010-12-01',
-      region: config.region,
-      credentials: {
-        accessKeyId: config.accessKeyId,
-        secretAccessKey: config.secretAccessKey,
-      },
+    const {
+      region,
+      accessKeyId,
+      secretAccessKey,
+      sessionToken,
+      credentials,
+      endpoint,
+      ...defaults
+    } = config;
+    this.defaults = defaults;
+
+    // half a key pair is a configuration mistake, not a request for the default credential chain
+    if (!accessKeyId !== !secretAccessKey) {
+      throw new Error('aws ses config needs both accessKeyId and secretAccessKey, or neither');
+    }
+
+    // without credentials or static keys the client uses the default credential chain
+    const staticCredentials =
+      accessKeyId && secretAccessKey
+        ? { accessKeyId, secretAccessKey, ...(sessionToken && { sessionToken }) }
+        : undefined;
+    const clientCredentials = credentials || staticCredentials;
+
+    // create ses client
+    this.ses = new SESv2Client({
+      region,
+      ...(clientCredentials && { credentials: clientCredentials }),
+      ...(endpoint && { endpoint }),
     });
   }
 
   // send email using aws ses
   async send(emailData: EmailData): Promise<nodemailer.SentMessageInfo> {
     try {
-      // handle emails with attachments
-      if (emailData.attachments && emailData.attachments.length > 0) {
-        return this.sendWithAttachments(emailData);
+      // handle emails with attachments, custom headers or priority as raw emails
+      if (this.requiresRawEmail(emailData)) {
+        return await this.sendRawEmail(emailData);
       } else {
-        return this.sendSimpleEmail(emailData);
+        return await this.sendSimpleEmail(emailData);
       }
     } catch (error) {
       throw new Error(`failed to send email with aws ses: ${error}`);
     }
   }
 
+  // whether the email uses features that simple ses content does not support
+  private requiresRawEmail(emailData: EmailData): boolean {
+    return (
+      (emailData.attachments !== undefined && emailData.attachments.length > 0) ||
+      (emailData.headers !== undefined && Object.keys(emailData.headers).length > 0) ||
+      emailData.priority !== undefined
+    );
+  }
+
   // send simple email without attachments
   private async sendSimpleEmail(emailData: EmailData): Promise<nodemailer.SentMessageInfo> {
     // prepare the parameters for sending email
-    const params: SendEmailRequest = {
-      Source: emailData.from,
-      Destination: {
-        ToAddresses: Array.isArray(emailData.to) ? emailData.to : [emailData.to],
-      },
-      Message: {
-        Subject: {
-          Data: emailData.subject,
+    const params: SendEmailCommandInput = {
+      ...this.sendOptions(emailData),
+      ...(emailData.replyTo && { ReplyToAddresses: toAddressList(emailData.replyTo) }),
+      Content: {
+        Simple: {
+          Subject: {
+            Data: emailData.subject,
+          },
+          Body: {
+            // add text and html content if provided
+            ...(emailData.text && { Text: { Data: emailData.text } }),
+            ...(emailData.html && { Html: { Data: emailData.html } }),
+          },
         },
-        Body: {},
       },
     };
 
-    // add text content if provided
-    if (emailData.text) {
-      params.Message.Body['Text'] = {
-        Data: emailData.text,
-      };
-    }
-
-    // add html content if provided
-    if (emailData.html) {
-      params.Message.Body['Html'] = {
-        Data: emailData.html,
-      };
-    }
-
-    // send email without attachments using standard ses.sendEmail
-    return await this.ses.sendEmail(params).promise();
+    return await this.ses.send(new SendEmailCommand(params));
   }
 
-  // send email with attachments using raw email
-  private async sendWithAttachments(emailData: EmailData): Promise<nodemailer.SentMessageInfo> {
-    // for ses, we need to use sendRawEmail for attachments
-    // create a nodemailer transporter to generate raw email
-    const rawMailer = nodemailer.createTransport({
-      SES: this.ses,
-    });
-
-    // send raw email with attachments
-    return await rawMailer.sendMail({
+  // send email with attachments, custom headers or priority using raw email
+  private async sendRawEmail(emailData: EmailData): Promise<nodemailer.SentMessageInfo> {
+    // compose the mime message, bcc recipients are only added to the ses destination
+    const message = await new MailComposer({
       from: emailData.from,
-      to: Array.isArray(emailData.to) ? emailData.to.join(',') : emailData.to,
+      to: emailData.to,
       subject: emailData.subject,
       text: emailData.text,
       html: emailData.html,
       attachments: emailData.attachments,
-    });
+      ...(emailData.cc && { cc: emailData.cc }),
+      ...(emailData.replyTo && { replyTo: emailData.replyTo }),
+      headers: {
+        ...(emailData.priority && PRIORITY_HEADERS[emailData.priority]),
+        ...emailData.headers,
+      },
+    })
+      .compile()
+      .build();
+
+    return await this.ses.send(
+      new SendEmailCommand({
+        ...this.sendOptions(emailData),
+        Content: {
+          Raw: {
+            Data: message,
+          },
+        },
+      }),
+    );
+  }
+
+  // sender, recipients and ses options shared by simple and raw emails
+  private sendOptions(emailData: EmailData): Omit<SendEmailCommandInput, 'Content'> {
+    const options = { ...this.defaults, ...emailData.ses };
+    const tags = { ...this.defaults.tags, ...emailData.ses?.tags };
+    const emailTags: MessageTag[] = Object.entries(tags).map(([Name, Value]) => ({
+      Name,
+      Value,
+    }));
+
+    return {
+      FromEmailAddress: emailData.from,
+      Destination: {
+        ToAddresses: toAddressList(emailData.to),
+        ...(emailData.cc && { CcAddresses: toAddressList(emailData.cc) }),
+        ...(emailData.bcc && { BccAddresses: toAddressList(emailData.bcc) }),
+      },
+      ...(options.configurationSetName && {
+        ConfigurationSetName: options.configurationSetName,
+      }),
+      ...(emailTags.length > 0 && { EmailTags: emailTags }),
+      ...(options.fromEmailAddressIdentityArn && {
+        FromEmailAddressIdentityArn: options.fromEmailAddressIdentityArn,
+      }),
+      ...(options.feedbackForwardingEmailAddressIdentityArn && {
+        FeedbackForwardingEmailAddressIdentityArn:
+          options.feedbackForwardingEmailAddressIdentityArn,
+      }),
+      ...(options.tenantName && { TenantName: options.tenantName }),
+    };
   }
 
   // check if aws ses credentials are valid
   async verifyCredentials(): Promise<boolean> {
     try {
-      await this.ses.getSendQuota().promise();
+      await this.ses.send(new GetAccountCommand({}));
       return true;
     } catch (error) {
       console.error('AWS SES credentials are invalid:', error);
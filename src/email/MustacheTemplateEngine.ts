@@ -0,0 +1,196 @@
+import { TemplateEngine, TemplateRenderOptions } from './types';
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; escape: boolean }
+  | { type: 'section'; name: string; inverted: boolean; children: Token[] }
+  | { type: 'partial'; name: string };
+
+type SectionToken = Extract<Token, { type: 'section' }>;
+
+// {{{raw}}} or {{name}}, {{&raw}}, {{#section}}, {{^inverted}}, {{/section}}, {{> partial}}, {{! comment}}
+const TAG = /\{\{\{\s*([^}]+?)\s*\}\}\}|\{\{\s*([#^/>!&]?)\s*([^}]*?)\s*\}\}/;
+
+// tags removed with their line when they stand alone on it
+const STANDALONE_SIGILS = ['#', '^', '/', '!'];
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// escape a value inserted into html
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (character) => HTML_ESCAPES[character] as string);
+
+// whether a value is an object with an own property, prototype members are never resolved
+const hasOwn = (value: unknown, key: string): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key);
+
+// built-in mustache-style template engine: variables with dotted paths, sections, inverted
+// sections, partials and comments
+export class MustacheTemplateEngine implements TemplateEngine {
+  private readonly cache = new Map<string, Token[]>();
+
+  // render a template with the given variables
+  render(template: string, variables: object, options: TemplateRenderOptions): string {
+    return this.renderTokens(this.parse(template), [variables], options);
+  }
+
+  // parse a template into tokens, parsed templates are cached
+  private parse(template: string): Token[] {
+    const cached = this.cache.get(template);
+    if (cached) return cached;
+
+    const root: Token[] = [];
+    const open: Array<{ section: SectionToken; parent: Token[] }> = [];
+    let current = root;
+    let last = 0;
+
+    const tags = new RegExp(TAG, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = tags.exec(template)) !== null) {
+      const [tag, raw, sigil = '', name = ''] = match;
+      let start = match.index;
+      let end = start + tag.length;
+
+      // a standalone tag does not leave an empty line behind
+      if (STANDALONE_SIGILS.includes(sigil)) {
+        const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+        const newline = template.indexOf('\n', end);
+        const lineEnd = newline === -1 ? template.length : newline + 1;
+        if (
+          lineStart >= last &&
+          /^[ \t]*$/.test(template.slice(lineStart, start)) &&
+          /^[ \t]*\r?\n?$/.test(template.slice(end, lineEnd))
+        ) {
+          start = lineStart;
+          end = lineEnd;
+        }
+      }
+
+      if (start > last) {
+        current.push({ type: 'text', value: template.slice(last, start) });
+      }
+      last = end;
+
+      if (raw !== undefined) {
+        current.push({ type: 'variable', name: raw, escape: false });
+        continue;
+      }
+
+      switch (sigil) {
+        case '!':
+          break;
+        case '&':
+          current.push({ type: 'variable', name, escape: false });
+          break;
+        case '>':
+          current.push({ type: 'partial', name });
+          break;
+        case '#':
+        case '^': {
+          const section: SectionToken = {
+            type: 'section',
+            name,
+            inverted: sigil === '^',
+            children: [],
+          };
+          current.push(section);
+          open.push({ section, parent: current });
+          current = section.children;
+          break;
+        }
+        case '/': {
+          const opened = open.pop();
+          if (!opened || opened.section.name !== name) {
+            throw new Error(`unexpected closing tag in email template: ${name}`);
+          }
+          current = opened.parent;
+          break;
+        }
+        default:
+          current.push({ type: 'variable', name, escape: true });
+      }
+    }
+
+    const unclosed = open.pop();
+    if (unclosed) {
+      throw new Error(`unclosed section in email template: ${unclosed.section.name}`);
+    }
+    if (last < template.length) {
+      current.push({ type: 'text', value: template.slice(last) });
+    }
+
+    this.cache.set(template, root);
+    return root;
+  }
+
+  // render tokens against a stack of contexts, innermost first
+  private renderTokens(tokens: Token[], stack: unknown[], options: TemplateRenderOptions): string {
+    return tokens
+      .map((token) => {
+        switch (token.type) {
+          case 'text':
+            return token.value;
+          case 'variable': {
+            const value = this.lookup(token.name, stack);
+            if (value === undefined || value === null) return '';
+            return token.escape && options.escape ? escapeHtml(String(value)) : String(value);
+          }
+          case 'partial': {
+            const partial = options.partials[token.name];
+            if (partial === undefined) {
+              throw new Error(`email template partial not found: ${token.name}`);
+            }
+            return this.renderTokens(this.parse(partial), stack, options);
+          }
+          case 'section':
+            return this.renderSection(token, stack, options);
+        }
+      })
+      .join('');
+  }
+
+  // render a section once per item of a list, once for any other truthy value
+  private renderSection(
+    section: SectionToken,
+    stack: unknown[],
+    options: TemplateRenderOptions,
+  ): string {
+    const value = this.lookup(section.name, stack);
+    const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+    if (section.inverted) {
+      return truthy ? '' : this.renderTokens(section.children, stack, options);
+    }
+    if (!truthy) return '';
+
+    if (Array.isArray(value)) {
+      return value
+        .map((item) => this.renderTokens(section.children, [item, ...stack], options))
+        .join('');
+    }
+    if (typeof value === 'object') {
+      return this.renderTokens(section.children, [value, ...stack], options);
+    }
+    return this.renderTokens(section.children, stack, options);
+  }
+
+  // resolve a dotted name in the innermost context defining its first segment
+  private lookup(name: string, stack: unknown[]): unknown {
+    if (name === '.') return stack[0];
+
+    const [first, ...rest] = name.split('.') as [string, ...string[]];
+    const context = stack.find((candidate) => hasOwn(candidate, first));
+    if (!hasOwn(context, first)) return undefined;
+
+    return rest.reduce<unknown>(
+      (value, key) => (hasOwn(value, key) ? value[key] : undefined),
+      context[first],
+    );
+  }
+}
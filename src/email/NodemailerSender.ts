@@ -23,6 +23,11 @@ export class NodemailerSender extends EmailSender {
         text: emailData.text,
         html: emailData.html,
         attachments: emailData.attachments,
+        ...(emailData.cc && { cc: emailData.cc }),
+        ...(emailData.bcc && { bcc: emailData.bcc }),
+        ...(emailData.replyTo && { replyTo: emailData.replyTo }),
+        ...(emailData.headers && { headers: emailData.headers }),
+        ...(emailData.priority && { priority: emailData.priority }),
       });
 
       return info;
@@ -0,0 +1,137 @@
+import * as nodemailer from 'nodemailer';
+import { EmailSender } from './EmailSender';
+import { htmlToText } from './htmlToText';
+import { MustacheTemplateEngine } from './MustacheTemplateEngine';
+import {
+  EmailLayout,
+  EmailTemplate,
+  RenderedEmail,
+  TemplateEmailData,
+  TemplateEmailSenderConfig,
+  TemplateEngine,
+} from './types';
+
+// template layer on top of an email sender: renders named templates, with layouts, partials and
+// per-locale variants, and sends them. TTemplates maps each template name to its variables
+export class TemplateEmailSender<
+  TTemplates extends { [K in keyof TTemplates]: object } = Record<string, Record<string, unknown>>,
+> {
+  private readonly sender: EmailSender;
+  private readonly engine: TemplateEngine;
+  private readonly defaultLocale: string | undefined;
+  private readonly from: string | undefined;
+  private readonly templates = new Map<string, EmailTemplate>();
+  private readonly layouts = new Map<string, EmailLayout>();
+  private readonly partials: Record<string, string> = {};
+
+  constructor(config: TemplateEmailSenderConfig) {
+    this.sender = config.sender;
+    this.engine = config.engine || new MustacheTemplateEngine();
+    this.defaultLocale = config.defaultLocale;
+    this.from = config.from;
+  }
+
+  // register a template, optionally as the variant of a locale (e.g. 'it' or 'it-IT')
+  registerTemplate<K extends keyof TTemplates & string>(
+    name: K,
+    template: EmailTemplate,
+    locale?: string,
+  ): this {
+    this.templates.set(this.key(name, locale), template);
+    return this;
+  }
+
+  // register a layout, optionally as the variant of a locale
+  registerLayout(name: string, layout: EmailLayout, locale?: string): this {
+    this.layouts.set(this.key(name, locale), layout);
+    return this;
+  }
+
+  // register a partial included in templates and layouts with {{> name}}
+  registerPartial(name: string, partial: string): this {
+    this.partials[name] = partial;
+    return this;
+  }
+
+  // render the subject and bodies of a template
+  render<K extends keyof TTemplates & string>(
+    name: K,
+    variables: TTemplates[K],
+    locale?: string,
+  ): RenderedEmail {
+    const template = this.resolve(this.templates, name, locale);
+    if (!template) {
+      throw new Error(`email template not found: ${name}`);
+    }
+
+    const layout = template.layout
+      ? this.resolve(this.layouts, template.layout, locale)
+      : undefined;
+    if (template.layout && !layout) {
+      throw new Error(`email layout not found: ${template.layout}`);
+    }
+
+    const html =
+      template.html !== undefined
+        ? this.renderBody(template.html, layout?.html, variables, true)
+        : undefined;
+    const text =
+      template.text !== undefined
+        ? this.renderBody(template.text, layout?.text, variables, false)
+        : html !== undefined
+          ? htmlToText(html)
+          : '';
+
+    return {
+      subject: this.engine.render(template.subject, variables, {
+        partials: this.partials,
+        escape: false,
+      }),
+      ...(html !== undefined && { html }),
+      text,
+    };
+  }
+
+  // render a template and send it with the underlying sender
+  async send<K extends keyof TTemplates & string>(
+    name: K,
+    emailData: TemplateEmailData<TTemplates[K]>,
+  ): Promise<nodemailer.SentMessageInfo> {
+    const { variables, locale, from = this.from, ...data } = emailData;
+    if (!from) {
+      throw new Error('email sender address is missing');
+    }
+
+    const rendered = this.render(name, variables, locale);
+    return this.sender.send({ ...data, from, ...rendered });
+  }
+
+  // render a body and wrap it in the layout, which inserts it with {{{body}}}
+  private renderBody(
+    body: string,
+    layout: string | undefined,
+    variables: object,
+    escape: boolean,
+  ): string {
+    const options = { partials: this.partials, escape };
+    const rendered = this.engine.render(body, variables, options);
+
+    return layout === undefined
+      ? rendered
+      : this.engine.render(layout, { ...variables, body: rendered }, options);
+  }
+
+  // find the variant of a locale, falling back to its language, the default locale and no locale
+  private resolve<T>(entries: Map<string, T>, name: string, locale?: string): T | undefined {
+    const candidates = [locale, locale?.split('-')[0], this.defaultLocale, undefined];
+    for (const candidate of candidates) {
+      const entry = entries.get(this.key(name, candidate));
+      if (entry) return entry;
+    }
+    return undefined;
+  }
+
+  private key(name: string, locale?: string): string {
+    return locale ? `${name}:${locale.toLowerCase()}` : name;
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  GetAccountCommand,
+  SendEmailCommand,
+  SendEmailCommandInput,
+  SESv2Client,
+} from '@aws-sdk/client-sesv2';
+import { mockClient } from 'aws-sdk-client-mock';
+import { AwsSender } from '../AwsSender';
+import { AwsConfig, EmailData } from '../types';
+
+// Mock AWS SDK client
+const mockSesClient = mockClient(SESv2Client);
+
+describe('AwsSender', () => {
+  const awsConfig: AwsConfig = {
+    accessKeyId: 'test-access-key',
+    secretAccessKey: 'test-secret-key',
+    region: 'us-east-1',
+  };
+
+  // input of the first sent email
+  const sentInput = (): SendEmailCommandInput | undefined =>
+    mockSesClient.commandCalls(SendEmailCommand)[0]?.args[0].input;
+
+  // raw mime message of the first sent email
+  const sentRawMessage = (): string =>
+    Buffer.from(sentInput()?.Content?.Raw?.Data || []).toString();
+
+  beforeEach(() => {
+    mockSesClient.reset();
+    mockSesClient.on(SendEmailCommand).resolves({ MessageId: 'ses-id' });
+  });
+
+  describe('constructor', () => {
+    it('should use the static keys and the custom endpoint', async () => {
+      // Arrange
+      const sender = new AwsSender({
+        ...awsConfig,
+        sessionToken: 'test-session-token',
+        endpoint: 'http://localhost:4566',
+      });
+      const client = Reflect.get(sender, 'ses') as SESv2Client;
+
+      // Act
+      const credentials = await client.config.credentials();
+      const endpoint = await client.config.endpoint?.();
+
+      // Assert
+      expect(credentials).toEqual(
+        expect.objectContaining({
+          accessKeyId: 'test-access-key',
+          secretAccessKey: 'test-secret-key',
+          sessionToken: 'test-session-token',
+        }),
+      );
+      expect(endpoint).toEqual(expect.objectContaining({ hostname: 'localhost', port: 4566 }));
+    });
+
+    it('should prefer the given credential provider over the static keys', async () => {
+      // Arrange
+      const provider = jest
+        .fn()
+        .mockResolvedValue({ accessKeyId: 'role-key', secretAccessKey: 'role-secret' });
+      const sender = new AwsSender({ ...awsConfig, credentials: provider });
+      const client = Reflect.get(sender, 'ses') as SESv2Client;
+
+      // Act
+      const credentials = await client.config.credentials();
+
+      // Assert
+      expect(credentials).toEqual(expect.objectContaining({ accessKeyId: 'role-key' }));
+      expect(provider).toHaveBeenCalled();
+    });
+
+    it.each([
+      ['accessKeyId', { accessKeyId: 'test-access-key' }],
+      ['secretAccessKey', { secretAccessKey: 'test-secret-key' }],
+    ])('should reject a config with only the %s', (_key, keys) => {
+      expect(() => new AwsSender({ region: 'us-east-1', ...keys })).toThrow(
+        'aws ses config needs both accessKeyId and secretAccessKey, or neither',
+      );
+    });
+  });
+
+  describe('send', () => {
+    it('should send cc, bcc and reply-to addresses with a simple email', async () => {
+      // Arrange
+      const sender = new AwsSender(awsConfig);
+      const emailData: EmailData = {
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        cc: 'cc@example.com',
+        bcc: ['bcc1@example.com', 'bcc2@example.com'],
+        replyTo: 'support@example.com',
+        subject: 'Test Email',
+        text: 'Test content',
+      };
+
+      // Act
+      const result = await sender.send(emailData);
+
+      // Assert
+      expect(result).toEqual(expect.objectContaining({ MessageId: 'ses-id' }));
+      expect(sentInput()).toEqual({
+        FromEmailAddress: 'sender@example.com',
+        Destination: {
+          ToAddresses: ['recipient@example.com'],
+          CcAddresses: ['cc@example.com'],
+          BccAddresses: ['bcc1@example.com', 'bcc2@example.com'],
+        },
+        ReplyToAddresses: ['support@example.com'],
+        Content: {
+          Simple: {
+            Subject: { Data: 'Test Email' },
+            Body: { Text: { Data: 'Test content' } },
+          },
+        },
+      });
+    });
+
+    it('should merge the ses options of the email over the defaults of the sender', async () => {
+      // Arrange
+      const sender = new AwsSender({
+        region: 'us-east-1',
+        configurationSetName: 'transactional',
+        tags: { application: 'shop', campaign: 'none' },
+        fromEmailAddressIdentityArn: 'arn:aws:ses:us-east-1:123456789012:identity/example.com',
+        tenantName: 'acme',
+      });
+
+      // Act
+      await sender.send({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Welcome',
+        html: '<p>Welcome</p>',
+        ses: {
+          configurationSetName: 'marketing',
+          tags: { campaign: 'welcome' },
+          feedbackForwardingEmailAddressIdentityArn:
+            'arn:aws:ses:us-east-1:123456789012:identity/bounces.example.com',
+        },
+      });
+
+      // Assert
+      expect(sentInput()).toEqual(
+        expect.objectContaining({
+          ConfigurationSetName: 'marketing',
+          EmailTags: [
+            { Name: 'application', Value: 'shop' },
+            { Name: 'campaign', Value: 'welcome' },
+          ],
+          FromEmailAddressIdentityArn: 'arn:aws:ses:us-east-1:123456789012:identity/example.com',
+          FeedbackForwardingEmailAddressIdentityArn:
+            'arn:aws:ses:us-east-1:123456789012:identity/bounces.example.com',
+          TenantName: 'acme',
+        }),
+      );
+    });
+
+    it('should switch to a raw email for custom headers and priority', async () => {
+      // Arrange
+      const sender = new AwsSender({ ...awsConfig, configurationSetName: 'newsletters' });
+      const emailData: EmailData = {
+        from: 'sender@example.com',
+        to: ['recipient1@example.com', 'recipient2@example.com'],
+        bcc: 'bcc@example.com',
+        subject: 'Newsletter',
+        html: '<p>News</p>',
+        headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' },
+        priority: 'high',
+      };
+
+      // Act
+      const result = await sender.send(emailData);
+
+      // Assert
+      expect(result).toEqual(expect.objectContaining({ MessageId: 'ses-id' }));
+      expect(sentInput()).toEqual(
+        expect.objectContaining({
+          FromEmailAddress: 'sender@example.com',
+          Destination: {
+            ToAddresses: ['recipient1@example.com', 'recipient2@example.com'],
+            BccAddresses: ['bcc@example.com'],
+          },
+          ConfigurationSetName: 'newsletters',
+        }),
+      );
+
+      const message = sentRawMessage();
+      expect(message).toContain('List-Unsubscribe: <https://example.com/unsubscribe>');
+      expect(message).toContain('X-Priority: 1 (Highest)');
+      expect(message).toContain('To: recipient1@example.com, recipient2@example.com');
+      expect(message).not.toContain('bcc@example.com');
+    });
+
+    it('should send attachments as a raw email', async () => {
+      // Arrange
+      const sender = new AwsSender(awsConfig);
+
+      // Act
+      await sender.send({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        subject: 'Report',
+        text: 'See attachment',
+        attachments: [{ filename: 'report.csv', content: 'a,b' }],
+      });
+
+      // Assert
+      expect(sentRawMessage()).toContain('filename=report.csv');
+    });
+
+    it('should wrap ses errors', async () => {
+      // Arrange
+      mockSesClient.on(SendEmailCommand).rejects(new Error('Email address is not verified'));
+      const sender = new AwsSender(awsConfig);
+
+      // Act & Assert
+      await expect(
+        sender.send({
+          from: 'sender@example.com',
+          to: 'recipient@example.com',
+          subject: 'Test Email',
+          text: 'Test content',
+        }),
+      ).rejects.toThrow('failed to send email with aws ses: Error: Email address is not verified');
+    });
+  });
+
+  describe('verifyCredentials', () => {
+    it('should return true when the account can be read', async () => {
+      // Arrange
+      mockSesClient.on(GetAccountCommand).resolves({ SendingEnabled: true });
+      const sender = new AwsSender(awsConfig);
+
+      // Act & Assert
+      expect(await sender.verifyCredentials()).toBe(true);
+    });
+
+    it('should return false when the account cannot be read', async () => {
+      // Arrange
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockSesClient.on(GetAccountCommand).rejects(new Error('invalid token'));
+      const sender = new AwsSender(awsConfig);
+
+      // Act & Assert
+      expect(await sender.verifyCredentials()).toBe(false);
+    });
+  });
+});
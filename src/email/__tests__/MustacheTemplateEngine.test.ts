@@ -0,0 +1,119 @@
+import { MustacheTemplateEngine } from '../MustacheTemplateEngine';
+
+describe('MustacheTemplateEngine', () => {
+  const engine = new MustacheTemplateEngine();
+  const html = { partials: {}, escape: true };
+
+  it('should render escaped, raw and dotted variables', () => {
+    // Arrange
+    const variables = { user: { name: '<John>' }, link: '<a href="#">x</a>' };
+
+    // Act
+    const result = engine.render(
+      'Hi {{user.name}}, {{{link}}} {{&link}} {{missing}}!',
+      variables,
+      html,
+    );
+
+    // Assert
+    expect(result).toBe('Hi &lt;John&gt;, <a href="#">x</a> <a href="#">x</a> !');
+  });
+
+  it('should not resolve prototype members', () => {
+    // Act
+    const result = engine.render(
+      '[{{constructor}}][{{user.toString}}][{{#toString}}x{{/toString}}][{{^hasOwnProperty}}y{{/hasOwnProperty}}]',
+      { user: { name: 'John' } },
+      html,
+    );
+
+    // Assert
+    expect(result).toBe('[][][][y]');
+  });
+
+  it('should not escape variables when escaping is disabled', () => {
+    // Act
+    const result = engine.render(
+      'Welcome {{name}}',
+      { name: 'Tom & Jerry' },
+      {
+        partials: {},
+        escape: false,
+      },
+    );
+
+    // Assert
+    expect(result).toBe('Welcome Tom & Jerry');
+  });
+
+  it('should render list, object, boolean and inverted sections', () => {
+    // Arrange
+    const template = [
+      '{{#items}}',
+      '- {{name}} x{{quantity}} ({{currency}})',
+      '{{/items}}',
+      '{{#customer}}Customer: {{name}}{{/customer}}',
+      '{{#vip}}VIP{{/vip}}{{^vip}}regular{{/vip}}',
+      '{{^coupons}}no coupons{{/coupons}}',
+      '{{! a comment }}',
+      'done',
+    ].join('\n');
+    const variables = {
+      currency: 'EUR',
+      items: [
+        { name: 'Book', quantity: 2 },
+        { name: 'Pen', quantity: 1 },
+      ],
+      customer: { name: 'ACME' },
+      vip: false,
+      coupons: [],
+    };
+
+    // Act
+    const result = engine.render(template, variables, { partials: {}, escape: false });
+
+    // Assert
+    expect(result).toBe(
+      '- Book x2 (EUR)\n- Pen x1 (EUR)\nCustomer: ACME\nregular\nno coupons\ndone',
+    );
+  });
+
+  it('should render the current item of a list of strings', () => {
+    // Act
+    const result = engine.render('{{#tags}}[{{.}}]{{/tags}}', { tags: ['a', 'b'] }, html);
+
+    // Assert
+    expect(result).toBe('[a][b]');
+  });
+
+  it('should render partials with the current context', () => {
+    // Arrange
+    const partials = { signature: 'Regards, {{team}}' };
+
+    // Act
+    const result = engine.render(
+      'Hello\n{{> signature}}',
+      { team: 'Support' },
+      {
+        partials,
+        escape: true,
+      },
+    );
+
+    // Assert
+    expect(result).toBe('Hello\nRegards, Support');
+  });
+
+  it('should reject malformed templates and missing partials', () => {
+    // Act & Assert
+    expect(() => engine.render('{{#a}}{{/b}}', {}, html)).toThrow(
+      'unexpected closing tag in email template: b',
+    );
+    expect(() => engine.render('{{#a}}', {}, html)).toThrow(
+      'unclosed section in email template: a',
+    );
+    expect(() => engine.render('{{> footer}}', {}, html)).toThrow(
+      'email template partial not found: footer',
+    );
+  });
+});
@@ -159,6 +159,42 @@ describe('NodemailerSender', () => {
       });
     });
 
+    it('should send email with cc, bcc, reply-to, custom headers and priority', async () => {
+      // Arrange
+      const sender = new NodemailerSender(smtpConfig);
+      const emailData: EmailData = {
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        cc: ['cc1@example.com', 'cc2@example.com'],
+        bcc: 'bcc@example.com',
+        replyTo: 'support@example.com',
+        subject: 'Newsletter',
+        html: '<p>News</p>',
+        headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' },
+        priority: 'low',
+      };
+
+      mockSendMail.mockResolvedValue({ messageId: 'test-message-id' });
+
+      // Act
+      await sender.send(emailData);
+
+      // Assert
+      expect(mockSendMail).toHaveBeenCalledWith({
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        cc: ['cc1@example.com', 'cc2@example.com'],
+        bcc: 'bcc@example.com',
+        replyTo: 'support@example.com',
+        subject: 'Newsletter',
+        text: undefined,
+        html: '<p>News</p>',
+        attachments: undefined,
+        headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' },
+        priority: 'low',
+      });
+    });
+
     it('should throw error when sending fails', async () => {
       // Arrange
       const sender = new NodemailerSender(smtpConfig);
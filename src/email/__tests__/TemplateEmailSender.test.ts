@@ -0,0 +1,183 @@
+import { EmailSender } from '../EmailSender';
+import { htmlToText } from '../htmlToText';
+import { TemplateEmailSender } from '../TemplateEmailSender';
+import { TemplateEngine } from '../types';
+
+interface Templates {
+  welcome: { name: string; activationUrl: string };
+  receipt: { total: string };
+}
+
+describe('TemplateEmailSender', () => {
+  const mockSend = jest.fn();
+  const sender = { send: mockSend } as unknown as EmailSender;
+  let templateSender: TemplateEmailSender<Templates>;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockSend.mockResolvedValue({ messageId: 'test-message-id' });
+
+    templateSender = new TemplateEmailSender<Templates>({
+      sender,
+      defaultLocale: 'en',
+      from: 'noreply@example.com',
+    })
+      .registerLayout('main', {
+        html: '<html><body>{{{body}}}{{> footer}}</body></html>',
+        text: '{{{body}}}\n\n-- The Example team',
+      })
+      .registerPartial('footer', '<p>The Example team</p>')
+      .registerTemplate(
+        'welcome',
+        {
+          subject: 'Welcome {{name}}',
+          html: '<p>Hi {{name}}, <a href="{{activationUrl}}">activate your account</a>.</p>',
+          layout: 'main',
+        },
+        'en',
+      )
+      .registerTemplate(
+        'welcome',
+        {
+          subject: 'Benvenuto {{name}}',
+          html: '<p>Ciao {{name}}</p>',
+          text: 'Ciao {{name}}',
+          layout: 'main',
+        },
+        'it',
+      );
+  });
+
+  describe('render', () => {
+    it('should render the template in its layout and generate the text alternative', () => {
+      // Act
+      const result = templateSender.render('welcome', {
+        name: 'Tom & Jerry',
+        activationUrl: 'https://example.com/activate?token=1&user=2',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        subject: 'Welcome Tom & Jerry',
+        html:
+          '<html><body><p>Hi Tom &amp; Jerry, <a href="https://example.com/activate?token=1&amp;user=2">' +
+          'activate your account</a>.</p><p>The Example team</p></body></html>',
+        text:
+          'Hi Tom & Jerry, activate your account (https://example.com/activate?token=1&user=2).\n\n' +
+          'The Example team',
+      });
+    });
+
+    it('should fall back from the region to the language and the default locale', () => {
+      // Act
+      const italian = templateSender.render(
+        'welcome',
+        { name: 'Anna', activationUrl: '' },
+        'it-IT',
+      );
+      const french = templateSender.render('welcome', { name: 'Anna', activationUrl: '' }, 'fr');
+
+      // Assert
+      expect(italian.subject).toBe('Benvenuto Anna');
+      expect(italian.text).toBe('Ciao Anna\n\n-- The Example team');
+      expect(french.subject).toBe('Welcome Anna');
+    });
+
+    it('should throw when the template or its layout is missing', () => {
+      // Arrange
+      templateSender.registerTemplate('receipt', { subject: 'Receipt', layout: 'missing' });
+
+      // Act & Assert
+      expect(() =>
+        new TemplateEmailSender<Templates>({ sender }).render('receipt', { total: '1' }),
+      ).toThrow('email template not found: receipt');
+      expect(() => templateSender.render('receipt', { total: '1' })).toThrow(
+        'email layout not found: missing',
+      );
+    });
+
+    it('should render with a custom template engine', () => {
+      // Arrange
+      const engine: TemplateEngine = {
+        render: (template, variables) =>
+          template.replace(/\$(\w+)/g, (_match, name: string) =>
+            String((variables as Record<string, unknown>)[name]),
+          ),
+      };
+      const customSender = new TemplateEmailSender<Templates>({ sender, engine }).registerTemplate(
+        'receipt',
+        { subject: 'Receipt', text: 'Total: $total' },
+      );
+
+      // Act
+      const result = customSender.render('receipt', { total: '42 EUR' });
+
+      // Assert
+      expect(result).toEqual({ subject: 'Receipt', text: 'Total: 42 EUR' });
+    });
+  });
+
+  describe('send', () => {
+    it('should send the rendered email with the underlying sender', async () => {
+      // Act
+      const result = await templateSender.send('welcome', {
+        to: ['anna@example.com'],
+        locale: 'it',
+        variables: { name: 'Anna', activationUrl: '' },
+      });
+
+      // Assert
+      expect(result).toEqual({ messageId: 'test-message-id' });
+      expect(mockSend).toHaveBeenCalledWith({
+        to: ['anna@example.com'],
+        from: 'noreply@example.com',
+        subject: 'Benvenuto Anna',
+        html: '<html><body><p>Ciao Anna</p><p>The Example team</p></body></html>',
+        text: 'Ciao Anna\n\n-- The Example team',
+      });
+    });
+
+    it('should require a sender address', async () => {
+      // Arrange
+      const noFromSender = new TemplateEmailSender<Templates>({ sender });
+
+      // Act & Assert
+      await expect(
+        noFromSender.send('receipt', { to: 'anna@example.com', variables: { total: '1' } }),
+      ).rejects.toThrow('email sender address is missing');
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should convert blocks, lists, tables and entities', () => {
+      // Arrange
+      const html = [
+        '<html><head><title>Order</title><style>p { color: red; }</style></head><body>',
+        '<h1>Order   confirmed</h1>',
+        '<p>Thanks&nbsp;for your order.<br>It ships &#x1F4E6; soon.</p>',
+        '<ul><li>Book</li><li>Pen</li></ul>',
+        '<table><tr><td>Total</td><td>&euro;10</td></tr></table>',
+        '<a href="https://example.com">https://example.com</a>',
+        '</body></html>',
+      ].join('\n');
+
+      // Act
+      const result = htmlToText(html);
+
+      // Assert
+      expect(result).toBe(
+        'Order confirmed\n\nThanks for your order.\nIt ships \u{1F4E6} soon.\n\n- Book\n- Pen\n\n' +
+          'Total &euro;10\n\nhttps://example.com',
+      );
+    });
+
+    it('should replace invalid numeric entities', () => {
+      // Act
+      const result = htmlToText('<p>&#x110000; &#99999999; &#xD800; &#0; &#65;</p>');
+
+      // Assert
+      expect(result).toBe('\uFFFD \uFFFD \uFFFD \uFFFD A');
+    });
+  });
+});
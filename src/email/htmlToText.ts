@@ -0,0 +1,56 @@
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// decode the named and numeric html entities
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      // null, surrogate and out of range code points are replaced, as browsers do
+      const valid =
+        codePoint > 0 && codePoint <= 0x10ffff && !(codePoint >= 0xd800 && codePoint <= 0xdfff);
+      return String.fromCodePoint(valid ? codePoint : 0xfffd);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+// generate the plain text alternative of an html email body
+export function htmlToText(html: string): string {
+  const text = html
+    // content that is never displayed
+    .replace(/<(head|style|script|title)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // html whitespace is not significant
+    .replace(/\s+/g, ' ')
+    // links keep their target
+    .replace(
+      /<a\s[^>]*href=(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi,
+      (_link, _quote, href: string, label: string) => {
+        const labelText = label.replace(/<[^>]+>/g, '').trim();
+        return !labelText || labelText === href ? href : `${labelText} (${href})`;
+      },
+    )
+    // block elements and line breaks
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/?(p|div|h[1-6]|ul|ol|table|tr|blockquote|section|header|footer)[^>]*>/gi, '\n\n')
+    .replace(/<\/(td|th)>/gi, ' ')
+    .replace(/<hr[^>]*>/gi, '\n\n---\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
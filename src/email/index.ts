@@ -10,3 +10,8 @@ export { AwsSender } from './AwsSender';
 
 // export factory
 export { EmailSenderFactory } from './EmailSenderFactory';
+
+// export templating
+export { TemplateEmailSender } from './TemplateEmailSender';
+export { MustacheTemplateEngine } from './MustacheTemplateEngine';
+export { htmlToText } from './htmlToText';
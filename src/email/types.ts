@@ -1,4 +1,6 @@
+import { AwsCredentialIdentity, AwsCredentialIdentityProvider } from '@aws-sdk/types';
 import { Attachment } from 'nodemailer/lib/mailer';
+import { EmailSender } from './EmailSender';
 
 // define email data interface
 export interface EmailData {
@@ -8,6 +10,29 @@ export interface EmailData {
   text?: string;
   html?: string;
   attachments?: Attachment[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string | string[];
+  // custom headers (e.g. List-Unsubscribe), aws ses sends them as a raw email
+  headers?: Record<string, string>;
+  // sets the X-Priority, X-MSMail-Priority and Importance headers
+  priority?: 'high' | 'normal' | 'low';
+  // aws ses sending options, merged over the defaults of the sender
+  ses?: SesSendOptions;
+}
+
+// aws ses sending options, set as defaults on the sender or per email
+export interface SesSendOptions {
+  // configuration set whose event destinations receive the sending events
+  configurationSetName?: string;
+  // message tags published with the sending events (e.g. { campaign: 'welcome' })
+  tags?: Record<string, string>;
+  // identity authorizing the use of the from address (sending authorization)
+  fromEmailAddressIdentityArn?: string;
+  // identity authorizing the use of the address receiving bounces and complaints
+  feedbackForwardingEmailAddressIdentityArn?: string;
+  // ses tenant the email is sent for
+  tenantName?: string;
 }
 
 // define configuration interfaces
@@ -21,10 +46,16 @@ export interface SmtpConfig {
   };
 }
 
-export interface AwsConfig {
-  accessKeyId: string;
-  secretAccessKey: string;
+export interface AwsConfig extends SesSendOptions {
   region: string;
+  // static keys, the default credential chain is used when omitted
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  // credentials or credential provider, preferred over the static keys
+  credentials?: AwsCredentialIdentity | AwsCredentialIdentityProvider;
+  // custom endpoint of the ses api (e.g. a local ses stand-in)
+  endpoint?: string;
 }
 
 // configuration with type discriminator
@@ -37,3 +68,59 @@ export interface AwsConfigWithType extends AwsConfig {
 }
 
 export type EmailConfig = SmtpConfigWithType | AwsConfigWithType;
+
+// options passed to a template engine for each render
+export interface TemplateRenderOptions {
+  // templates that can be included with {{> name}}
+  partials: Record<string, string>;
+  // whether {{variables}} are html escaped (false for subjects and text bodies)
+  escape: boolean;
+}
+
+// pluggable template engine (e.g. an adapter over handlebars)
+export interface TemplateEngine {
+  render(template: string, variables: object, options: TemplateRenderOptions): string;
+}
+
+// named email template, the text body is generated from the html one if omitted
+export interface EmailTemplate {
+  subject: string;
+  html?: string;
+  text?: string;
+  // name of the layout wrapping the bodies
+  layout?: string;
+}
+
+// layout wrapping the bodies of templates, which are inserted with {{{body}}}
+export interface EmailLayout {
+  html?: string;
+  text?: string;
+}
+
+// rendered subject and bodies of a template
+export interface RenderedEmail {
+  subject: string;
+  html?: string;
+  text: string;
+}
+
+export interface TemplateEmailSenderConfig {
+  sender: EmailSender;
+  // defaults to the built-in mustache-style engine
+  engine?: TemplateEngine;
+  // locale used when the requested one has no variant (e.g. 'en')
+  defaultLocale?: string;
+  // sender address used when the email data has none
+  from?: string;
+}
+
+// email data of a templated email, the subject and bodies come from the template
+export type TemplateEmailData<TVariables extends object> = Omit<
+  EmailData,
+  'from' | 'subject' | 'text' | 'html'
+> & {
+  from?: string;
+  variables: TVariables;
+  // e.g. 'it-IT', falling back to 'it', then to the default locale
+  locale?: string;
+};